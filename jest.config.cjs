@@ -15,7 +15,9 @@ module.exports = {
   ],
   transform: {
     '^.+\\.(ts|tsx)$': ['ts-jest', {
-      useESM: true
+      useESM: true,
+      // Citation.js is CommonJS; its default import needs the interop helpers
+      tsconfig: { esModuleInterop: true }
     }],
   },
   collectCoverageFrom: [
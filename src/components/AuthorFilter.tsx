@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
+import { latexToUnicode } from '../utils/latexUnicode';
 
 interface AuthorFilterProps {
   allAuthors: string[];
@@ -13,7 +14,7 @@ export function AuthorFilter({ allAuthors, value, onChange }: AuthorFilterProps)
   const inputRef = useRef<HTMLInputElement>(null);
 
   const filteredAuthors = allAuthors.filter(author =>
-    author.toLowerCase().includes(value.toLowerCase())
+    latexToUnicode(author).toLowerCase().includes(latexToUnicode(value).toLowerCase())
   );
 
   useEffect(() => {
@@ -119,7 +120,7 @@ export function AuthorFilter({ allAuthors, value, onChange }: AuthorFilterProps)
               } ${highlightedIndex === index + 1 ? 'bg-gray-100' : ''}`}
               onClick={() => handleOptionClick(author)}
             >
-              {author}
+              {latexToUnicode(author)}
             </div>
           ))}
         </div>
@@ -0,0 +1,138 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { AUTHOR_EVIDENCE_LABELS, AuthorCluster, buildAuthorMergeUpdates, findAuthorClusters } from '../utils/authorIdentity';
+
+interface AuthorVariantsPanelProps {
+  onSelectAuthor: (name: string) => void;
+}
+
+export function AuthorVariantsPanel({ onSelectAuthor }: AuthorVariantsPanelProps) {
+  const { state } = useCitationData();
+  const { updateEntries, setSettings } = useCitationActions();
+  // Per cluster ID: the chosen canonical variant and the variants left out of the merge
+  const [canonicalKeys, setCanonicalKeys] = useState<Record<string, string>>({});
+  const [excludedKeys, setExcludedKeys] = useState<Record<string, string[]>>({});
+
+  const rejected = useMemo(() => state.settings.rejectedAuthorClusters || [], [state.settings.rejectedAuthorClusters]);
+  const clusters = useMemo(() => findAuthorClusters(state.cite.data, rejected), [state.cite.data, rejected]);
+
+  const getCanonicalKey = (cluster: AuthorCluster) => canonicalKeys[cluster.id] || cluster.variants[0].key;
+
+  const handleToggleVariant = useCallback((clusterId: string, key: string, included: boolean) => {
+    setExcludedKeys(prev => {
+      const excluded = prev[clusterId] || [];
+      return { ...prev, [clusterId]: included ? excluded.filter(item => item !== key) : [...excluded, key] };
+    });
+  }, []);
+
+  const handleMerge = useCallback((cluster: AuthorCluster) => {
+    const canonicalKey = canonicalKeys[cluster.id] || cluster.variants[0].key;
+    const canonical = cluster.variants.find(variant => variant.key === canonicalKey);
+    const excluded = excludedKeys[cluster.id] || [];
+    const variantKeys = cluster.variants.map(variant => variant.key).filter(key => !excluded.includes(key));
+    if (!canonical || variantKeys.length < 2) return;
+
+    updateEntries(buildAuthorMergeUpdates(state.cite.data, variantKeys, canonical.name));
+  }, [canonicalKeys, excludedKeys, state.cite.data, updateEntries]);
+
+  const handleReject = useCallback((cluster: AuthorCluster) => {
+    setSettings({ rejectedAuthorClusters: [...rejected, cluster.id] });
+  }, [rejected, setSettings]);
+
+  if (clusters.length === 0) {
+    return (
+      <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
+        <h2>No name variants found.</h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow overflow-y-auto p-4 space-y-4">
+      {clusters.map(cluster => {
+        const canonicalKey = getCanonicalKey(cluster);
+        const excluded = excludedKeys[cluster.id] || [];
+        const mergeCount = cluster.variants.filter(variant => !excluded.includes(variant.key)).length;
+        const entryCount = new Set(cluster.variants.flatMap(variant => variant.entryIds)).size;
+
+        return (
+          <div key={cluster.id} className="border border-gray-200 rounded-md bg-white">
+            <div className="px-4 py-2 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-900">
+                {cluster.variants.length} variants in {entryCount} entr{entryCount === 1 ? 'y' : 'ies'}
+              </span>
+              {cluster.evidence.map(evidence => (
+                <span key={evidence} className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-800">
+                  {AUTHOR_EVIDENCE_LABELS[evidence]}
+                  {evidence === 'co-authors' && ` (${cluster.sharedCoAuthors})`}
+                </span>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="px-4 py-1 font-normal w-20">Canonical</th>
+                  <th className="px-2 py-1 font-normal w-16">Merge</th>
+                  <th className="px-2 py-1 font-normal">Name</th>
+                  <th className="px-4 py-1 font-normal text-right">Entries</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cluster.variants.map(variant => {
+                  const included = !excluded.includes(variant.key);
+                  return (
+                    <tr key={variant.key} className="border-t border-gray-100">
+                      <td className="px-4 py-1">
+                        <input
+                          type="radio"
+                          name={`canonical-${cluster.id}`}
+                          checked={canonicalKey === variant.key}
+                          disabled={!included}
+                          onChange={() => setCanonicalKeys(prev => ({ ...prev, [cluster.id]: variant.key }))}
+                        />
+                      </td>
+                      <td className="px-2 py-1">
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          disabled={canonicalKey === variant.key}
+                          onChange={(e) => handleToggleVariant(cluster.id, variant.key, e.target.checked)}
+                        />
+                      </td>
+                      <td className={`px-2 py-1 ${included ? 'text-gray-900' : 'text-gray-400'}`}>
+                        <button onClick={() => onSelectAuthor(variant.key)} className="hover:underline text-left">
+                          {variant.key}
+                        </button>
+                        {variant.s2AuthorIds.length > 0 && (
+                          <span className="ml-2 text-xs text-gray-500 font-mono">S2 {variant.s2AuthorIds.join(', ')}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-1 text-right text-gray-600">{variant.entryIds.length}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="px-4 py-2 border-t border-gray-200 flex justify-end gap-2">
+              <button
+                onClick={() => handleReject(cluster)}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Different People
+              </button>
+              <button
+                onClick={() => handleMerge(cluster)}
+                disabled={mergeCount < 2}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Merge {mergeCount} into "{canonicalKey}"
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
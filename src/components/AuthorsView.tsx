@@ -1,7 +1,11 @@
 import { useState, useCallback } from 'react';
 import { CSLEntry, CSLAuthor } from '../types/cslFieldMetadata';
 import { EntryCard } from './EntryCard';
+import { AuthorVariantsPanel } from './AuthorVariantsPanel';
 import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { latexToUnicode } from '../utils/latexUnicode';
+import { reparseEntryNames } from '../utils/bibtexNames';
+import { getPersonName } from '../utils/cslUtils';
 
 
 interface AuthorsViewProps {
@@ -13,12 +17,13 @@ interface AuthorsViewProps {
 export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewProps) {
   const [selectedAuthor, setSelectedAuthor] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showVariants, setShowVariants] = useState(false);
   const { state } = useCitationData();
   const { addVariable, updateEntry } = useCitationActions();
 
   const filteredAuthors = useCallback((): string[] => {
     return allAuthors.filter(author => 
-      author.toLowerCase().includes(searchTerm.toLowerCase())
+      latexToUnicode(author).toLowerCase().includes(searchTerm.toLowerCase())
     );
   }, [allAuthors, searchTerm]);
 
@@ -34,13 +39,8 @@ export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewP
           // Check both the variable value and the literal key
           const authorValue = state.variables[author.literal] || author.literal;
           return authorValue === selectedAuthor || author.literal === selectedAuthor;
-        } else if (author.given && author.family) {
-          const fullName = `${author.given} ${author.family}`;
-          return fullName === selectedAuthor;
-        } else if (author.family) {
-          return author.family === selectedAuthor;
         }
-        return false;
+        return getPersonName(author) === selectedAuthor;
       });
     });
   }, [entries, selectedAuthor, state.variables]);
@@ -59,13 +59,8 @@ export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewP
         if (author.literal) {
           const authorValue = state.variables[author.literal] || author.literal;
           return authorValue === authorName || author.literal === authorName;
-        } else if (author.given && author.family) {
-          const fullName = `${author.given} ${author.family}`;
-          return fullName === authorName;
-        } else if (author.family) {
-          return author.family === authorName;
         }
-        return false;
+        return getPersonName(author) === authorName;
       });
     });
     
@@ -79,9 +74,7 @@ export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewP
           const authorValue = state.variables[author.literal] || author.literal;
           matchesAuthor = authorValue === authorName || author.literal === authorName;
         } else {
-          matchesAuthor = 
-            (author.given && author.family && `${author.given} ${author.family}` === authorName) ||
-            (author.family === authorName);
+          matchesAuthor = getPersonName(author) === authorName;
         }
         
         // If it matches and is not a variable reference, return true
@@ -105,8 +98,7 @@ export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewP
           const authorValue = currentVariables[author.literal] || author.literal;
           return authorValue === authorName || author.literal === authorName;
         }
-        return (author.given && author.family && `${author.given} ${author.family}` === authorName) ||
-               (author.family === authorName);
+        return getPersonName(author) === authorName;
       });
     });
 
@@ -119,9 +111,7 @@ export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewP
           const authorValue = currentVariables[author.literal] || author.literal;
           matchesAuthor = authorValue === authorName || author.literal === authorName;
         } else {
-          matchesAuthor = 
-            (author.given && author.family && `${author.given} ${author.family}` === authorName) ||
-            (author.family === authorName);
+          matchesAuthor = getPersonName(author) === authorName;
         }
         
         // If this author matches and is not already a variable, replace with variable
@@ -160,74 +150,112 @@ export function AuthorsView({ entries, allAuthors, onSelectEntry }: AuthorsViewP
     replaceAuthorWithVariable(authorName, variableKey);
   }, [state.variables, addVariable, replaceAuthorWithVariable]);
 
+  // Splits every author and editor name again with the BibTeX name rules
+  const handleReparseNames = useCallback(() => {
+    const updates = reparseEntryNames(state.cite.data);
+    const count = Object.keys(updates).length;
+    if (count === 0) {
+      alert('All names are already split into their parts.');
+      return;
+    }
+    if (window.confirm(`Re-parse the names of ${count} entr${count === 1 ? 'y' : 'ies'}? Particles like "van" and suffixes like "Jr." are moved out of the given and family names.`)) {
+      Object.entries(updates).forEach(([id, names]) => updateEntry(id, names));
+    }
+  }, [state.cite.data, updateEntry]);
+
   return (
     <div className="flex flex-col flex-grow overflow-hidden">
-      <div className="px-4 py-3 border-b border-gray-200 bg-white">
+      <div className="px-4 py-3 border-b border-gray-200 bg-white flex gap-2">
         <input
           type="search"
           placeholder="Search authors..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
-          className="w-full px-2 py-2 border border-gray-300 rounded text-base"
+          className="flex-grow px-2 py-2 border border-gray-300 rounded text-base"
         />
+        <button
+          onClick={handleReparseNames}
+          className="flex-none px-3 py-2 text-sm border border-gray-300 rounded bg-white hover:bg-gray-50"
+          title="Split names into given name, particle, family name and suffix with the BibTeX rules"
+        >
+          Re-parse Names
+        </button>
+        <button
+          onClick={() => setShowVariants(!showVariants)}
+          className={`flex-none px-3 py-2 text-sm border rounded ${
+            showVariants ? 'border-blue-600 bg-blue-600 text-white hover:bg-blue-700' : 'border-gray-300 bg-white hover:bg-gray-50'
+          }`}
+          title="Find spellings of the same person's name and merge them"
+        >
+          Name Variants
+        </button>
       </div>
       
-      <div className="flex flex-grow overflow-hidden">
-        <div className="flex-none w-80 border-r border-gray-200 overflow-y-auto bg-white">
-          {filteredAuthors().map(author => (
-            <div
-              key={author}
-              className={`px-6 py-3 cursor-pointer border-b border-gray-200 transition-colors ${
-                selectedAuthor === author 
-                  ? 'bg-blue-600 text-white font-medium' 
-                  : 'hover:bg-gray-50 text-gray-900'
-              }`}
-              onClick={() => handleAuthorSelect(author)}
-            >
-              {author}
-            </div>
-          ))}
-        </div>
-        
-        <div className="flex-grow flex flex-col overflow-hidden">
-          {selectedAuthor && shouldShowCreateVariableButton(selectedAuthor) && (
-            <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
-              <button
-                onClick={() => handleCreateVariable(selectedAuthor)}
-                className="w-full px-4 py-2 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors font-medium"
-                title={`Create variable str_${selectedAuthor.split(' ').pop()} and replace all occurrences`}
+      {showVariants ? (
+        <AuthorVariantsPanel
+          onSelectAuthor={(name) => {
+            setSelectedAuthor(name);
+            setShowVariants(false);
+          }}
+        />
+      ) : (
+        <div className="flex flex-grow overflow-hidden">
+          <div className="flex-none w-80 border-r border-gray-200 overflow-y-auto bg-white">
+            {filteredAuthors().map(author => (
+              <div
+                key={author}
+                className={`px-6 py-3 cursor-pointer border-b border-gray-200 transition-colors ${
+                  selectedAuthor === author 
+                    ? 'bg-blue-600 text-white font-medium' 
+                    : 'hover:bg-gray-50 text-gray-900'
+                }`}
+                onClick={() => handleAuthorSelect(author)}
               >
-                Create Variable: str_{selectedAuthor.split(' ').pop()}
-              </button>
-            </div>
-          )}
-          
-          <div className="flex-grow overflow-y-auto p-4">
-            {selectedAuthor ? (
-              <>
-                {authorWorks().length === 0 ? (
-                  <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
-                    <h2>No works found for this author.</h2>
-                  </div>
-                ) : (
-                  authorWorks().map(entry => (
-                    <EntryCard
-                      key={entry.id}
-                      entry={entry}
-                      isActive={false}
-                      onClick={() => onSelectEntry(entry.id)}
-                    />
-                  ))
-                )}
-              </>
-            ) : (
-              <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
-                <h2>Select an author to see their works.</h2>
+                {latexToUnicode(author)}
+              </div>
+            ))}
+          </div>
+        
+          <div className="flex-grow flex flex-col overflow-hidden">
+            {selectedAuthor && shouldShowCreateVariableButton(selectedAuthor) && (
+              <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+                <button
+                  onClick={() => handleCreateVariable(selectedAuthor)}
+                  className="w-full px-4 py-2 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors font-medium"
+                  title={`Create variable str_${selectedAuthor.split(' ').pop()} and replace all occurrences`}
+                >
+                  Create Variable: str_{selectedAuthor.split(' ').pop()}
+                </button>
               </div>
             )}
+          
+            <div className="flex-grow overflow-y-auto p-4">
+              {selectedAuthor ? (
+                <>
+                  {authorWorks().length === 0 ? (
+                    <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
+                      <h2>No works found for this author.</h2>
+                    </div>
+                  ) : (
+                    authorWorks().map(entry => (
+                      <EntryCard
+                        key={entry.id}
+                        entry={entry}
+                        isActive={false}
+                        onClick={() => onSelectEntry(entry.id)}
+                      />
+                    ))
+                  )}
+                </>
+              ) : (
+                <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
+                  <h2>Select an author to see their works.</h2>
+                </div>
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,5 +1,7 @@
 
 
+import { IMPORT_FILE_ACCEPT } from '../utils/importFormats';
+
 interface BibFile {
   name: string;
   content: string;
@@ -59,7 +61,7 @@ export function BibFileSelector({ files, onSelect, onCancel, onFileUpload, onCre
                 <p className="text-sm text-gray-600 mb-3">Or choose a different file:</p>
                 <input
                   type="file"
-                  accept=".bib,.bibtex,.json"
+                  accept={IMPORT_FILE_ACCEPT}
                   onChange={onFileUpload}
                   className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                 />
@@ -68,13 +70,13 @@ export function BibFileSelector({ files, onSelect, onCancel, onFileUpload, onCre
           ) : (
             <>
               <p className="text-gray-600 mb-6">
-                Please select a bibliography file (.bib or .json) to get started with managing your bibliography.
+                Please select a bibliography file (.bib, .json, .ris, EndNote XML or Zotero RDF) to get started with managing your bibliography.
               </p>
               
               <div className="space-y-4">
                 <input
                   type="file"
-                  accept=".bib,.bibtex,.json"
+                  accept={IMPORT_FILE_ACCEPT}
                   onChange={onFileUpload}
                   className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                 />
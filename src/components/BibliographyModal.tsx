@@ -0,0 +1,319 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useCitationData, useFilteredAndSortedEntries } from '../hooks/useCitation';
+import {
+  BibliographyFormat,
+  BIBLIOGRAPHY_FORMAT_FILES,
+  CSLStyleOption,
+  CSL_LOCALE_OPTIONS,
+  CSL_STYLE_OPTIONS,
+  ensureLocale,
+  ensureStyle,
+  formatBibliography,
+  registerCustomStyle
+} from '../utils/bibliographyFormatter';
+import { copyToClipboard } from '../utils/clipboard';
+import { saveTextFile } from '../utils/fileSave';
+import { getEntriesInScope } from '../utils/cslUtils';
+import { ExportScope } from '../types/citationTypes';
+
+interface BibliographyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultScope?: ExportScope;
+}
+
+const STYLE_GROUPS: Array<{ source: CSLStyleOption['source']; label: string }> = [
+  { source: 'bundled', label: 'Bundled' },
+  { source: 'repository', label: 'CSL repository (downloaded on first use)' },
+  { source: 'custom', label: 'Uploaded' }
+];
+
+export function BibliographyModal({ isOpen, onClose, defaultScope = 'filtered' }: BibliographyModalProps) {
+  const { state } = useCitationData();
+  const filteredEntries = useFilteredAndSortedEntries();
+
+  const [scope, setScope] = useState<ExportScope>(defaultScope);
+  const [styleId, setStyleId] = useState('apa');
+  const [locale, setLocale] = useState('en-US');
+  const [format, setFormat] = useState<BibliographyFormat>('html');
+  const [customStyles, setCustomStyles] = useState<CSLStyleOption[]>([]);
+  const [loadedStyle, setLoadedStyle] = useState<string | null>(null); // "style|locale" once both are registered
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const modalRef = useRef<HTMLDivElement>(null);
+  const styleFileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedEntries = useMemo(() => getEntriesInScope(state, 'selected'), [state]);
+  const citedEntries = useMemo(() => getEntriesInScope(state, 'cited'), [state]);
+
+  // Filtered entries keep the list order, which numeric styles follow
+  const entries = {
+    all: state.cite.data,
+    filtered: filteredEntries,
+    selected: selectedEntries,
+    cited: citedEntries
+  }[scope];
+
+  // Start from the export scope each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setScope(defaultScope);
+  }, [isOpen, defaultScope]);
+
+  // Handle ESC key and click outside
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('mousedown', handleClickOutside);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.body.style.overflow = '';
+    };
+  }, [isOpen, onClose]);
+
+  // Download styles and locales that aren't bundled
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setError(null);
+    Promise.all([ensureStyle(styleId), ensureLocale(locale)])
+      .then(() => {
+        if (!cancelled) setLoadedStyle(`${styleId}|${locale}`);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, styleId, locale]);
+
+  const isReady = loadedStyle === `${styleId}|${locale}`;
+
+  const output = useMemo(() => {
+    if (!isOpen || !isReady) return '';
+    try {
+      return formatBibliography(entries, { style: styleId, locale, format }, state.variables);
+    } catch (err) {
+      console.error('Bibliography formatting failed:', err);
+      return '';
+    }
+  }, [isOpen, isReady, entries, styleId, locale, format, state.variables]);
+
+  const handleStyleUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const option = registerCustomStyle(e.target?.result as string);
+        setCustomStyles(prev => [...prev.filter(style => style.id !== option.id), option]);
+        setStyleId(option.id);
+      } catch (err) {
+        setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      // Paste with formatting into word processors, plain text elsewhere
+      const text = format === 'html' ? formatBibliography(entries, { style: styleId, locale, format: 'text' }, state.variables) : output;
+      await copyToClipboard({ text, html: format === 'html' ? output : undefined });
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setError(`Copy failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [entries, styleId, locale, format, output, state.variables]);
+
+  const handleDownload = useCallback(async () => {
+    const file = BIBLIOGRAPHY_FORMAT_FILES[format];
+    const content = format === 'html'
+      ? `<!DOCTYPE html>\n<html>\n<head><meta charset="utf-8"><title>Bibliography</title></head>\n<body>\n${output}</body>\n</html>\n`
+      : output;
+    await saveTextFile(content, {
+      suggestedName: `bibliography${file.extension}`,
+      description: file.description,
+      mimeType: file.mimeType,
+      extensions: [file.extension]
+    });
+  }, [format, output]);
+
+  if (!isOpen) return null;
+
+  const styleOptions = [...CSL_STYLE_OPTIONS, ...customStyles];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={modalRef}
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Format Bibliography</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Options */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entries</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ExportScope)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All entries ({state.cite.data.length})</option>
+              <option value="filtered">Filtered entries ({filteredEntries.length})</option>
+              <option value="selected" disabled={selectedEntries.length === 0}>
+                Selected entries ({selectedEntries.length})
+              </option>
+              <option value="cited" disabled={citedEntries.length === 0}>
+                Cited entries ({citedEntries.length})
+              </option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Style</label>
+            <div className="flex gap-2">
+              <select
+                value={styleId}
+                onChange={(e) => setStyleId(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {STYLE_GROUPS.map(group => {
+                  const options = styleOptions.filter(style => style.source === group.source);
+                  return options.length > 0 && (
+                    <optgroup key={group.source} label={group.label}>
+                      {options.map(style => (
+                        <option key={style.id} value={style.id}>{style.label}</option>
+                      ))}
+                    </optgroup>
+                  );
+                })}
+              </select>
+              <button
+                onClick={() => styleFileInputRef.current?.click()}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                title="Use your own CSL style file"
+              >
+                Upload .csl
+              </button>
+              <input
+                ref={styleFileInputRef}
+                type="file"
+                accept=".csl,.xml"
+                className="hidden"
+                onChange={handleStyleUpload}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Locale</label>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {CSL_LOCALE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Output</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as BibliographyFormat)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="html">HTML</option>
+              <option value="text">Plain text</option>
+              <option value="rtf">RTF</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+          {!isReady && !error && (
+            <p className="text-gray-500">Loading style...</p>
+          )}
+          {isReady && entries.length === 0 && (
+            <p className="text-gray-500">No entries to format.</p>
+          )}
+          {isReady && output && (
+            format === 'html' ? (
+              // Output of citeproc-js, which escapes entry content
+              <div className="text-gray-900 leading-relaxed" dangerouslySetInnerHTML={{ __html: output }} />
+            ) : (
+              <pre className="text-sm text-gray-800 whitespace-pre-wrap font-mono">{output}</pre>
+            )
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleCopy}
+              disabled={!output}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={!output}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
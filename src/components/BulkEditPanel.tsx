@@ -0,0 +1,265 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { CSL_ENTRY_TYPES, CSL_FIELD_METADATA } from '../types/cslFieldMetadata';
+import { buildKeywordUpdates, buildMetadataUpdates, buildSetFieldUpdates, splitKeywords } from '../utils/bulkEdit';
+import { getSearchableFields } from '../utils/findReplace';
+import { DEFAULT_KEY_PATTERN, regenerateCitationKeys } from '../utils/citationKeyPattern';
+import { SemanticScholarApi } from '../utils/semanticScholarApi';
+import { convertSemanticScholarToCSL, getSemanticScholarIdFromEntry } from '../utils/semanticScholarConverter';
+
+interface BulkEditPanelProps {
+  entries: any[]; // selected entries
+  onClearSelection: () => void;
+}
+
+export function BulkEditPanel({ entries, onClearSelection }: BulkEditPanelProps) {
+  const { state } = useCitationData();
+  const { updateEntries, renameEntries, deleteEntries } = useCitationActions();
+  const [field, setField] = useState('note');
+  const [value, setValue] = useState('');
+  const [keywordsToAdd, setKeywordsToAdd] = useState('');
+  const [type, setType] = useState<string>(CSL_ENTRY_TYPES[0]);
+  const [fetchProgress, setFetchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fields = useMemo(() => getSearchableFields(state.cite.data), [state.cite.data]);
+  const pattern = state.settings.citationKeyPattern || DEFAULT_KEY_PATTERN;
+
+  // Keywords of the selection with the number of entries using each
+  const keywordCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => splitKeywords(entry.keyword).forEach(keyword => {
+      counts.set(keyword, (counts.get(keyword) || 0) + 1);
+    }));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }, [entries]);
+
+  const keyRenames = useMemo(
+    () => regenerateCitationKeys(entries, state.cite.data, pattern),
+    [entries, state.cite.data, pattern]
+  );
+  const keyRenameCount = Object.keys(keyRenames).length;
+
+  const fetchableEntries = useMemo(
+    () => entries.filter(entry => getSemanticScholarIdFromEntry(entry) || entry.DOI),
+    [entries]
+  );
+
+  const applyUpdates = useCallback((updates: Record<string, Record<string, any>>) => {
+    const count = Object.keys(updates).length;
+    if (count > 0) updateEntries(updates);
+    setMessage(count > 0 ? `Updated ${count} entr${count === 1 ? 'y' : 'ies'}.` : 'No entries changed.');
+  }, [updateEntries]);
+
+  const handleRegenerateKeys = useCallback(() => {
+    if (keyRenameCount === 0) return;
+    try {
+      renameEntries(keyRenames);
+      setMessage(`Renamed ${keyRenameCount} entr${keyRenameCount === 1 ? 'y' : 'ies'}.`);
+    } catch (err) {
+      alert(`Could not regenerate keys: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [keyRenames, keyRenameCount, renameEntries]);
+
+  // Requests run one after the other to stay within the API rate limit
+  const handleFetchMetadata = useCallback(async () => {
+    const updates: Record<string, Record<string, any>> = {};
+    const failed: string[] = [];
+    setMessage(null);
+
+    for (let index = 0; index < fetchableEntries.length; index++) {
+      const entry = fetchableEntries[index];
+      setFetchProgress({ done: index, total: fetchableEntries.length });
+      try {
+        const paperId = getSemanticScholarIdFromEntry(entry) || `DOI:${entry.DOI}`;
+        const paper = await SemanticScholarApi.getPaperDetails(paperId);
+        const entryUpdates = buildMetadataUpdates(entry, convertSemanticScholarToCSL(paper, pattern));
+        if (Object.keys(entryUpdates).length > 0) updates[entry.id] = entryUpdates;
+      } catch (err) {
+        console.warn(`Could not fetch metadata for ${entry.id}:`, err);
+        failed.push(entry.id);
+      }
+    }
+
+    setFetchProgress(null);
+    const count = Object.keys(updates).length;
+    if (count > 0) updateEntries(updates);
+    setMessage(
+      `Filled missing fields of ${count} entr${count === 1 ? 'y' : 'ies'}.` +
+      (failed.length > 0 ? ` Could not fetch ${failed.join(', ')}.` : '')
+    );
+  }, [fetchableEntries, pattern, updateEntries]);
+
+  const handleDelete = useCallback(() => {
+    if (window.confirm(`Delete ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}?\n\nThis action cannot be undone.`)) {
+      deleteEntries(entries.map(entry => entry.id));
+      onClearSelection();
+    }
+  }, [entries, deleteEntries, onClearSelection]);
+
+  const fieldLabel = (name: string) => CSL_FIELD_METADATA[name]?.label || name;
+
+  return (
+    <div className="flex-grow flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Edit {entries.length} Entries</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Shift-click to select a range, Ctrl-click to add or remove single entries.
+            </p>
+          </div>
+          <button
+            onClick={onClearSelection}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Clear Selection
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-6 py-4 space-y-6">
+        {message && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">{message}</div>
+        )}
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Field</h3>
+          <div className="flex gap-2">
+            <select
+              value={field}
+              onChange={(e) => setField(e.target.value)}
+              className="w-48 px-2 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {fields.map(name => (
+                <option key={name} value={name}>{fieldLabel(name)}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="New value"
+              className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              onClick={() => applyUpdates(buildSetFieldUpdates(entries, field, value))}
+              disabled={!value.trim()}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Set
+            </button>
+            <button
+              onClick={() => applyUpdates(buildSetFieldUpdates(entries, field))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Clear
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Keywords</h3>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={keywordsToAdd}
+              onChange={(e) => setKeywordsToAdd(e.target.value)}
+              placeholder="Keywords to add, separated by commas"
+              className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              onClick={() => {
+                applyUpdates(buildKeywordUpdates(entries, splitKeywords(keywordsToAdd), []));
+                setKeywordsToAdd('');
+              }}
+              disabled={splitKeywords(keywordsToAdd).length === 0}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+          {keywordCounts.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {keywordCounts.map(([keyword, count]) => (
+                <span key={keyword} className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-gray-100 text-gray-800">
+                  {keyword} ({count})
+                  <button
+                    onClick={() => applyUpdates(buildKeywordUpdates(entries, [], [keyword]))}
+                    className="text-gray-400 hover:text-red-600"
+                    title={`Remove "${keyword}" from the selected entries`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Entry type</h3>
+          <div className="flex gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+              className="w-48 px-2 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {CSL_ENTRY_TYPES.map(item => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => applyUpdates(buildSetFieldUpdates(entries, 'type', type))}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Change Type
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Citation keys</h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleRegenerateKeys}
+              disabled={keyRenameCount === 0}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Regenerate Keys ({keyRenameCount})
+            </button>
+            <span className="text-sm text-gray-600">
+              Pattern <span className="font-mono">{pattern}</span>
+            </span>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Semantic Scholar</h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleFetchMetadata}
+              disabled={fetchableEntries.length === 0 || fetchProgress !== null}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {fetchProgress ? `Fetching ${fetchProgress.done + 1} of ${fetchProgress.total}...` : `Fetch Metadata (${fetchableEntries.length})`}
+            </button>
+            <span className="text-sm text-gray-600">
+              Fills empty fields of entries with a Semantic Scholar ID or DOI; existing values are kept.
+            </span>
+          </div>
+        </section>
+
+        <section className="pt-4 border-t border-gray-200">
+          <button
+            onClick={handleDelete}
+            className="px-3 py-2 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50"
+          >
+            Delete {entries.length} Entries
+          </button>
+        </section>
+      </div>
+    </div>
+  );
+}
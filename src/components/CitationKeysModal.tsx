@@ -0,0 +1,189 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { DEFAULT_KEY_PATTERN, KEY_PATTERN_FIELDS, parseKeyPattern, regenerateCitationKeys } from '../utils/citationKeyPattern';
+import { getEntriesInScope } from '../utils/cslUtils';
+
+interface CitationKeysModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CitationKeysModal({ isOpen, onClose }: CitationKeysModalProps) {
+  const { state } = useCitationData();
+  const { setSettings, renameEntries } = useCitationActions();
+  const [pattern, setPattern] = useState(DEFAULT_KEY_PATTERN);
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Start from the saved pattern each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setPattern(state.settings.citationKeyPattern || DEFAULT_KEY_PATTERN);
+    }
+  }, [isOpen, state.settings.citationKeyPattern]);
+
+  // Handle ESC key and click outside
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  const patternError = useMemo(() => {
+    try {
+      parseKeyPattern(pattern);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [pattern]);
+
+  // Selected entries are re-keyed when there are any, otherwise the filtered list
+  const hasSelection = state.selection.type === 'entry' && state.selection.items.length > 0;
+  const scopeEntries = useMemo(
+    () => (isOpen ? getEntriesInScope(state, hasSelection ? 'selected' : 'filtered') : []),
+    [isOpen, state, hasSelection]
+  );
+
+  const renames = useMemo(
+    () => (patternError ? {} : regenerateCitationKeys(scopeEntries, state.cite.data, pattern)),
+    [patternError, scopeEntries, state.cite.data, pattern]
+  );
+  const renameCount = Object.keys(renames).length;
+
+  const handleSavePattern = useCallback(() => {
+    if (patternError) return;
+    setSettings({ citationKeyPattern: pattern === DEFAULT_KEY_PATTERN ? undefined : pattern });
+    onClose();
+  }, [pattern, patternError, setSettings, onClose]);
+
+  const handleRegenerate = useCallback(() => {
+    if (patternError || renameCount === 0) return;
+    try {
+      renameEntries(renames);
+      setSettings({ citationKeyPattern: pattern === DEFAULT_KEY_PATTERN ? undefined : pattern });
+      onClose();
+    } catch (err) {
+      alert(`Could not regenerate keys: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [pattern, patternError, renames, renameCount, renameEntries, setSettings, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={modalRef}
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Citation Keys</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Key pattern</label>
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              className={`w-full px-3 py-2 font-mono border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                patternError ? 'border-red-300' : 'border-gray-300'
+              }`}
+            />
+            {patternError ? (
+              <p className="text-sm text-red-600 mt-1">{patternError}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                Fields: {KEY_PATTERN_FIELDS.map(field => `[${field}]`).join(' ')}.
+                Add <span className="font-mono">:N</span> for a count (<span className="font-mono">[auth:4]</span>,{' '}
+                <span className="font-mono">[shorttitle:2]</span>) and <span className="font-mono">:lower</span>,{' '}
+                <span className="font-mono">:upper</span> or <span className="font-mono">:capitalize</span> to change the case.
+                Keys already in use get a suffix a, b, c, ...
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">
+              New keys for {hasSelection ? 'selected' : 'filtered'} entries ({renameCount} of {scopeEntries.length} change)
+            </h3>
+            {renameCount > 0 ? (
+              <div className="border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+                <table className="w-full text-sm font-mono">
+                  <tbody>
+                    {Object.entries(renames).map(([oldId, newId]) => (
+                      <tr key={oldId} className="border-b border-gray-100">
+                        <td className="px-3 py-1 text-gray-500">{oldId}</td>
+                        <td className="px-3 py-1 text-gray-400">→</td>
+                        <td className="px-3 py-1 text-gray-900">{newId}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">All keys already match the pattern.</p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Crossref links to renamed entries are updated. Documents citing the old keys must be updated separately.
+            </p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSavePattern}
+              disabled={!!patternError}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Pattern
+            </button>
+            <button
+              onClick={handleRegenerate}
+              disabled={!!patternError || renameCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Regenerate Keys ({renameCount})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
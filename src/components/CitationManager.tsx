@@ -8,12 +8,27 @@ import { Header } from './Header';
 import { TabNavigation } from './TabNavigation';
 import { LiteratureView } from './LiteratureView';
 import { AuthorsView } from './AuthorsView';
+import { VenuesView } from './VenuesView';
 import { VariablesView } from './VariablesView';
 import { RecommendationsView } from './RecommendationsView';
+import { DuplicatesView } from './DuplicatesView';
+import { LintView } from './LintView';
 import { BibFileSelector } from './BibFileSelector';
 
 import { EntryCreationModal } from './EntryCreationModal';
 import { SemanticScholarImportModal } from './SemanticScholarImportModal';
+import { ImportReportModal } from './ImportReportModal';
+import { BibliographyModal } from './BibliographyModal';
+import { ExportProfilesModal } from './ExportProfilesModal';
+import { JournalAbbreviationsModal } from './JournalAbbreviationsModal';
+import { CitationKeysModal } from './CitationKeysModal';
+import { FindReplaceModal } from './FindReplaceModal';
+import { CitationScanModal } from './CitationScanModal';
+import { saveTextFile } from '../utils/fileSave';
+import { detectImportFormat, IMPORT_FILE_ACCEPT } from '../utils/importFormats';
+import { ExportScope, ImportReport } from '../types/citationTypes';
+import { BibTeXDialect } from '../utils/bibtexDialect';
+import { getEntriesInScope } from '../utils/cslUtils';
 
 
 interface BibFile {
@@ -27,8 +42,13 @@ export function CitationManager() {
   const { 
     loadFromCSLJSON,
     saveToCSLJSON,
+    exportToCSLJSON,
     importFromBibTeX, 
     exportToBibTeX, 
+    importFromRIS,
+    exportToRIS,
+    importFromEndNoteXML,
+    importFromZotero,
     addEntry, 
     updateEntry, 
     deleteEntry,
@@ -36,6 +56,7 @@ export function CitationManager() {
     updateVariable,
     deleteVariable,
     setCurrentTab,
+    setSettings,
     startEditingEntry
   } = useCitationActions();
   const { authors: allAuthors } = useAuthors();
@@ -46,6 +67,21 @@ export function CitationManager() {
 
   const [showCreateEntryModal, setShowCreateEntryModal] = useState(false);
   const [showSemanticScholarModal, setShowSemanticScholarModal] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [showBibliographyModal, setShowBibliographyModal] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope>('all');
+  const [showExportProfilesModal, setShowExportProfilesModal] = useState(false);
+  const [showJournalAbbreviationsModal, setShowJournalAbbreviationsModal] = useState(false);
+  const [showFindReplaceModal, setShowFindReplaceModal] = useState(false);
+  const [showCitationScanModal, setShowCitationScanModal] = useState(false);
+  const [showCitationKeysModal, setShowCitationKeysModal] = useState(false);
+
+  const exportScopeCounts = useMemo((): Record<ExportScope, number> => ({
+    all: state.cite.data.length,
+    filtered: getEntriesInScope(state, 'filtered').length,
+    selected: getEntriesInScope(state, 'selected').length,
+    cited: getEntriesInScope(state, 'cited').length
+  }), [state]);
 
   // Create refs for stable access to context functions (prevents callback recreation)
   const updateEntryRef = useRef(updateEntry);
@@ -89,6 +125,27 @@ export function CitationManager() {
     }
   }, [state.isLoaded]);
 
+  // Opens or imports a file in whichever format it is in
+  const loadFileContent = useCallback(async (content: string, filename: string) => {
+    switch (detectImportFormat(filename, content)) {
+      case 'csl-json':
+        await loadFromCSLJSON(content, filename);
+        break;
+      case 'ris':
+        await importFromRIS(content, filename);
+        break;
+      case 'endnote-xml':
+        setImportReport(await importFromEndNoteXML(content, filename));
+        break;
+      case 'zotero-rdf':
+      case 'zotero-json':
+        setImportReport(await importFromZotero(content, filename));
+        break;
+      default:
+        await importFromBibTeX(content, filename);
+    }
+  }, [loadFromCSLJSON, importFromBibTeX, importFromRIS, importFromEndNoteXML, importFromZotero]);
+
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -97,17 +154,7 @@ export function CitationManager() {
     reader.onload = async (e) => {
       const content = e.target?.result as string;
       try {
-        // Auto-detect file type
-        const isJsonFile = file.name.toLowerCase().endsWith('.json') || 
-                          (content.trim().startsWith('[') || content.trim().startsWith('{'));
-        
-        if (isJsonFile) {
-          // Load as CSL-JSON
-          await loadFromCSLJSON(content, file.name);
-        } else {
-          // Load as BibTeX (import)
-          await importFromBibTeX(content, file.name);
-        }
+        await loadFileContent(content, file.name);
         
         setShowFileSelector(false); // Close the selector after successful load
         setAvailableBibFiles([]);
@@ -119,7 +166,7 @@ export function CitationManager() {
       alert('Failed to read file.');
     };
     reader.readAsText(file);
-  }, [loadFromCSLJSON, importFromBibTeX]);
+  }, [loadFileContent]);
 
   const handleOpenFile = useCallback(() => {
     fileInputRef.current?.click();
@@ -130,84 +177,58 @@ export function CitationManager() {
     if (!state.isLoaded) return;
 
     const cslJsonString = saveToCSLJSON();
-    const suggestedName = state.filename?.replace(/\.(bib|json)$/, '.json') || 'bibliography.json';
+    await saveTextFile(cslJsonString, {
+      suggestedName: state.filename?.replace(/\.(bib|ris|json)$/, '.json') || 'bibliography.json',
+      description: 'Library File (CSL-JSON)',
+      mimeType: 'application/json',
+      extensions: ['.json'],
+    });
+  }, [state.isLoaded, state.filename, saveToCSLJSON]);
 
-    // Try to use the File System Access API
-    if ('showSaveFilePicker' in window) {
-      console.log('showSaveFilePicker', 'showSaveFilePicker' in window);
-      try {
-        const fileHandle = await (window as any).showSaveFilePicker({
-          suggestedName,
-          types: [{
-            description: 'CSL-JSON File',
-            accept: { 'application/json': ['.json'] },
-          }],
-        });
-        const writable = await fileHandle.createWritable();
-        await writable.write(cslJsonString);
-        await writable.close();
-        return;
-      } catch (err: any) {
-        if (err.name !== 'AbortError') {
-          console.error('File System Access API failed:', err);
-        } else {
-          return;
-        }
-      }
-    }
+  const handleExportToCSLJSON = useCallback(async (scope: ExportScope = exportScope) => {
+    if (!state.isLoaded) return;
 
-    // Fallback to download
-    const blob = new Blob([cslJsonString], { type: 'application/json;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = suggestedName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [state.isLoaded, state.filename, saveToCSLJSON]);
+    const cslJsonString = exportToCSLJSON(scope);
+    await saveTextFile(cslJsonString, {
+      suggestedName: state.filename?.replace(/\.(bib|ris|json)$/, '.json') || 'bibliography.json',
+      description: 'CSL-JSON File',
+      mimeType: 'application/json',
+      extensions: ['.json'],
+    });
+  }, [state.isLoaded, state.filename, exportToCSLJSON, exportScope]);
 
-  const handleExportToBibTeX = useCallback(async () => {
+  const handleExportToBibTeX = useCallback(async (dialect: BibTeXDialect, scope: ExportScope = exportScope) => {
     if (!state.isLoaded) return;
 
-    const bibtexString = exportToBibTeX();
-    const suggestedName = state.filename?.replace(/\.(json|bib)$/, '.bib') || 'bibliography.bib';
+    const bibtexString = exportToBibTeX(dialect, scope);
+    await saveTextFile(bibtexString, {
+      suggestedName: state.filename?.replace(/\.(json|ris|bib)$/, '.bib') || 'bibliography.bib',
+      description: dialect === 'biblatex' ? 'BibLaTeX File' : 'BibTeX File',
+      mimeType: 'application/x-bibtex',
+      extensions: ['.bib'],
+    });
+  }, [state.isLoaded, state.filename, exportToBibTeX, exportScope]);
 
-    // Try to use the File System Access API
-    if ('showSaveFilePicker' in window) {
-      try {
-        const fileHandle = await (window as any).showSaveFilePicker({
-          suggestedName,
-          types: [{
-            description: 'BibTeX File',
-            accept: { 'application/x-bibtex': ['.bib'] },
-          }],
-        });
-        const writable = await fileHandle.createWritable();
-        await writable.write(bibtexString);
-        await writable.close();
-        return;
-      } catch (err: any) {
-        if (err.name !== 'AbortError') {
-          console.error('File System Access API failed:', err);
-        } else {
-          return;
-        }
-      }
-    }
+  const handleExportToRIS = useCallback(async () => {
+    if (!state.isLoaded) return;
+
+    const risString = exportToRIS(exportScope);
+    await saveTextFile(risString, {
+      suggestedName: state.filename?.replace(/\.(json|bib|ris)$/, '.ris') || 'bibliography.ris',
+      description: 'RIS File',
+      mimeType: 'application/x-research-info-systems',
+      extensions: ['.ris'],
+    });
+  }, [state.isLoaded, state.filename, exportToRIS, exportScope]);
+
+
+  const handleToggleRoundTripMode = useCallback(() => {
+    setSettings({ roundTripMode: !state.settings.roundTripMode });
+  }, [setSettings, state.settings.roundTripMode]);
 
-    // Fallback to download
-    const blob = new Blob([bibtexString], { type: 'application/x-bibtex;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = suggestedName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [state.isLoaded, state.filename, exportToBibTeX]);
+  const handleToggleBibTeXEncoding = useCallback(() => {
+    setSettings({ bibtexEncoding: state.settings.bibtexEncoding === 'utf8' ? 'ascii' : 'utf8' });
+  }, [setSettings, state.settings.bibtexEncoding]);
 
   const handleCreateEntry = useCallback(() => {
     setShowCreateEntryModal(true);
@@ -294,23 +315,74 @@ export function CitationManager() {
 
   const handleBibFileSelect = useCallback(async (file: BibFile) => {
     try {
-      // Auto-detect file type or use the type from discovery
-      const isJsonFile = file.type === 'json' || file.name.toLowerCase().endsWith('.json');
-      
-      if (isJsonFile) {
-        // Load as CSL-JSON
-        await loadFromCSLJSON(file.content, file.name);
-      } else {
-        // Import as BibTeX
-        await importFromBibTeX(file.content, file.name);
-      }
+      await loadFileContent(file.content, file.name);
       
       setShowFileSelector(false);
       setAvailableBibFiles([]);
     } catch (error) {
       alert(`Error loading ${file.name}: ${error}`);
     }
-  }, [loadFromCSLJSON, importFromBibTeX]);
+  }, [loadFileContent]);
+
+  const handleCloseImportReport = useCallback(() => {
+    setImportReport(null);
+  }, []);
+
+  const handleFormatBibliography = useCallback(() => {
+    setShowBibliographyModal(true);
+  }, []);
+
+  const handleCloseBibliographyModal = useCallback(() => {
+    setShowBibliographyModal(false);
+  }, []);
+
+  const handleScanCitations = useCallback(() => {
+    setShowCitationScanModal(true);
+  }, []);
+
+  const handleCloseCitationScanModal = useCallback(() => {
+    setShowCitationScanModal(false);
+  }, []);
+
+  const handleExportCitedBibTeX = useCallback((dialect: BibTeXDialect) => {
+    handleExportToBibTeX(dialect, 'cited');
+  }, [handleExportToBibTeX]);
+
+  const handleExportCitedCSLJSON = useCallback(() => {
+    handleExportToCSLJSON('cited');
+  }, [handleExportToCSLJSON]);
+
+  const handleEditExportProfiles = useCallback(() => {
+    setShowExportProfilesModal(true);
+  }, []);
+
+  const handleCloseExportProfilesModal = useCallback(() => {
+    setShowExportProfilesModal(false);
+  }, []);
+
+  const handleEditJournalAbbreviations = useCallback(() => {
+    setShowJournalAbbreviationsModal(true);
+  }, []);
+
+  const handleCloseJournalAbbreviationsModal = useCallback(() => {
+    setShowJournalAbbreviationsModal(false);
+  }, []);
+
+  const handleEditCitationKeys = useCallback(() => {
+    setShowCitationKeysModal(true);
+  }, []);
+
+  const handleCloseCitationKeysModal = useCallback(() => {
+    setShowCitationKeysModal(false);
+  }, []);
+
+  const handleFindReplace = useCallback(() => {
+    setShowFindReplaceModal(true);
+  }, []);
+
+  const handleCloseFindReplaceModal = useCallback(() => {
+    setShowFindReplaceModal(false);
+  }, []);
 
   const handleBibFileSelectorCancel = useCallback(() => {
     setShowFileSelector(false);
@@ -335,7 +407,7 @@ export function CitationManager() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".bib,.json"
+        accept={IMPORT_FILE_ACCEPT}
         className="hidden"
         onChange={handleFileSelect}
       />
@@ -345,9 +417,27 @@ export function CitationManager() {
         isLoaded={state.isLoaded}
         onOpenFile={handleOpenFile}
         onSaveFile={handleSaveFile}
+        onExportToCSLJSON={handleExportToCSLJSON}
         onExportToBibTeX={handleExportToBibTeX}
+        onExportToRIS={handleExportToRIS}
+        onFormatBibliography={handleFormatBibliography}
+        onScanCitations={handleScanCitations}
+        exportScope={exportScope}
+        exportScopeCounts={exportScopeCounts}
+        onExportScopeChange={setExportScope}
+        roundTripMode={state.settings.roundTripMode}
+        canRoundTrip={Boolean(state.bibtexSource)}
+        onToggleRoundTripMode={handleToggleRoundTripMode}
+        bibtexEncoding={state.settings.bibtexEncoding || 'ascii'}
+        onToggleBibTeXEncoding={handleToggleBibTeXEncoding}
+        onEditExportProfiles={handleEditExportProfiles}
+        activeExportProfile={state.settings.activeExportProfile}
+        onEditJournalAbbreviations={handleEditJournalAbbreviations}
+        journalTitleForm={state.settings.journalTitleForm}
         onCreateEntry={handleCreateEntry}
         onImportFromSemanticScholar={handleImportFromSemanticScholar}
+        onEditCitationKeys={handleEditCitationKeys}
+        onFindReplace={handleFindReplace}
       />
       
       <TabNavigation
@@ -370,6 +460,12 @@ export function CitationManager() {
           onSelectEntry={handleSelectEntry}
         />
       )}
+
+      {state.view.currentTab === 'venues' && (
+        <VenuesView
+          onSelectEntry={handleSelectEntry}
+        />
+      )}
       
       {state.view.currentTab === 'variables' && (
         <VariablesView
@@ -386,6 +482,18 @@ export function CitationManager() {
         />
       )}
 
+      {state.view.currentTab === 'duplicates' && (
+        <DuplicatesView
+          onSelectEntry={handleSelectEntry}
+        />
+      )}
+
+      {state.view.currentTab === 'lint' && (
+        <LintView
+          onSelectEntry={handleSelectEntry}
+        />
+      )}
+
       {showFileSelector && (
         <BibFileSelector
           files={availableBibFiles}
@@ -409,6 +517,45 @@ export function CitationManager() {
         onClose={handleCloseSemanticScholarModal}
         onImport={handleImportEntry}
         existingCitationKeys={existingCitationKeys}
+        keyPattern={state.settings.citationKeyPattern}
+      />
+      
+      <ImportReportModal
+        report={importReport}
+        onClose={handleCloseImportReport}
+      />
+
+      <BibliographyModal
+        isOpen={showBibliographyModal}
+        onClose={handleCloseBibliographyModal}
+        defaultScope={exportScope}
+      />
+
+      <ExportProfilesModal
+        isOpen={showExportProfilesModal}
+        onClose={handleCloseExportProfilesModal}
+      />
+
+      <JournalAbbreviationsModal
+        isOpen={showJournalAbbreviationsModal}
+        onClose={handleCloseJournalAbbreviationsModal}
+      />
+
+      <CitationScanModal
+        isOpen={showCitationScanModal}
+        onClose={handleCloseCitationScanModal}
+        onExportCitedBibTeX={handleExportCitedBibTeX}
+        onExportCitedCSLJSON={handleExportCitedCSLJSON}
+      />
+
+      <CitationKeysModal
+        isOpen={showCitationKeysModal}
+        onClose={handleCloseCitationKeysModal}
+      />
+
+      <FindReplaceModal
+        isOpen={showFindReplaceModal}
+        onClose={handleCloseFindReplaceModal}
       />
     </div>
   );
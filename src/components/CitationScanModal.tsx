@@ -0,0 +1,247 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import {
+  analyzeCitationScan,
+  CITATION_SCAN_FILE_ACCEPT,
+  getEntryCitationKey,
+  scanDocumentCitations,
+  suggestMissingKeys
+} from '../utils/citationScan';
+import { BibTeXDialect } from '../utils/bibtexDialect';
+
+interface CitationScanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExportCitedBibTeX: (dialect: BibTeXDialect) => void;
+  onExportCitedCSLJSON: () => void;
+}
+
+function KeyList({ title, keys, className }: { title: string; keys: string[]; className: string }) {
+  if (keys.length === 0) return null;
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title} ({keys.length})</h3>
+      <div className="flex flex-wrap gap-1">
+        {keys.map(key => (
+          <span key={key} className={`font-mono text-xs px-1.5 py-0.5 rounded ${className}`}>{key}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CitationScanModal({ isOpen, onClose, onExportCitedBibTeX, onExportCitedCSLJSON }: CitationScanModalProps) {
+  const { state } = useCitationData();
+  const { setCitationScan } = useCitationActions();
+  const [error, setError] = useState<string | null>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const scan = state.citationScan;
+
+  // Handle ESC key and click outside
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  const report = useMemo(
+    () => (scan ? analyzeCitationScan(state.cite.data, scan) : null),
+    [state.cite.data, scan]
+  );
+
+  const suggestions = useMemo(
+    () => (report ? suggestMissingKeys(report.missing, state.cite.data) : {}),
+    [report, state.cite.data]
+  );
+
+  const handleFilesSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const contents = await Promise.all(files.map(async file => ({ name: file.name, content: await file.text() })));
+      setCitationScan(scanDocumentCitations(contents));
+      setError(null);
+    } catch (err) {
+      setError(`Could not read the files: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [setCitationScan]);
+
+  const handleClear = useCallback(() => {
+    setCitationScan(undefined);
+  }, [setCitationScan]);
+
+  if (!isOpen) return null;
+
+  const neededCount = report ? report.cited.length + report.parents.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={modalRef}
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Citations in Document</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Load .aux, .tex or Markdown files
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={CITATION_SCAN_FILE_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            {scan && (
+              <span className="text-sm text-gray-600 truncate">{scan.files.join(', ')}</span>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {!scan && (
+            <p className="text-gray-500">
+              Load the .aux file of a compiled LaTeX document, its .tex sources or Pandoc Markdown
+              files (.md, .qmd) to see which entries they cite.
+            </p>
+          )}
+
+          {scan && report && (
+            <>
+              <p className="text-gray-700">
+                The document cites {scan.citesAll ? 'all entries (\\nocite{*})' : `${scan.keys.length} keys`}.
+                {' '}{neededCount} of {state.cite.data.length} library entries are needed.
+              </p>
+              {report.missing.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">
+                    Missing from the library ({report.missing.length})
+                  </h3>
+                  <ul className="space-y-1">
+                    {report.missing.map(key => (
+                      <li key={key} className="text-sm">
+                        <span className="font-mono text-xs px-1.5 py-0.5 rounded bg-red-100 text-red-800">{key}</span>
+                        {suggestions[key]?.length > 0 && (
+                          <span className="text-gray-600">
+                            {' '}did you mean{' '}
+                            {suggestions[key].map((suggestion, index) => (
+                              <span key={suggestion}>
+                                {index > 0 && ', '}
+                                <span className="font-mono text-xs">{suggestion}</span>
+                              </span>
+                            ))}?
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <KeyList
+                title="Cited"
+                keys={report.cited.map(getEntryCitationKey)}
+                className="bg-green-100 text-green-800"
+              />
+              <KeyList
+                title="Crossref parents of cited entries"
+                keys={report.parents.map(getEntryCitationKey)}
+                className="bg-blue-100 text-blue-800"
+              />
+              <KeyList
+                title="Unused"
+                keys={report.unused.map(getEntryCitationKey)}
+                className="bg-gray-100 text-gray-700"
+              />
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <div className="flex justify-between">
+            <button
+              onClick={handleClear}
+              disabled={!scan}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Close
+              </button>
+              <button
+                onClick={onExportCitedCSLJSON}
+                disabled={neededCount === 0}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Export Cited (CSL-JSON)
+              </button>
+              <button
+                onClick={() => onExportCitedBibTeX('biblatex')}
+                disabled={neededCount === 0}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Export Cited (BibLaTeX)
+              </button>
+              <button
+                onClick={() => onExportCitedBibTeX('bibtex')}
+                disabled={neededCount === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Export Cited (BibTeX)
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { findDuplicates, DuplicateCandidate, DUPLICATE_REASON_LABELS } from '../utils/duplicateFinder';
+import { getEntryCitationKey } from '../utils/citationScan';
+import { formatAuthors, formatDateParts, getTitle, getYear } from '../utils/cslUtils';
+
+interface DuplicatesViewProps {
+  onSelectEntry: (id: string) => void;
+}
+
+type Side = 0 | 1;
+
+// Choices made for one pair; another pair starts from the defaults again
+interface MergeChoices {
+  pairId: string | null;
+  keepSide: Side;
+  fieldChoices: Record<string, Side>;
+}
+
+const NAME_FIELDS = ['author', 'editor', 'translator', 'container-author', 'collection-editor', 'director'];
+const DATE_FIELDS = ['issued', 'accessed', 'event-date', 'original-date', 'submitted'];
+
+function getPairId(candidate: DuplicateCandidate): string {
+  return candidate.entries.map(entry => entry.id).sort().join('\u0000');
+}
+
+// Fields shown in the merge view; the key and extension data are handled separately
+function getMergeFields(a: any, b: any): string[] {
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(field => field !== 'id' && field !== 'citation-key' && field !== 'custom' && !field.startsWith('_'))
+    .sort();
+}
+
+function formatFieldValue(field: string, value: any, variables: Record<string, string>): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (NAME_FIELDS.includes(field) && Array.isArray(value)) return formatAuthors(value, variables);
+  if (DATE_FIELDS.includes(field)) return formatDateParts(value);
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function DuplicatesView({ onSelectEntry }: DuplicatesViewProps) {
+  const { state } = useCitationData();
+  const { mergeEntries } = useCitationActions();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selectedPairId, setSelectedPairId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<MergeChoices>({ pairId: null, keepSide: 0, fieldChoices: {} });
+
+  const candidates = useMemo(
+    () => findDuplicates(state.cite.data).filter(candidate => !dismissed.has(getPairId(candidate))),
+    [state.cite.data, dismissed]
+  );
+
+  const selected = candidates.find(candidate => getPairId(candidate) === selectedPairId) || candidates[0] || null;
+  const currentPairId = selected ? getPairId(selected) : null;
+
+  const fields = useMemo(
+    () => (selected ? getMergeFields(selected.entries[0], selected.entries[1]) : []),
+    [selected]
+  );
+
+  // Start every pair with the first entry kept and its values preferred,
+  // falling back to the other entry for fields the first one lacks
+  const defaultFieldChoices = useMemo(() => {
+    const defaults: Record<string, Side> = {};
+    if (!selected) return defaults;
+    const [a] = selected.entries;
+    fields.forEach(field => {
+      defaults[field] = a[field] !== undefined && a[field] !== '' ? 0 : 1;
+    });
+    return defaults;
+  }, [selected, fields]);
+
+  const hasChoices = choices.pairId === currentPairId;
+  const keepSide = hasChoices ? choices.keepSide : 0;
+  const fieldChoices = hasChoices ? choices.fieldChoices : defaultFieldChoices;
+
+  const handleKeepSide = useCallback((side: Side) => {
+    setChoices({ pairId: currentPairId, keepSide: side, fieldChoices });
+  }, [currentPairId, fieldChoices]);
+
+  const handleFieldChoice = useCallback((field: string, side: Side) => {
+    setChoices({ pairId: currentPairId, keepSide, fieldChoices: { ...fieldChoices, [field]: side } });
+  }, [currentPairId, keepSide, fieldChoices]);
+
+  const handleDismiss = useCallback((pairId: string) => {
+    setDismissed(prev => new Set(prev).add(pairId));
+  }, []);
+
+  const handleMerge = useCallback(() => {
+    if (!selected) return;
+    const keep = selected.entries[keepSide];
+    const remove = selected.entries[keepSide === 0 ? 1 : 0];
+
+    const merged: Record<string, any> = {};
+    fields.forEach(field => {
+      merged[field] = selected.entries[fieldChoices[field] ?? keepSide][field];
+    });
+
+    try {
+      mergeEntries(keep.id, remove.id, merged);
+      setSelectedPairId(null);
+    } catch (error) {
+      alert(`Could not merge entries: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [selected, keepSide, fields, fieldChoices, mergeEntries]);
+
+  if (candidates.length === 0) {
+    return (
+      <div className="flex-grow flex items-center justify-center text-gray-500">
+        No duplicate entries found
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-grow overflow-hidden">
+      <div className="flex-none w-96 border-r border-gray-200 overflow-y-auto bg-white">
+        {candidates.map(candidate => {
+          const pairId = getPairId(candidate);
+          const [a, b] = candidate.entries;
+          return (
+            <div
+              key={pairId}
+              className={`px-4 py-3 cursor-pointer border-b border-gray-200 transition-colors ${
+                pairId === currentPairId ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+              onClick={() => setSelectedPairId(pairId)}
+            >
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-sm font-medium text-gray-900">{Math.round(candidate.score * 100)}%</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDismiss(pairId);
+                  }}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                >
+                  Not a duplicate
+                </button>
+              </div>
+              <div className="text-sm text-gray-700 truncate">{getTitle(a) || getEntryCitationKey(a)}</div>
+              <div className="text-xs text-gray-500 font-mono truncate">
+                {getEntryCitationKey(a)} · {getEntryCitationKey(b)}
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {candidate.reasons.map(reason => (
+                  <span key={reason} className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="flex-grow flex flex-col overflow-hidden">
+          <div className="flex-grow overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700 w-40">Field</th>
+                  {selected.entries.map((entry, side) => (
+                    <th key={entry.id} className="px-4 py-2 text-left font-medium text-gray-700">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="keep"
+                          checked={keepSide === side}
+                          onChange={() => handleKeepSide(side as Side)}
+                        />
+                        <span>Keep <span className="font-mono">{getEntryCitationKey(entry)}</span></span>
+                        {getYear(entry) && <span className="text-gray-500 font-normal">({getYear(entry)})</span>}
+                      </label>
+                      <button
+                        onClick={() => onSelectEntry(entry.id)}
+                        className="text-xs text-blue-600 hover:text-blue-800 font-normal"
+                      >
+                        Open
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => {
+                  const values = selected.entries.map(entry => entry[field]);
+                  const same = isSameValue(values[0], values[1]);
+                  return (
+                    <tr key={field} className={`border-b border-gray-100 ${same ? 'text-gray-500' : ''}`}>
+                      <td className="px-4 py-2 font-mono text-xs align-top">{field}</td>
+                      {values.map((value, side) => (
+                        <td key={side} className="px-4 py-2 align-top">
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`field-${field}`}
+                              className="mt-1"
+                              disabled={same}
+                              checked={same ? side === 0 : fieldChoices[field] === side}
+                              onChange={() => handleFieldChoice(field, side as Side)}
+                            />
+                            <span className="break-words">
+                              {formatFieldValue(field, value, state.variables) || <em className="text-gray-400">empty</em>}
+                            </span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex-none px-4 py-3 border-t border-gray-200 bg-gray-50 flex justify-between items-center">
+            <span className="text-sm text-gray-600">
+              <span className="font-mono">{getEntryCitationKey(selected.entries[keepSide === 0 ? 1 : 0])}</span>
+              {' '}will be removed and kept as an alias of{' '}
+              <span className="font-mono">{getEntryCitationKey(selected.entries[keepSide])}</span>
+            </span>
+            <button
+              onClick={handleMerge}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { useCitationData } from '../hooks/useCitation';
 interface EntryCardProps {
   entry: any; // CSL-JSON entry
   isActive: boolean;
-  onClick: () => void;
+  onClick: (event: React.MouseEvent) => void;
+  isSelected?: boolean;
+  onToggleSelect?: (event: React.MouseEvent) => void; // shows a checkbox for multi-selection
 }
 
-export function EntryCard({ entry, isActive, onClick }: EntryCardProps) {
+export function EntryCard({ entry, isActive, onClick, isSelected = false, onToggleSelect }: EntryCardProps) {
   const { state } = useCitationData();
   const title = getTitle(entry) || 'No Title';
   const author = entry.author && entry.author.length > 0 
@@ -19,13 +21,28 @@ export function EntryCard({ entry, isActive, onClick }: EntryCardProps) {
     <div 
       className={`bg-white border border-gray-200 rounded-md p-4 mb-4 cursor-pointer transition-all duration-200 hover:border-blue-600 hover:shadow-md ${
         isActive ? 'border-l-4 border-l-blue-600' : ''
-      }`}
+      } ${isSelected ? 'bg-blue-50 border-blue-300' : ''} ${onToggleSelect ? 'flex gap-3 select-none' : ''}`}
       onClick={onClick}
     >
-      <div className="font-bold text-lg mb-2">{title}</div>
-      <div className="text-sm text-gray-600">{author}</div>
-      <div className="text-sm text-gray-600 mt-2 italic">
-        <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded text-sm">{entry.id}</span> – {year} – <em>@{entry.type}</em>
+      {onToggleSelect && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => {}}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSelect(e);
+          }}
+          className="flex-none mt-1.5 cursor-pointer"
+          aria-label={`Select ${entry.id}`}
+        />
+      )}
+      <div className="min-w-0">
+        <div className="font-bold text-lg mb-2">{title}</div>
+        <div className="text-sm text-gray-600">{author}</div>
+        <div className="text-sm text-gray-600 mt-2 italic">
+          <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded text-sm">{entry.id}</span> – {year} – <em>@{entry.type}</em>
+        </div>
       </div>
     </div>
   );
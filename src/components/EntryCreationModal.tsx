@@ -1,7 +1,10 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { CSLEntry, CSLAuthor, CSLDate, CSL_FIELD_METADATA, CSL_ENTRY_TYPES } from '../types/cslFieldMetadata';
+import { CSLEntry, CSLAuthor, CSLDate, CSL_FIELD_METADATA, CSL_ENTRY_TYPES, isFieldRequired } from '../types/cslFieldMetadata';
 import { AuthorInputField } from './ui/AuthorInputField';
 import { getYear, createNewEntry } from '../utils/cslUtils';
+import { validateCSLEntry } from '../schemas/cslSchemas';
+import { useCitationData } from '../hooks/useCitation';
+import { generateCitationKey } from '../utils/citationKeyPattern';
 
 interface EntryCreationModalProps {
   isOpen: boolean;
@@ -10,6 +13,7 @@ interface EntryCreationModalProps {
 }
 
 export function EntryCreationModal({ isOpen, onClose, onCreateEntry }: EntryCreationModalProps) {
+  const { state } = useCitationData();
   const [entryData, setEntryData] = useState<CSLEntry>(() => createNewEntry('', 'article-journal'));
   const [errors, setErrors] = useState<Record<string, string[]>>({});
   const modalRef = useRef<HTMLDivElement>(null);
@@ -78,20 +82,15 @@ export function EntryCreationModal({ isOpen, onClose, onCreateEntry }: EntryCrea
     }));
   }, []);
 
+  // Validates against the schema of the selected entry type. New entries
+  // start complete, so missing required fields block creating them too.
   const validateForm = (): boolean => {
     const newErrors: Record<string, string[]> = {};
-    
-    // Validate required ID
-    if (!entryData.id.trim()) {
-      newErrors.id = ['Citation ID is required'];
-    } else if (!/^[a-zA-Z][a-zA-Z0-9_-]*$/.test(entryData.id)) {
-      newErrors.id = ['Citation ID must start with a letter and contain only letters, numbers, hyphens, and underscores'];
-    }
-    
-    // Validate title
-    if (!entryData.title?.trim()) {
-      newErrors.title = ['Title is required'];
-    }
+    const existingIds = state.cite.data.map((entry: CSLEntry) => entry.id);
+    const { errors: schemaErrors, warnings } = validateCSLEntry({ ...entryData, id: entryData.id.trim() }, existingIds);
+    [...schemaErrors, ...warnings].forEach(error => {
+      newErrors[error.field] = [...(newErrors[error.field] || []), error.message];
+    });
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -133,37 +132,13 @@ export function EntryCreationModal({ isOpen, onClose, onCreateEntry }: EntryCrea
   }, [entryData, onCreateEntry, onClose]);
 
   const generateIdFromMetadata = useCallback(() => {
-    const title = entryData.title?.trim();
-    const authors = entryData.author || [];
-    const year = getYear(entryData) || new Date().getFullYear().toString();
-    
-    let id = '';
-    
-    // Use first author's last name
-    if (authors.length > 0 && authors[0].family) {
-      id += authors[0].family.toLowerCase().replace(/[^a-z]/g, '');
-    } else if (title) {
-      // Use first word of title if no author
-      const firstWord = title.split(/\s+/)[0].toLowerCase().replace(/[^a-z]/g, '');
-      id += firstWord;
-    } else {
-      id = 'entry';
-    }
-    
-    // Add year
-    id += year;
-    
-    // Ensure it starts with a letter
-    if (!/^[a-zA-Z]/.test(id)) {
-      id = 'entry' + id;
-    }
-    
-    handleFieldChange('id', id);
-  }, [entryData, handleFieldChange]);
+    const usedKeys = new Set<string>(state.cite.data.map((entry: CSLEntry) => entry.id));
+    handleFieldChange('id', generateCitationKey(entryData, usedKeys, state.settings.citationKeyPattern));
+  }, [entryData, state.cite.data, state.settings.citationKeyPattern, handleFieldChange]);
 
   const renderField = (fieldName: keyof CSLEntry) => {
-    const metadata = CSL_FIELD_METADATA[fieldName];
-    if (!metadata) return null;
+    if (!CSL_FIELD_METADATA[fieldName]) return null;
+    const metadata = { ...CSL_FIELD_METADATA[fieldName], required: isFieldRequired(entryData.type, String(fieldName)) };
 
     const value = entryData[fieldName];
     const fieldErrors = errors[fieldName] || [];
@@ -1,25 +1,41 @@
-import { useState, useCallback } from 'react';
-import { CSLEntry, CSLAuthor, CSLDate, CSL_FIELD_METADATA, CSL_ENTRY_TYPES } from '../types/cslFieldMetadata';
+import { useState, useCallback, useMemo } from 'react';
+import { CSLEntry, CSLAuthor, CSLDate, CSL_FIELD_METADATA, CSL_ENTRY_TYPES, isFieldRequired } from '../types/cslFieldMetadata';
+import { validateCSLEntry } from '../schemas/cslSchemas';
 import { AuthorInputField } from './ui/AuthorInputField';
-import { formatAuthors, getYear } from '../utils/cslUtils';
+import { TitleInputField } from './ui/TitleInputField';
+import { formatAuthors, formatDateParts, getYear, parseDateString } from '../utils/cslUtils';
 import { CitationsReferencesModal } from './CitationsReferencesModal';
+import { CopyCitationMenu } from './ui/CopyCitationMenu';
 import { getSemanticScholarIdFromEntry } from '../utils/semanticScholarConverter';
+import { nocaseToBraces } from '../utils/titleProtection';
+
+// Groups validation messages by the field they belong to
+function groupByField(issues: Array<{ field: string; message: string }>): Record<string, string[]> {
+  const byField: Record<string, string[]> = {};
+  issues.forEach(issue => {
+    byField[issue.field] = [...(byField[issue.field] || []), issue.message];
+  });
+  return byField;
+}
 
 interface EntryEditorProps {
   entry: CSLEntry;
   stringVariables: Record<string, string>;
+  existingIds: string[];
   onUpdate: (id: string, updates: Partial<CSLEntry>) => void;
   onDelete: (id: string) => void;
   onClose?: () => void;
 }
 
-export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate, onDelete, onClose }: EntryEditorProps) {
+export function EntryEditor({ entry, stringVariables, existingIds, onUpdate, onDelete, onClose }: EntryEditorProps) {
   const [isRawMode, setIsRawMode] = useState(false);
   const [editedEntry, setEditedEntry] = useState<CSLEntry>(() => ({ ...entry }));
   const [errors, setErrors] = useState<Record<string, string[]>>({});
   const [showCitationsModal, setShowCitationsModal] = useState(false);
   const [showReferencesModal, setShowReferencesModal] = useState(false);
   const [showRecommendationsModal, setShowRecommendationsModal] = useState(false);
+  const [accessedText, setAccessedText] = useState(() => formatDateParts(entry.accessed));
+  const [saveAttempted, setSaveAttempted] = useState(false);
 
   // No manual state management needed - the key prop forces fresh component mount
 
@@ -30,6 +46,14 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
     }));
   }, []);
 
+  // Fields written by the BibTeX/BibLaTeX export, kept in entry.custom
+  const handleCustomFieldChange = useCallback((fieldName: string, value: string) => {
+    setEditedEntry((prev: CSLEntry) => ({
+      ...prev,
+      custom: { ...(prev.custom as Record<string, unknown>), [fieldName]: value || undefined }
+    }));
+  }, []);
+
   const handleValidation = useCallback((fieldName: string, fieldErrors: string[]) => {
     setErrors(prev => ({
       ...prev,
@@ -37,19 +61,24 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
     }));
   }, []);
 
+  // Malformed values block saving and are shown once saving was attempted.
+  // Missing required fields are only warnings, so incomplete entries stay editable.
+  const { schemaErrors, schemaWarnings } = useMemo(() => {
+    const result = validateCSLEntry(editedEntry, existingIds, entry.id);
+    return { schemaErrors: groupByField(result.errors), schemaWarnings: groupByField(result.warnings) };
+  }, [editedEntry, existingIds, entry.id]);
+
   console.log("EntryEditor", entry);
 
   const handleSave = useCallback(() => {
     console.log('handleSave', editedEntry);
-    // Simple validation - check for required fields
-    const hasErrors = Object.values(errors).some(errs => errs.length > 0);
+    setSaveAttempted(true);
+    const hasErrors = Object.values(errors).some(errs => errs.length > 0) || Object.keys(schemaErrors).length > 0;
     if (hasErrors) {
-      alert('Please fix validation errors before saving.');
-      return;
-    }
-
-    if (!editedEntry.id.trim()) {
-      alert('Citation ID is required.');
+      const messages = Object.entries(schemaErrors).map(([field, messages]) => (
+        `${CSL_FIELD_METADATA[field]?.label || field}: ${messages.join(', ')}`
+      ));
+      alert(['Please fix validation errors before saving.', ...messages].join('\n'));
       return;
     }
 
@@ -69,13 +98,17 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
       'publisher-place': editedEntry['publisher-place'],
       DOI: editedEntry.DOI,
       note: editedEntry.note,
-      URL: editedEntry.URL
+      URL: editedEntry.URL,
+      accessed: editedEntry.accessed,
+      version: editedEntry.version,
+      custom: editedEntry.custom
     };
 
     // Preserve any custom fields that aren't standard CSL fields
     const standardFields = new Set([
       'id', 'type', 'title', 'author', 'editor', 'issued', 'container-title',
       'volume', 'issue', 'page', 'publisher', 'publisher-place', 'DOI', 'note', 'URL',
+      'accessed', 'version',
       'custom' // Preserve custom fields like S2ID and CORPUSID
     ]);
     
@@ -96,7 +129,7 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
     });
 
     onUpdate(entry.id, updates);
-  }, [editedEntry, errors, entry.id, onUpdate]);
+  }, [editedEntry, errors, schemaErrors, entry.id, onUpdate]);
 
   const handleDelete = useCallback(() => {
     if (window.confirm(`Are you sure you want to delete entry "${entry.id}"?`)) {
@@ -110,22 +143,46 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
 
 
   const renderField = (fieldName: keyof CSLEntry) => {
-    const metadata = CSL_FIELD_METADATA[fieldName];
-    if (!metadata) return null;
+    if (!CSL_FIELD_METADATA[fieldName]) return null;
+    const metadata = { ...CSL_FIELD_METADATA[fieldName], required: isFieldRequired(editedEntry.type, String(fieldName)) };
 
     const value = editedEntry[fieldName];
-    const fieldErrors = errors[fieldName] || [];
+    const fieldErrors = [...(errors[fieldName] || []), ...(saveAttempted ? schemaErrors[fieldName] || [] : [])];
+    const fieldWarnings = schemaWarnings[fieldName] || [];
+    const warningMessages = fieldWarnings.length > 0 && (
+      <div className="text-amber-600 text-xs mt-1">
+        {fieldWarnings.map((warning, i) => (
+          <div key={i}>{warning}</div>
+        ))}
+      </div>
+    );
 
     if (fieldName === 'author' || fieldName === 'editor') {
       return (
-        <AuthorInputField
-          key={fieldName}
-          value={(value as CSLAuthor[]) || []}
-          onChange={(newValue: CSLAuthor[]) => handleFieldChange(fieldName, newValue)}
-          metadata={metadata as any} // TODO: Update AuthorInputField to accept CSLFieldMetadata
-          errors={fieldErrors}
-          onValidate={(field: string, errs: string[]) => handleValidation(field, errs)}
-        />
+        <div key={fieldName}>
+          <AuthorInputField
+            value={(value as CSLAuthor[]) || []}
+            onChange={(newValue: CSLAuthor[]) => handleFieldChange(fieldName, newValue)}
+            metadata={metadata as any} // TODO: Update AuthorInputField to accept CSLFieldMetadata
+            errors={fieldErrors}
+            onValidate={(field: string, errs: string[]) => handleValidation(field, errs)}
+          />
+          {warningMessages}
+        </div>
+      );
+    }
+
+    if (fieldName === 'title') {
+      return (
+        <div key={fieldName}>
+          <TitleInputField
+            value={(value as string) || ''}
+            onChange={(newValue: string) => handleFieldChange(fieldName, newValue)}
+            metadata={metadata}
+            errors={fieldErrors}
+          />
+          {warningMessages}
+        </div>
       );
     }
 
@@ -156,6 +213,7 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
               ))}
             </div>
           )}
+          {warningMessages}
         </div>
       );
     }
@@ -195,6 +253,31 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
               ))}
             </div>
           )}
+          {warningMessages}
+        </div>
+      );
+    }
+
+    if (fieldName === 'accessed') {
+      // Full date, edited as text so partial input isn't reformatted while typing
+      return (
+        <div key={fieldName} className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {metadata.label}
+          </label>
+          <input
+            type="text"
+            value={accessedText}
+            onChange={(e) => {
+              setAccessedText(e.target.value);
+              handleFieldChange(fieldName, e.target.value.trim() ? parseDateString(e.target.value) : undefined);
+            }}
+            placeholder={metadata.placeholder}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {metadata.helpText && (
+            <p className="text-xs text-gray-500 mt-1">{metadata.helpText}</p>
+          )}
         </div>
       );
     }
@@ -238,6 +321,11 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
           } ${metadata.type === 'textarea' ? 'resize-vertical min-h-[100px]' : ''}`}
           rows={metadata.type === 'textarea' ? 4 : undefined}
         />
+        {typeof value === 'string' && stringVariables[value] && (
+          <p className="text-xs text-blue-600 mt-1">
+            References @STRING variable <span className="font-mono">{value}</span>: {stringVariables[value]}
+          </p>
+        )}
         {metadata.helpText && (
           <p className="text-xs text-gray-500 mt-1">{metadata.helpText}</p>
         )}
@@ -248,6 +336,7 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
             ))}
           </div>
         )}
+        {warningMessages}
       </div>
     );
   };
@@ -259,7 +348,7 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
     const authors = formatAuthors(editedEntry.author || []);
     
     return `@${editedEntry.type}{${editedEntry.id},
-  title = {${editedEntry.title || ''}},
+  title = {${nocaseToBraces(editedEntry.title || '')}},
   author = {${authors}},
   year = {${year}},
   journal = {${containerTitle}},
@@ -330,6 +419,7 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
                 </>
               );
             })()}
+            <CopyCitationMenu entries={[entry]} />
             <button
               onClick={() => setIsRawMode(!isRawMode)}
               className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
@@ -402,6 +492,43 @@ export function EntryEditor({ entry, stringVariables: _stringVariables, onUpdate
             {renderField('DOI')}
             {renderField('note')}
             {renderField('URL')}
+            {renderField('accessed')}
+            {renderField('version')}
+            
+            {/* E-print fields (eprint/eprinttype/eprintclass, archivePrefix/primaryClass in BibTeX) */}
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              {[
+                { name: 'eprint', label: 'E-print ID', placeholder: '2101.00001' },
+                { name: 'eprinttype', label: 'E-print Type', placeholder: 'arXiv' },
+                { name: 'eprintclass', label: 'E-print Class', placeholder: 'cs.CL' }
+              ].map(field => (
+                <div key={field.name}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+                  <input
+                    type="text"
+                    value={String((editedEntry.custom as any)?.[field.name] || '')}
+                    onChange={(e) => handleCustomFieldChange(field.name, e.target.value)}
+                    placeholder={field.placeholder}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Alternative Keys (ids)
+              </label>
+              <input
+                type="text"
+                value={String((editedEntry.custom as any)?.ids || '')}
+                onChange={(e) => handleCustomFieldChange('ids', e.target.value)}
+                placeholder="oldkey1, oldkey2"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Entry aliases, only written in BibLaTeX exports
+              </p>
+            </div>
             
             {/* Custom fields */}
             <div className="mb-4">
@@ -0,0 +1,396 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { BibTeXExportProfile } from '../types/citationTypes';
+import { applyExportProfile, createExportProfile } from '../utils/bibtexProfile';
+import { formatEntriesAsBibTeX } from '../utils/bibtexWriter';
+
+interface ExportProfilesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const INDENT_OPTIONS = [
+  { value: '\t', label: 'Tab' },
+  { value: '  ', label: '2 spaces' },
+  { value: '    ', label: '4 spaces' }
+];
+
+// Field lists are edited as comma separated text
+function parseFieldList(text: string): string[] {
+  return text.split(/[\s,]+/).map(field => field.trim().toLowerCase()).filter(field => field);
+}
+
+export function ExportProfilesModal({ isOpen, onClose }: ExportProfilesModalProps) {
+  const { state } = useCitationData();
+  const { setSettings } = useCitationActions();
+
+  const [profiles, setProfiles] = useState<BibTeXExportProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<string | undefined>(undefined);
+  const [editedIndex, setEditedIndex] = useState(0);
+  const [fieldOrderText, setFieldOrderText] = useState('');
+  const [filterFieldsText, setFilterFieldsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  const editedProfile = profiles[editedIndex] as BibTeXExportProfile | undefined;
+
+  // Switches to another profile; the text inputs are only filled in here so
+  // typing a trailing comma is not undone by the parsed list
+  const editProfile = useCallback((profile: BibTeXExportProfile | undefined, index: number) => {
+    setEditedIndex(index);
+    setFieldOrderText(profile?.fieldOrder.join(', ') ?? '');
+    setFilterFieldsText(profile?.filterFields.join(', ') ?? '');
+  }, []);
+
+  // Start from the saved profiles each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setProfiles(state.settings.exportProfiles);
+      setActiveProfile(state.settings.activeExportProfile);
+      editProfile(state.settings.exportProfiles[0], 0);
+      setError(null);
+    }
+  }, [isOpen, state.settings.exportProfiles, state.settings.activeExportProfile, editProfile]);
+
+  // Handle ESC key and click outside
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  const updateProfile = useCallback((updates: Partial<BibTeXExportProfile>) => {
+    if (!editedProfile) return;
+    // Keep the active profile pointing at a renamed profile
+    if (updates.name !== undefined && activeProfile === editedProfile.name) {
+      setActiveProfile(updates.name);
+    }
+    setProfiles(prev => prev.map((profile, index) => (index === editedIndex ? { ...profile, ...updates } : profile)));
+  }, [editedProfile, editedIndex, activeProfile]);
+
+  const handleAddProfile = useCallback(() => {
+    const names = new Set(profiles.map(profile => profile.name));
+    let name = 'New profile';
+    for (let i = 2; names.has(name); i++) {
+      name = `New profile ${i}`;
+    }
+    const profile = createExportProfile(name);
+    setProfiles(prev => [...prev, profile]);
+    editProfile(profile, profiles.length);
+  }, [profiles, editProfile]);
+
+  const handleDeleteProfile = useCallback(() => {
+    if (!editedProfile) return;
+    if (activeProfile === editedProfile.name) {
+      setActiveProfile(undefined);
+    }
+    const remaining = profiles.filter((_, index) => index !== editedIndex);
+    setProfiles(remaining);
+    editProfile(remaining[0], 0);
+  }, [profiles, editedProfile, editedIndex, activeProfile, editProfile]);
+
+  const handleSave = useCallback(() => {
+    const names = profiles.map(profile => profile.name.trim());
+    if (names.some(name => !name)) {
+      setError('Every profile needs a name.');
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      setError('Profile names must be unique.');
+      return;
+    }
+
+    setSettings({
+      exportProfiles: profiles.map(profile => ({ ...profile, name: profile.name.trim() })),
+      activeExportProfile: activeProfile?.trim()
+    });
+    onClose();
+  }, [profiles, activeProfile, setSettings, onClose]);
+
+  // Preview the first entry of the library in the edited profile
+  const preview = useMemo(() => {
+    const entry = state.cite.data[0];
+    if (!isOpen || !entry || !editedProfile) return '';
+    try {
+      return applyExportProfile(formatEntriesAsBibTeX([entry], state.variables)[0], editedProfile);
+    } catch (err) {
+      console.error('Profile preview failed:', err);
+      return '';
+    }
+  }, [isOpen, state.cite.data, state.variables, editedProfile]);
+
+  if (!isOpen) return null;
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={modalRef}
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">BibTeX Export Profiles</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Used for BibTeX export</label>
+              <select
+                value={activeProfile ?? ''}
+                onChange={(e) => setActiveProfile(e.target.value || undefined)}
+                className={inputClass}
+              >
+                <option value="">Default layout</option>
+                {profiles.map(profile => (
+                  <option key={profile.name} value={profile.name}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Edit profile</label>
+              <div className="flex gap-2">
+                <select
+                  value={editedIndex}
+                  onChange={(e) => editProfile(profiles[Number(e.target.value)], Number(e.target.value))}
+                  disabled={profiles.length === 0}
+                  className={`flex-1 ${inputClass}`}
+                >
+                  {profiles.map((profile, index) => (
+                    <option key={index} value={index}>{profile.name || '(unnamed)'}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddProfile}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  New
+                </button>
+                <button
+                  onClick={handleDeleteProfile}
+                  disabled={!editedProfile}
+                  className="px-3 py-2 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {editedProfile ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input
+                    type="text"
+                    value={editedProfile.name}
+                    onChange={(e) => updateProfile({ name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Entry order</label>
+                  <select
+                    value={editedProfile.sortBy}
+                    onChange={(e) => updateProfile({ sortBy: e.target.value as BibTeXExportProfile['sortBy'] })}
+                    className={inputClass}
+                  >
+                    <option value="none">Library order</option>
+                    <option value="key">Citation key</option>
+                    <option value="year">Year, then key</option>
+                    <option value="author">First author, then year</option>
+                  </select>
+                </div>
+
+                <div className="col-span-2">
+                  <label className={labelClass}>Field order</label>
+                  <input
+                    type="text"
+                    value={fieldOrderText}
+                    onChange={(e) => {
+                      setFieldOrderText(e.target.value);
+                      updateProfile({ fieldOrder: parseFieldList(e.target.value) });
+                    }}
+                    placeholder="author, title, journal, year"
+                    className={`${inputClass} font-mono text-sm`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Fields not listed follow in alphabetical order.</p>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Field filter</label>
+                  <select
+                    value={editedProfile.fieldFilter}
+                    onChange={(e) => updateProfile({ fieldFilter: e.target.value as BibTeXExportProfile['fieldFilter'] })}
+                    className={inputClass}
+                  >
+                    <option value="none">Write all fields</option>
+                    <option value="whitelist">Only write these fields</option>
+                    <option value="blacklist">Never write these fields</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Filtered fields</label>
+                  <input
+                    type="text"
+                    value={filterFieldsText}
+                    onChange={(e) => {
+                      setFilterFieldsText(e.target.value);
+                      updateProfile({ filterFields: parseFieldList(e.target.value) });
+                    }}
+                    disabled={editedProfile.fieldFilter === 'none'}
+                    placeholder="abstract, file, s2id"
+                    className={`${inputClass} font-mono text-sm disabled:bg-gray-100`}
+                  />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Indentation</label>
+                  <select
+                    value={editedProfile.indent}
+                    onChange={(e) => updateProfile({ indent: e.target.value })}
+                    className={inputClass}
+                  >
+                    {INDENT_OPTIONS.map(option => (
+                      <option key={option.label} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Value delimiters</label>
+                  <select
+                    value={editedProfile.delimiter}
+                    onChange={(e) => updateProfile({ delimiter: e.target.value as BibTeXExportProfile['delimiter'] })}
+                    className={inputClass}
+                  >
+                    <option value="braces">{'{Braces}'}</option>
+                    <option value="quotes">"Quotes"</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Months</label>
+                  <select
+                    value={editedProfile.monthFormat}
+                    onChange={(e) => updateProfile({ monthFormat: e.target.value as BibTeXExportProfile['monthFormat'] })}
+                    className={inputClass}
+                  >
+                    <option value="macro">Macros (month = mar)</option>
+                    <option value="number">Numbers (month = 3)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Wrap lines at column</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={editedProfile.lineWidth}
+                    onChange={(e) => updateProfile({ lineWidth: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">0 disables wrapping.</p>
+                </div>
+
+                <div className="col-span-2 flex gap-6">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={editedProfile.alignValues}
+                      onChange={(e) => updateProfile({ alignValues: e.target.checked })}
+                    />
+                    Align "=" signs
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={editedProfile.trailingComma}
+                      onChange={(e) => updateProfile({ trailingComma: e.target.checked })}
+                    />
+                    Comma after the last field
+                  </label>
+                </div>
+              </div>
+
+              {preview && (
+                <div>
+                  <label className={labelClass}>Preview</label>
+                  <pre className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm font-mono overflow-x-auto">{preview}</pre>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500">
+              No profiles yet. BibTeX export uses the default layout until you create one.
+            </p>
+          )}
+
+          {state.settings.roundTripMode && (
+            <p className="text-sm text-amber-700">
+              Profiles are not applied while original BibTeX formatting is kept.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Save Profiles
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
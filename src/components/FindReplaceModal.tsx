@@ -0,0 +1,274 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { ExportScope } from '../types/citationTypes';
+import { CSL_FIELD_METADATA } from '../types/cslFieldMetadata';
+import { getEntriesInScope } from '../utils/cslUtils';
+import { EntryChange, findReplaceChanges, getSearchableFields } from '../utils/findReplace';
+
+interface FindReplaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ReplaceScope = Exclude<ExportScope, 'cited'>;
+
+const SCOPE_LABELS: Record<ReplaceScope, string> = {
+  all: 'All entries',
+  filtered: 'Filtered entries',
+  selected: 'Selected entries'
+};
+
+// Entries shown in the preview; the replace covers all of them
+const PREVIEW_LIMIT = 100;
+
+export function FindReplaceModal({ isOpen, onClose }: FindReplaceModalProps) {
+  const { state } = useCitationData();
+  const { replaceInEntries, undoReplace } = useCitationActions();
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [fields, setFields] = useState<string[]>(['title']);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [scope, setScope] = useState<ReplaceScope>('all');
+  const [wasOpen, setWasOpen] = useState(false);
+  const modalRef = useRef<HTMLDivElement>(null);
+  const applied = state.lastReplace;
+
+  // Search the selection when there is one, chosen once as the dialog opens
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setScope(state.selection.type === 'entry' && state.selection.items.length > 0 ? 'selected' : 'all');
+    }
+  }
+
+  // Handle ESC key and click outside
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  const scopeEntries = useMemo(() => (isOpen ? getEntriesInScope(state, scope) : []), [isOpen, state, scope]);
+  const searchableFields = useMemo(() => (isOpen ? getSearchableFields(state.cite.data) : []), [isOpen, state.cite.data]);
+
+  const { changes, error } = useMemo(() => {
+    try {
+      return {
+        changes: findReplaceChanges(scopeEntries, { find, replace, fields, caseSensitive, regex }, state.variables),
+        error: null
+      };
+    } catch (err) {
+      return { changes: [] as EntryChange[], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [scopeEntries, find, replace, fields, caseSensitive, regex, state.variables]);
+
+  const fieldChangeCount = changes.reduce((sum, change) => sum + change.changes.length, 0);
+
+  const handleToggleField = useCallback((field: string, checked: boolean) => {
+    setFields(prev => (checked ? [...prev, field] : prev.filter(item => item !== field)));
+  }, []);
+
+  const handleReplace = useCallback(() => {
+    if (changes.length === 0) return;
+    replaceInEntries(changes);
+  }, [changes, replaceInEntries]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={modalRef}
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Find and Replace</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Find</label>
+              <input
+                type="text"
+                value={find}
+                onChange={(e) => setFind(e.target.value)}
+                className={`w-full px-3 py-2 font-mono border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  error ? 'border-red-300' : 'border-gray-300'
+                }`}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Replace with</label>
+              <input
+                type="text"
+                value={replace}
+                onChange={(e) => setReplace(e.target.value)}
+                className="w-full px-3 py-2 font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : regex && (
+            <p className="text-xs text-gray-500">
+              JavaScript syntax. Use <span className="font-mono">$1</span>, <span className="font-mono">$&lt;name&gt;</span>{' '}
+              and <span className="font-mono">$&amp;</span> in the replacement for groups and the whole match.
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+              Case sensitive
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+              Regular expression
+            </label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ReplaceScope)}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              {(Object.keys(SCOPE_LABELS) as ReplaceScope[]).map(item => (
+                <option key={item} value={item}>
+                  {SCOPE_LABELS[item]}{item === scope ? ` (${scopeEntries.length})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-3 mb-1">
+              <h3 className="text-sm font-medium text-gray-700">Fields</h3>
+              <button onClick={() => setFields(searchableFields)} className="text-xs text-blue-600 hover:underline">All</button>
+              <button onClick={() => setFields([])} className="text-xs text-blue-600 hover:underline">None</button>
+            </div>
+            <div className="grid grid-cols-4 gap-x-3 gap-y-1 text-sm text-gray-700 max-h-32 overflow-y-auto">
+              {searchableFields.map(field => (
+                <label key={field} className="flex items-center gap-1.5 truncate" title={field}>
+                  <input
+                    type="checkbox"
+                    checked={fields.includes(field)}
+                    onChange={(e) => handleToggleField(field, e.target.checked)}
+                  />
+                  {CSL_FIELD_METADATA[field]?.label || field}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">
+              Preview ({fieldChangeCount} field{fieldChangeCount === 1 ? '' : 's'} in {changes.length} entr{changes.length === 1 ? 'y' : 'ies'})
+            </h3>
+            {changes.length > 0 ? (
+              <div className="border border-gray-200 rounded-md max-h-80 overflow-y-auto divide-y divide-gray-100">
+                {changes.slice(0, PREVIEW_LIMIT).map(change => (
+                  <div key={change.entryId} className="px-3 py-2">
+                    <div className="text-xs font-mono text-gray-500 mb-1">{change.entryId}</div>
+                    {change.changes.map(fieldChange => (
+                      <div key={fieldChange.field} className="flex gap-2 text-sm">
+                        <span className="flex-none w-28 text-gray-500 truncate">
+                          {CSL_FIELD_METADATA[fieldChange.field]?.label || fieldChange.field}
+                        </span>
+                        <span className="text-gray-900 break-words min-w-0">
+                          {fieldChange.segments.map((segment, index) => (
+                            <span
+                              key={index}
+                              className={
+                                segment.kind === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+                                segment.kind === 'added' ? 'bg-green-100 text-green-800' : undefined
+                              }
+                            >
+                              {segment.text}
+                            </span>
+                          ))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {changes.length > PREVIEW_LIMIT && (
+                  <div className="px-3 py-2 text-sm text-gray-500">
+                    … and {changes.length - PREVIEW_LIMIT} more entries
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {find ? 'No matches in the chosen fields.' : 'Enter the text to find.'}
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Fields that refer to an @STRING variable are not changed; edit the variable instead.
+            </p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <div className="flex justify-end items-center gap-3">
+            {applied && (
+              <span className="mr-auto text-sm text-gray-600">
+                Last replace changed {applied.length} entr{applied.length === 1 ? 'y' : 'ies'}.
+              </span>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Close
+            </button>
+            {applied && (
+              <button
+                onClick={undoReplace}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Undo Replace
+              </button>
+            )}
+            <button
+              onClick={handleReplace}
+              disabled={changes.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replace in {changes.length} entr{changes.length === 1 ? 'y' : 'ies'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,68 @@ interface HeaderProps {
   isLoaded: boolean;
   onOpenFile: () => void;
   onSaveFile: () => void;
-  onExportToBibTeX: () => void;
+  onExportToCSLJSON: () => void;
+  onExportToBibTeX: (dialect: BibTeXDialect) => void;
+  onExportToRIS: () => void;
+  onFormatBibliography: () => void;
+  onScanCitations: () => void;
+  exportScope: ExportScope;
+  exportScopeCounts: Record<ExportScope, number>;
+  onExportScopeChange: (scope: ExportScope) => void;
+  roundTripMode: boolean;
+  canRoundTrip: boolean;
+  onToggleRoundTripMode: () => void;
+  bibtexEncoding: BibTeXEncoding;
+  onToggleBibTeXEncoding: () => void;
+  onEditExportProfiles: () => void;
+  activeExportProfile?: string;
+  onEditJournalAbbreviations: () => void;
+  journalTitleForm?: JournalTitleForm;
   onCreateEntry: () => void;
   onImportFromSemanticScholar: () => void;
+  onEditCitationKeys: () => void;
+  onFindReplace: () => void;
 }
 
 import { Dropdown } from './ui/Dropdown';
+import { BibTeXDialect } from '../utils/bibtexDialect';
+import { BibTeXEncoding } from '../utils/latexUnicode';
+import { ExportScope } from '../types/citationTypes';
+import { JournalTitleForm } from '../utils/journalAbbreviations';
 
-export function Header({ isLoaded, onOpenFile, onSaveFile, onExportToBibTeX, onCreateEntry, onImportFromSemanticScholar }: HeaderProps) {
+const EXPORT_SCOPE_LABELS: Record<ExportScope, string> = {
+  all: 'All entries',
+  filtered: 'Filtered entries',
+  selected: 'Selected entries',
+  cited: 'Cited entries'
+};
+
+export function Header({
+  isLoaded,
+  onOpenFile,
+  onSaveFile,
+  onExportToCSLJSON,
+  onExportToBibTeX,
+  onExportToRIS,
+  onFormatBibliography,
+  onScanCitations,
+  exportScope,
+  exportScopeCounts,
+  onExportScopeChange,
+  roundTripMode,
+  canRoundTrip,
+  onToggleRoundTripMode,
+  bibtexEncoding,
+  onToggleBibTeXEncoding,
+  onEditExportProfiles,
+  activeExportProfile,
+  onEditJournalAbbreviations,
+  journalTitleForm,
+  onCreateEntry,
+  onImportFromSemanticScholar,
+  onEditCitationKeys,
+  onFindReplace
+}: HeaderProps) {
   const newDropdownOptions = [
     {
       id: 'create-entry',
@@ -23,14 +77,91 @@ export function Header({ isLoaded, onOpenFile, onSaveFile, onExportToBibTeX, onC
       label: 'Import from Semantic Scholar',
       onClick: onImportFromSemanticScholar,
       disabled: !isLoaded
+    },
+    {
+      id: 'citation-keys',
+      label: 'Citation Keys...',
+      onClick: onEditCitationKeys,
+      disabled: !isLoaded
+    },
+    {
+      id: 'find-replace',
+      label: 'Find and Replace...',
+      onClick: onFindReplace,
+      disabled: !isLoaded
     }
   ];
 
+  // Exports write the entries of the chosen scope
+  const scopeOptions = (Object.keys(EXPORT_SCOPE_LABELS) as ExportScope[]).map(scope => ({
+    id: `export-scope-${scope}`,
+    label: `${exportScope === scope ? '✓ ' : ''}${EXPORT_SCOPE_LABELS[scope]} (${exportScopeCounts[scope]})`,
+    onClick: () => onExportScopeChange(scope),
+    disabled: !isLoaded || exportScopeCounts[scope] === 0
+  }));
+
+  const canExport = isLoaded && exportScopeCounts[exportScope] > 0;
+
   const exportDropdownOptions = [
+    ...scopeOptions,
+    {
+      id: 'export-csl-json',
+      label: 'Export to CSL-JSON',
+      onClick: onExportToCSLJSON,
+      disabled: !canExport
+    },
     {
       id: 'export-bibtex',
       label: 'Export to BibTeX',
-      onClick: onExportToBibTeX,
+      onClick: () => onExportToBibTeX('bibtex'),
+      disabled: !canExport
+    },
+    {
+      id: 'export-biblatex',
+      label: 'Export to BibLaTeX',
+      onClick: () => onExportToBibTeX('biblatex'),
+      disabled: !canExport
+    },
+    {
+      id: 'export-profiles',
+      label: `BibTeX Export Profiles...${activeExportProfile ? ` (${activeExportProfile})` : ''}`,
+      onClick: onEditExportProfiles,
+      disabled: !isLoaded
+    },
+    {
+      id: 'journal-abbreviations',
+      label: `Journal Abbreviations...${journalTitleForm ? ` (${journalTitleForm === 'full' ? 'full names' : 'abbreviated'})` : ''}`,
+      onClick: onEditJournalAbbreviations,
+      disabled: !isLoaded
+    },
+    {
+      id: 'toggle-round-trip',
+      label: `${roundTripMode ? '✓ ' : ''}Keep Original BibTeX Formatting`,
+      onClick: onToggleRoundTripMode,
+      disabled: !isLoaded || !canRoundTrip
+    },
+    {
+      id: 'toggle-bibtex-encoding',
+      label: `${bibtexEncoding === 'ascii' ? '✓ ' : ''}Write Non-ASCII Characters as LaTeX`,
+      onClick: onToggleBibTeXEncoding,
+      disabled: !isLoaded
+    },
+    {
+      id: 'export-ris',
+      label: 'Export to RIS',
+      onClick: onExportToRIS,
+      disabled: !canExport
+    },
+    {
+      id: 'scan-citations',
+      label: 'Citations in Document...',
+      onClick: onScanCitations,
+      disabled: !isLoaded
+    },
+    {
+      id: 'format-bibliography',
+      label: 'Format Bibliography...',
+      onClick: onFormatBibliography,
       disabled: !isLoaded
     }
   ];
@@ -0,0 +1,91 @@
+import { useEffect } from 'react';
+import { ImportReport } from '../types/citationTypes';
+
+interface ImportReportModalProps {
+  report: ImportReport | null;
+  onClose: () => void;
+}
+
+export function ImportReportModal({ report, onClose }: ImportReportModalProps) {
+  // Handle ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (report) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [report, onClose]);
+
+  if (!report) return null;
+
+  const unmappedFields = Object.entries(report.unmappedFields).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Import Report</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <p className="text-gray-700 mb-4">
+            Imported {report.entryCount} {report.entryCount === 1 ? 'entry' : 'entries'} from {report.format}.
+          </p>
+
+          {unmappedFields.length === 0 ? (
+            <p className="text-sm text-green-700">All source fields were mapped.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-2">
+                The following source fields have no equivalent and were not imported:
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-1 font-medium">Field</th>
+                    <th className="py-1 font-medium text-right">Entries</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {unmappedFields.map(([field, count]) => (
+                    <tr key={field} className="border-b border-gray-100">
+                      <td className="py-1 font-mono text-gray-800">{field}</td>
+                      <td className="py-1 text-right text-gray-600">{count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
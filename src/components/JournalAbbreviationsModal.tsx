@@ -0,0 +1,305 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import {
+  BUNDLED_JOURNAL_ABBREVIATIONS, JOURNAL_LIST_FILE_ACCEPT, JournalAbbreviation, JournalTitleForm,
+  buildShortTitleUpdates, createAbbreviationTable, findJournal, isJournalEntry, mergeAbbreviationLists, parseAbbreviationList
+} from '../utils/journalAbbreviations';
+import { resolveVariable } from '../utils/cslUtils';
+
+interface JournalAbbreviationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TITLE_FORM_LABELS: Record<JournalTitleForm | 'stored', string> = {
+  stored: 'As stored',
+  full: 'Full names',
+  abbreviated: 'Abbreviations'
+};
+
+export function JournalAbbreviationsModal({ isOpen, onClose }: JournalAbbreviationsModalProps) {
+  const { state } = useCitationData();
+  const { setSettings, updateEntries } = useCitationActions();
+  const [abbreviations, setAbbreviations] = useState<JournalAbbreviation[]>([]);
+  const [titleForm, setTitleForm] = useState<JournalTitleForm | 'stored'>('stored');
+  const [newName, setNewName] = useState('');
+  const [newAbbreviation, setNewAbbreviation] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the saved table each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setAbbreviations(state.settings.journalAbbreviations || []);
+      setTitleForm(state.settings.journalTitleForm || 'stored');
+      setMessage(null);
+      setError(null);
+    }
+  }, [isOpen, state.settings.journalAbbreviations, state.settings.journalTitleForm]);
+
+  // Handle ESC key and click outside
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  const table = useMemo(() => createAbbreviationTable(abbreviations), [abbreviations]);
+
+  // Journals of the library the table does not know, most used first
+  const unknownJournals = useMemo(() => {
+    if (!isOpen) return [];
+    const counts = new Map<string, number>();
+    state.cite.data.filter(isJournalEntry).forEach((entry: any) => {
+      const journal = resolveVariable(entry['container-title'], state.variables);
+      if (!findJournal(journal, table)) counts.set(journal, (counts.get(journal) || 0) + 1);
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([journal]) => journal);
+  }, [isOpen, state.cite.data, state.variables, table]);
+
+  const shortTitleUpdates = useMemo(
+    () => (isOpen ? buildShortTitleUpdates(state.cite.data, table, state.variables) : {}),
+    [isOpen, state.cite.data, table, state.variables]
+  );
+  const fillCount = Object.keys(shortTitleUpdates).length;
+
+  const handleAdd = useCallback(() => {
+    const name = newName.trim();
+    const abbreviation = newAbbreviation.trim();
+    if (!name || !abbreviation) return;
+    setAbbreviations(prev => mergeAbbreviationLists(prev, [{ name, abbreviation }]));
+    setNewName('');
+    setNewAbbreviation('');
+  }, [newName, newAbbreviation]);
+
+  const handleRemove = useCallback((item: JournalAbbreviation) => {
+    setAbbreviations(prev => prev.filter(other => other !== item));
+  }, []);
+
+  const handleFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseAbbreviationList(await file.text());
+      if (imported.length === 0) {
+        setError(`${file.name}: no "Full Name = Abbreviation" lines or CSV rows found`);
+        return;
+      }
+      setAbbreviations(prev => mergeAbbreviationLists(prev, imported));
+      setMessage(`Imported ${imported.length} abbreviation${imported.length === 1 ? '' : 's'} from ${file.name}`);
+      setError(null);
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, []);
+
+  const saveSettings = useCallback(() => {
+    setSettings({
+      journalAbbreviations: abbreviations.length > 0 ? abbreviations : undefined,
+      journalTitleForm: titleForm === 'stored' ? undefined : titleForm
+    });
+  }, [abbreviations, titleForm, setSettings]);
+
+  const handleSave = useCallback(() => {
+    saveSettings();
+    onClose();
+  }, [saveSettings, onClose]);
+
+  const handleFill = useCallback(() => {
+    if (fillCount === 0) return;
+    updateEntries(shortTitleUpdates);
+    saveSettings();
+    onClose();
+  }, [fillCount, shortTitleUpdates, updateEntries, saveSettings, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={modalRef}
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex-none px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Journal Abbreviations</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Journal names in BibTeX, RIS and CSL-JSON exports</label>
+            <div className="flex gap-4">
+              {(Object.keys(TITLE_FORM_LABELS) as (JournalTitleForm | 'stored')[]).map(form => (
+                <label key={form} className="flex items-center gap-1.5 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="journal-title-form"
+                    checked={titleForm === form}
+                    onChange={() => setTitleForm(form)}
+                  />
+                  {TITLE_FORM_LABELS[form]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Journal articles get the name from the table, or their own abbreviation (container-title-short) when the
+              journal is not listed.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-sm font-medium text-gray-700">
+                Library abbreviations ({abbreviations.length}, plus {BUNDLED_JOURNAL_ABBREVIATIONS.length} bundled)
+              </h3>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Import JabRef or CSV List
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={JOURNAL_LIST_FILE_ACCEPT}
+                className="hidden"
+                onChange={handleFileSelected}
+              />
+            </div>
+
+            {message && <p className="text-sm text-green-700 mb-2">{message}</p>}
+            {error && (
+              <div className="p-3 mb-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="flex gap-2 mb-2">
+              <input
+                type="text"
+                placeholder="Full name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                className="flex-grow px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+              <input
+                type="text"
+                placeholder="Abbreviation"
+                value={newAbbreviation}
+                onChange={(e) => setNewAbbreviation(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                className="w-56 px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!newName.trim() || !newAbbreviation.trim()}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+
+            {abbreviations.length > 0 && (
+              <div className="border border-gray-200 rounded-md max-h-60 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <tbody>
+                    {abbreviations.map(item => (
+                      <tr key={item.name} className="border-b border-gray-100">
+                        <td className="px-3 py-1 text-gray-900">{item.name}</td>
+                        <td className="px-3 py-1 text-gray-600">{item.abbreviation}</td>
+                        <td className="px-3 py-1 text-right">
+                          <button
+                            onClick={() => handleRemove(item)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove"
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {unknownJournals.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">
+                Journals of this library missing from the table ({unknownJournals.length})
+              </h3>
+              <div className="flex flex-wrap gap-1.5">
+                {unknownJournals.map(journal => (
+                  <button
+                    key={journal}
+                    onClick={() => setNewName(journal)}
+                    className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+                    title="Add an abbreviation for this journal"
+                  >
+                    {journal}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex-none px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleFill}
+              disabled={fillCount === 0}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Set container-title-short of journal articles that have none"
+            >
+              Fill Abbreviations ({fillCount})
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { lintLibrary, LINT_RULES, LintIssue, LintSeverity } from '../utils/libraryLinter';
+import { getEntryCitationKey } from '../utils/citationScan';
+import { createAbbreviationTable } from '../utils/journalAbbreviations';
+
+interface LintViewProps {
+  onSelectEntry: (id: string) => void;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-800'
+};
+
+export function LintView({ onSelectEntry }: LintViewProps) {
+  const { state } = useCitationData();
+  const { updateEntry, setSettings } = useCitationActions();
+
+  const disabledRules = useMemo(() => state.settings.disabledLintRules || [], [state.settings.disabledLintRules]);
+
+  const journalTable = useMemo(
+    () => createAbbreviationTable(state.settings.journalAbbreviations),
+    [state.settings.journalAbbreviations]
+  );
+
+  const issues = useMemo(() => lintLibrary(
+    state.cite.data,
+    {
+      bibtexSource: state.settings.roundTripMode ? state.bibtexSource : undefined,
+      currentYear: new Date().getFullYear(),
+      journalAbbreviations: journalTable,
+      variables: state.variables
+    },
+    disabledRules
+  ), [state.cite.data, state.bibtexSource, state.settings.roundTripMode, journalTable, state.variables, disabledRules]);
+
+  const entriesById = useMemo(
+    () => new Map<string, any>(state.cite.data.map((entry: any) => [entry.id, entry])),
+    [state.cite.data]
+  );
+
+  const countsByRule = useMemo(() => {
+    const counts: Record<string, number> = {};
+    issues.forEach(issue => {
+      counts[issue.ruleId] = (counts[issue.ruleId] || 0) + 1;
+    });
+    return counts;
+  }, [issues]);
+
+  const fixableIssues = useMemo(() => issues.filter(issue => issue.fix), [issues]);
+
+  const handleToggleRule = useCallback((ruleId: string, enabled: boolean) => {
+    setSettings({
+      disabledLintRules: enabled
+        ? disabledRules.filter(id => id !== ruleId)
+        : [...disabledRules, ruleId]
+    });
+  }, [disabledRules, setSettings]);
+
+  const handleFix = useCallback((issue: LintIssue) => {
+    if (issue.fix) {
+      updateEntry(issue.entryId, issue.fix);
+    }
+  }, [updateEntry]);
+
+  // Fixes of the same entry are combined into one update
+  const handleFixIssues = useCallback((fixes: LintIssue[]) => {
+    const updatesByEntry = new Map<string, Record<string, any>>();
+    fixes.forEach(issue => {
+      updatesByEntry.set(issue.entryId, { ...updatesByEntry.get(issue.entryId), ...issue.fix });
+    });
+    updatesByEntry.forEach((updates, id) => updateEntry(id, updates));
+  }, [updateEntry]);
+
+  return (
+    <div className="flex flex-grow overflow-hidden">
+      <div className="flex-none w-72 border-r border-gray-200 overflow-y-auto bg-white p-4">
+        <h3 className="text-sm font-medium text-gray-700 mb-3">Rules</h3>
+        <div className="space-y-2">
+          {LINT_RULES.map(rule => {
+            const enabled = !disabledRules.includes(rule.id);
+            const ruleFixes = fixableIssues.filter(issue => issue.ruleId === rule.id);
+            return (
+              <label key={rule.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => handleToggleRule(rule.id, e.target.checked)}
+                />
+                <span className={`flex-grow ${enabled ? 'text-gray-900' : 'text-gray-400'}`}>{rule.label}</span>
+                {enabled && countsByRule[rule.id] > 0 && (
+                  <span className={`text-xs px-1.5 py-0.5 rounded ${SEVERITY_STYLES[rule.severity]}`}>
+                    {countsByRule[rule.id]}
+                  </span>
+                )}
+                {enabled && ruleFixes.length > 0 && (
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleFixIssues(ruleFixes);
+                    }}
+                    title={`Fix ${ruleFixes.length} problem${ruleFixes.length === 1 ? '' : 's'}`}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Fix
+                  </button>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex-grow flex flex-col overflow-hidden">
+        <div className="flex-none px-4 py-3 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
+          <span className="text-sm text-gray-700">
+            {issues.length} problem{issues.length === 1 ? '' : 's'} in {state.cite.data.length} entries
+          </span>
+          <button
+            onClick={() => handleFixIssues(fixableIssues)}
+            disabled={fixableIssues.length === 0}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Fix All ({fixableIssues.length})
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto">
+          {issues.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-500">
+              No problems found
+            </div>
+          ) : (
+            issues.map((issue, index) => {
+              const entry = entriesById.get(issue.entryId);
+              const rule = LINT_RULES.find(item => item.id === issue.ruleId);
+              return (
+                <div
+                  key={`${issue.entryId}-${issue.ruleId}-${index}`}
+                  className="px-4 py-2 border-b border-gray-100 flex items-center gap-3 text-sm"
+                >
+                  <span className={`flex-none text-xs px-1.5 py-0.5 rounded ${SEVERITY_STYLES[issue.severity]}`}>
+                    {issue.severity}
+                  </span>
+                  <button
+                    onClick={() => onSelectEntry(issue.entryId)}
+                    className="flex-none font-mono text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    {entry ? getEntryCitationKey(entry) : issue.entryId}
+                  </button>
+                  <span className="flex-grow text-gray-700" title={rule?.label}>{issue.message}</span>
+                  {issue.fix && (
+                    <button
+                      onClick={() => handleFix(issue)}
+                      className="flex-none px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                    >
+                      Fix
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
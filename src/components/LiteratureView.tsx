@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { 
   useCitationData, 
   useCitationActions, 
@@ -9,7 +9,9 @@ import {
 import { CSLEntry } from '../types/cslFieldMetadata';
 import { EntryCard } from './EntryCard';
 import { EntryEditor } from './EntryEditor';
+import { BulkEditPanel } from './BulkEditPanel';
 import { AuthorFilter } from './AuthorFilter';
+import { CopyCitationMenu } from './ui/CopyCitationMenu';
 
 interface LiteratureViewProps {
   // Simplified interface - most data comes from context now
@@ -28,7 +30,9 @@ export function LiteratureView({
     updateEntry, 
     deleteEntry, 
     startEditingEntry,
-    stopEditing 
+    stopEditing,
+    setSelection,
+    clearSelection
   } = useCitationActions();
   const { authors: allAuthors } = useAuthors();
   
@@ -42,9 +46,50 @@ export function LiteratureView({
   const filteredEntries = useFilteredAndSortedEntries();
   const [selectedEntryKey, setSelectedEntryKey] = useState<string | null>(null);
   
+  // Copy the selected entries, or everything the filters show
+  const selectedIds = useMemo(
+    () => (state.selection.type === 'entry' ? state.selection.items : []),
+    [state.selection]
+  );
+  const entriesToCopy = selectedIds.length > 0
+    ? filteredEntries.filter(entry => selectedIds.includes(entry.id))
+    : filteredEntries;
+
   const activeEntry = state.form.editingEntry 
     ? state.cite.data.find((entry: CSLEntry) => entry.id === state.form.editingEntry)
     : null;
+
+  const entryIds = useMemo(() => state.cite.data.map((entry: CSLEntry) => entry.id), [state.cite.data]);
+
+  const selectedEntries = useMemo(
+    () => state.cite.data.filter((entry: CSLEntry) => selectedIds.includes(entry.id)),
+    [state.cite.data, selectedIds]
+  );
+  const allFilteredSelected = filteredEntries.length > 0 && filteredEntries.every(entry => selectedIds.includes(entry.id));
+
+  // Entry a shift-click range starts from
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  const handleToggleSelect = useCallback((id: string, event: React.MouseEvent) => {
+    const anchorIndex = filteredEntries.findIndex(entry => entry.id === selectionAnchorRef.current);
+    if (event.shiftKey && anchorIndex !== -1) {
+      const index = filteredEntries.findIndex(entry => entry.id === id);
+      const range = filteredEntries
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map(entry => entry.id);
+      setSelection({ type: 'entry', items: [...new Set([...selectedIds, ...range])] });
+      return;
+    }
+    selectionAnchorRef.current = id;
+    setSelection({
+      type: 'entry',
+      items: selectedIds.includes(id) ? selectedIds.filter(item => item !== id) : [...selectedIds, id]
+    });
+  }, [filteredEntries, selectedIds, setSelection]);
+
+  const handleToggleSelectAll = useCallback(() => {
+    setSelection({ type: 'entry', items: allFilteredSelected ? [] : filteredEntries.map(entry => entry.id) });
+  }, [allFilteredSelected, filteredEntries, setSelection]);
     
 
   const handleEntrySelect = useCallback((id: string) => {
@@ -53,6 +98,19 @@ export function LiteratureView({
     onSelectEntry?.(id);
   }, [startEditingEntry, onSelectEntry]);
 
+  // Shift- and Ctrl-clicks select, a plain click opens the entry
+  const handleEntryClick = useCallback((id: string, event: React.MouseEvent) => {
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      handleToggleSelect(id, event);
+      return;
+    }
+    if (selectedIds.length > 0) {
+      clearSelection();
+    }
+    selectionAnchorRef.current = id;
+    handleEntrySelect(id);
+  }, [handleToggleSelect, selectedIds.length, clearSelection, handleEntrySelect]);
+
   const handleEntryUpdate = useCallback(async (id: string, updates: any) => {
     try {
       await updateEntry(id, updates);
@@ -107,6 +165,20 @@ export function LiteratureView({
               value={authorFilter}
               onChange={handleAuthorFilterChange}
             />
+
+            <div className="flex justify-between items-center">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={allFilteredSelected}
+                  onChange={handleToggleSelectAll}
+                  disabled={filteredEntries.length === 0}
+                  title={allFilteredSelected ? 'Clear the selection' : 'Select all entries shown'}
+                />
+                {selectedIds.length > 0 ? `${entriesToCopy.length} selected` : `${filteredEntries.length} entries`}
+              </label>
+              <CopyCitationMenu entries={entriesToCopy} label={`Copy ${entriesToCopy.length}`} />
+            </div>
           </div>
         </div>
 
@@ -125,7 +197,9 @@ export function LiteratureView({
                 key={entry.id}
                 entry={entry}
                 isActive={selectedEntryKey === entry.id}
-                onClick={() => handleEntrySelect(entry.id)}
+                onClick={(event) => handleEntryClick(entry.id, event)}
+                isSelected={selectedIds.includes(entry.id)}
+                onToggleSelect={(event) => handleToggleSelect(entry.id, event)}
               />
             ))
           )}
@@ -134,11 +208,17 @@ export function LiteratureView({
 
       {/* Right panel - Entry editor */}
       <div className="flex-grow flex flex-col overflow-hidden">
-        {activeEntry ? (
+        {selectedEntries.length > 0 ? (
+          <BulkEditPanel
+            entries={selectedEntries}
+            onClearSelection={clearSelection}
+          />
+        ) : activeEntry ? (
           <EntryEditor
             key={activeEntry.id} // Force remount when entry changes
             entry={activeEntry}
             stringVariables={state.variables}
+            existingIds={entryIds}
             onUpdate={handleEntryUpdate}
             onDelete={handleEntryDelete}
           />
@@ -10,13 +10,15 @@ interface SemanticScholarImportModalProps {
   onClose: () => void;
   onImport: (entry: CSLEntry) => void;
   existingCitationKeys: Set<string>;
+  keyPattern?: string;
 }
 
 export function SemanticScholarImportModal({ 
   isOpen, 
   onClose, 
   onImport, 
-  existingCitationKeys 
+  existingCitationKeys,
+  keyPattern
 }: SemanticScholarImportModalProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SemanticScholarPaper[]>([]);
@@ -144,8 +146,8 @@ export function SemanticScholarImportModal({
       }
       
       // Convert to CSL format with unique citation key
-      const cslEntry = convertSemanticScholarToCSL(paperData);
-      cslEntry.id = generateUniqueCitationKey(paperData, existingCitationKeys);
+      const cslEntry = convertSemanticScholarToCSL(paperData, keyPattern);
+      cslEntry.id = generateUniqueCitationKey(paperData, existingCitationKeys, keyPattern);
       
       // Import the entry
       onImport(cslEntry);
@@ -155,8 +157,8 @@ export function SemanticScholarImportModal({
       if (errorMessage.includes('Too many requests')) {
         setError('Rate limit reached. The paper has been imported with available data. You can edit it manually if needed.');
         // Still try to import with available data
-        const cslEntry = convertSemanticScholarToCSL(selectedPaper);
-        cslEntry.id = generateUniqueCitationKey(selectedPaper, existingCitationKeys);
+        const cslEntry = convertSemanticScholarToCSL(selectedPaper, keyPattern);
+        cslEntry.id = generateUniqueCitationKey(selectedPaper, existingCitationKeys, keyPattern);
         onImport(cslEntry);
         onClose();
       } else {
@@ -165,7 +167,7 @@ export function SemanticScholarImportModal({
     } finally {
       setIsImporting(false);
     }
-  }, [selectedPaper, existingCitationKeys, onImport, onClose]);
+  }, [selectedPaper, existingCitationKeys, keyPattern, onImport, onClose]);
 
   if (!isOpen) return null;
 
@@ -28,6 +28,16 @@ export function TabNavigation({ activeTab, onTabChange }: TabNavigationProps) {
       >
         Authors
       </button>
+      <button
+        className={`px-5 py-3 border-none bg-transparent cursor-pointer text-base border-b-4 mb-[-1px] transition-colors ${
+          activeTab === 'venues' 
+            ? 'border-b-blue-600 text-blue-600 font-medium' 
+            : 'border-b-transparent text-gray-700 hover:text-gray-900'
+        }`}
+        onClick={() => onTabChange('venues')}
+      >
+        Venues
+      </button>
       <button
         className={`px-5 py-3 border-none bg-transparent cursor-pointer text-base border-b-4 mb-[-1px] transition-colors ${
           activeTab === 'variables' 
@@ -48,6 +58,26 @@ export function TabNavigation({ activeTab, onTabChange }: TabNavigationProps) {
       >
         Recommendations
       </button>
+      <button
+        className={`px-5 py-3 border-none bg-transparent cursor-pointer text-base border-b-4 mb-[-1px] transition-colors ${
+          activeTab === 'duplicates' 
+            ? 'border-b-blue-600 text-blue-600 font-medium' 
+            : 'border-b-transparent text-gray-700 hover:text-gray-900'
+        }`}
+        onClick={() => onTabChange('duplicates')}
+      >
+        Duplicates
+      </button>
+      <button
+        className={`px-5 py-3 border-none bg-transparent cursor-pointer text-base border-b-4 mb-[-1px] transition-colors ${
+          activeTab === 'lint' 
+            ? 'border-b-blue-600 text-blue-600 font-medium' 
+            : 'border-b-transparent text-gray-700 hover:text-gray-900'
+        }`}
+        onClick={() => onTabChange('lint')}
+      >
+        Lint
+      </button>
     </nav>
   );
 } 
\ No newline at end of file
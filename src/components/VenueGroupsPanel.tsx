@@ -0,0 +1,136 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { VENUE_MATCH_LABELS, VenueGroup, VenueUsage, buildVenueRenameUpdates, groupSimilarVenues } from '../utils/venueNormalization';
+
+interface VenueGroupsPanelProps {
+  venues: VenueUsage[];
+  onSelectVenue: (value: string) => void;
+  onCreateVariable: (values: string[], name: string) => void;
+}
+
+export function VenueGroupsPanel({ venues, onSelectVenue, onCreateVariable }: VenueGroupsPanelProps) {
+  const { state } = useCitationData();
+  const { updateEntries } = useCitationActions();
+  // Per group ID: the venue the others are renamed to and the venues left out
+  const [targetValues, setTargetValues] = useState<Record<string, string>>({});
+  const [excludedValues, setExcludedValues] = useState<Record<string, string[]>>({});
+
+  const groups = useMemo(() => groupSimilarVenues(venues), [venues]);
+
+  const getTarget = (group: VenueGroup): VenueUsage => (
+    group.venues.find(venue => venue.value === targetValues[group.id]) || group.venues[0]
+  );
+
+  const getIncludedValues = (group: VenueGroup): string[] => {
+    const excluded = excludedValues[group.id] || [];
+    return group.venues.map(venue => venue.value).filter(value => !excluded.includes(value));
+  };
+
+  const handleToggleVenue = useCallback((groupId: string, value: string, included: boolean) => {
+    setExcludedValues(prev => {
+      const excluded = prev[groupId] || [];
+      return { ...prev, [groupId]: included ? excluded.filter(item => item !== value) : [...excluded, value] };
+    });
+  }, []);
+
+  const handleRename = useCallback((values: string[], target: VenueUsage) => {
+    updateEntries(buildVenueRenameUpdates(state.cite.data, values, target.value));
+  }, [state.cite.data, updateEntries]);
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
+        <h2>No similar venues found.</h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow overflow-y-auto p-4 space-y-4">
+      {groups.map(group => {
+        const target = getTarget(group);
+        const includedValues = getIncludedValues(group);
+        const entryCount = group.venues.reduce((sum, venue) => sum + venue.entryIds.length, 0);
+
+        return (
+          <div key={group.id} className="border border-gray-200 rounded-md bg-white">
+            <div className="px-4 py-2 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-900">
+                {group.venues.length} spellings in {entryCount} entr{entryCount === 1 ? 'y' : 'ies'}
+              </span>
+              {group.matches.map(match => (
+                <span key={match} className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-800">
+                  {VENUE_MATCH_LABELS[match]}
+                </span>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="px-4 py-1 font-normal w-20">Keep</th>
+                  <th className="px-2 py-1 font-normal w-16">Rename</th>
+                  <th className="px-2 py-1 font-normal">Venue</th>
+                  <th className="px-4 py-1 font-normal text-right">Entries</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.venues.map(venue => {
+                  const included = includedValues.includes(venue.value);
+                  return (
+                    <tr key={venue.value} className="border-t border-gray-100">
+                      <td className="px-4 py-1">
+                        <input
+                          type="radio"
+                          name={`target-${group.id}`}
+                          checked={target.value === venue.value}
+                          disabled={!included}
+                          onChange={() => setTargetValues(prev => ({ ...prev, [group.id]: venue.value }))}
+                        />
+                      </td>
+                      <td className="px-2 py-1">
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          disabled={target.value === venue.value}
+                          onChange={(e) => handleToggleVenue(group.id, venue.value, e.target.checked)}
+                        />
+                      </td>
+                      <td className={`px-2 py-1 ${included ? 'text-gray-900' : 'text-gray-400'}`}>
+                        <button onClick={() => onSelectVenue(venue.value)} className="hover:underline text-left">
+                          {venue.name}
+                        </button>
+                        {venue.variable && (
+                          <span className="ml-2 text-xs text-gray-500 font-mono">@{venue.variable}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-1 text-right text-gray-600">{venue.entryIds.length}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="px-4 py-2 border-t border-gray-200 flex justify-end gap-2">
+              <button
+                onClick={() => onCreateVariable(includedValues, target.name)}
+                disabled={!!target.variable}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Replace the selected spellings with an @STRING variable holding the kept name"
+              >
+                Create Variable
+              </button>
+              <button
+                onClick={() => handleRename(includedValues, target)}
+                disabled={includedValues.length < 2}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Rename {includedValues.length - 1} to "{target.name}"
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { EntryCard } from './EntryCard';
+import { VenueGroupsPanel } from './VenueGroupsPanel';
+import { useCitationData, useCitationActions } from '../hooks/useCitation';
+import { buildVenueRenameUpdates, collectVenues, suggestVenueVariableKey } from '../utils/venueNormalization';
+
+interface VenuesViewProps {
+  onSelectEntry: (id: string) => void;
+}
+
+export function VenuesView({ onSelectEntry }: VenuesViewProps) {
+  const [selectedValue, setSelectedValue] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showGroups, setShowGroups] = useState(false);
+  const [newName, setNewName] = useState('');
+  const { state } = useCitationData();
+  const { addVariable, updateVariable, updateEntries } = useCitationActions();
+
+  const venues = useMemo(() => collectVenues(state.cite.data, state.variables), [state.cite.data, state.variables]);
+
+  const filteredVenues = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return venues.filter(venue => venue.name.toLowerCase().includes(term) || venue.value.toLowerCase().includes(term));
+  }, [venues, searchTerm]);
+
+  const selectedVenue = venues.find(venue => venue.value === selectedValue);
+
+  const venueEntries = useMemo(() => (
+    selectedVenue ? state.cite.data.filter((entry: any) => selectedVenue.entryIds.includes(entry.id)) : []
+  ), [selectedVenue, state.cite.data]);
+
+  useEffect(() => {
+    setNewName(selectedVenue?.name || '');
+  }, [selectedVenue?.name]);
+
+  // A venue held in an @STRING variable is renamed in the variable, so its
+  // entries keep referring to it
+  const handleRename = useCallback(() => {
+    const name = newName.trim();
+    if (!selectedVenue || !name || name === selectedVenue.name) return;
+    if (selectedVenue.variable) {
+      updateVariable(selectedVenue.variable, name);
+      return;
+    }
+    updateEntries(buildVenueRenameUpdates(state.cite.data, [selectedVenue.value], name));
+    setSelectedValue(name);
+  }, [newName, selectedVenue, state.cite.data, updateVariable, updateEntries]);
+
+  // Points the entries of the given venues to an @STRING variable holding the
+  // name, reusing a variable that already holds it
+  const handleCreateVariable = useCallback((values: string[], name: string) => {
+    const existingKey = Object.keys(state.variables).find(key => state.variables[key] === name);
+    const variableKey = existingKey || suggestVenueVariableKey(name, state.variables);
+    if (!existingKey) {
+      addVariable(variableKey, name);
+    }
+    updateEntries(buildVenueRenameUpdates(state.cite.data, values, variableKey));
+    setSelectedValue(variableKey);
+  }, [state.variables, state.cite.data, addVariable, updateEntries]);
+
+  return (
+    <div className="flex flex-col flex-grow overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 bg-white flex gap-2">
+        <input
+          type="search"
+          placeholder="Search venues..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="flex-grow px-2 py-2 border border-gray-300 rounded text-base"
+        />
+        <button
+          onClick={() => setShowGroups(!showGroups)}
+          className={`flex-none px-3 py-2 text-sm border rounded ${
+            showGroups ? 'border-blue-600 bg-blue-600 text-white hover:bg-blue-700' : 'border-gray-300 bg-white hover:bg-gray-50'
+          }`}
+          title="Find abbreviations and spellings of the same venue and rename them to one"
+        >
+          Similar Venues
+        </button>
+      </div>
+
+      {showGroups ? (
+        <VenueGroupsPanel
+          venues={venues}
+          onSelectVenue={(value) => {
+            setSelectedValue(value);
+            setShowGroups(false);
+          }}
+          onCreateVariable={handleCreateVariable}
+        />
+      ) : (
+        <div className="flex flex-grow overflow-hidden">
+          <div className="flex-none w-80 border-r border-gray-200 overflow-y-auto bg-white">
+            {filteredVenues.map(venue => (
+              <div
+                key={venue.value}
+                className={`px-6 py-3 cursor-pointer border-b border-gray-200 transition-colors flex justify-between gap-2 ${
+                  selectedValue === venue.value
+                    ? 'bg-blue-600 text-white font-medium'
+                    : 'hover:bg-gray-50 text-gray-900'
+                }`}
+                onClick={() => setSelectedValue(venue.value)}
+              >
+                <span>
+                  {venue.name}
+                  {venue.variable && <span className="ml-2 text-xs font-mono opacity-75">@{venue.variable}</span>}
+                </span>
+                <span className="flex-none text-sm opacity-75">{venue.entryIds.length}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-grow flex flex-col overflow-hidden">
+            {selectedVenue && (
+              <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                  className="flex-grow px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  title={selectedVenue.variable
+                    ? `New value of the @STRING variable ${selectedVenue.variable}`
+                    : 'New container title of all entries of this venue'}
+                />
+                <button
+                  onClick={handleRename}
+                  disabled={!newName.trim() || newName.trim() === selectedVenue.name}
+                  className="flex-none px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Rename
+                </button>
+                {!selectedVenue.variable && (
+                  <button
+                    onClick={() => handleCreateVariable([selectedVenue.value], selectedVenue.name)}
+                    className="flex-none px-3 py-1.5 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors font-medium"
+                    title="Create an @STRING variable for this venue and refer to it from all its entries"
+                  >
+                    Create Variable
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="flex-grow overflow-y-auto p-4">
+              {selectedVenue ? (
+                venueEntries.map((entry: any) => (
+                  <EntryCard
+                    key={entry.id}
+                    entry={entry}
+                    isActive={false}
+                    onClick={() => onSelectEntry(entry.id)}
+                  />
+                ))
+              ) : (
+                <div className="flex-grow flex justify-center items-center text-gray-500 text-center p-8">
+                  <h2>Select a venue to see its entries.</h2>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { CSLAuthor, CSLFieldMetadata } from '../../types/cslFieldMetadata';
 import { useCitationData, useCitationActions } from '../../hooks/useCitation';
+import { formatBibTeXName, parseBibTeXName, parseBibTeXNameList } from '../../utils/bibtexNames';
+import { getPersonName } from '../../utils/cslUtils';
 import {
   DndContext,
   closestCenter,
@@ -193,11 +195,7 @@ export function AuthorInputField({ value, onChange, metadata, errors, onValidate
       return author.literal;
     }
     
-    if (author.given && author.family) {
-      return `${author.given} ${author.family}`;
-    }
-    
-    return author.family || author.given || '';
+    return getPersonName(author);
   };
 
   // Parse author input string into CSL format
@@ -210,25 +208,8 @@ export function AuthorInputField({ value, onChange, metadata, errors, onValidate
       return { literal: trimmed };
     }
     
-    // Parse name structure
-    if (trimmed.includes(',')) {
-      // Last name first format: "Smith, John A."
-      const [family, given] = trimmed.split(',', 2);
-      return {
-        family: family.trim(),
-        given: given ? given.trim() : undefined
-      };
-    } else {
-      // First name first format: "John A. Smith"
-      const nameParts = trimmed.split(/\s+/);
-      const family = nameParts.pop() || '';
-      const given = nameParts.length > 0 ? nameParts.join(' ') : undefined;
-      
-      return {
-        given,
-        family
-      };
-    }
+    // BibTeX name forms: "Given von Family", "von Family, Given" or "von Family, Jr, Given"
+    return parseBibTeXName(trimmed);
   };
 
   // Validate author format
@@ -258,17 +239,22 @@ export function AuthorInputField({ value, onChange, metadata, errors, onValidate
       return;
     }
     
-    const newAuthor = parseAuthorInput(inputValue);
-    const newAuthors = [...value, newAuthor];
+    // A pasted BibTeX name list ("A and B and C") adds every name
+    const trimmed = inputValue.trim();
+    const newAuthors = state.variables[trimmed] !== undefined
+      ? [...value, parseAuthorInput(trimmed)]
+      : [...value, ...parseBibTeXNameList(trimmed)];
     
     onChange(newAuthors);
     setInputValue('');
     onValidate(metadata.name, []);
-  }, [inputValue, value, onChange, metadata.name, onValidate]);
+  }, [inputValue, value, onChange, metadata.name, onValidate, state.variables]);
 
   const handleEditAuthor = useCallback((index: number) => {
+    const author = value[index];
     setEditingIndex(index);
-    setInputValue(formatAuthorForDisplay(value[index]));
+    // Names are edited in BibTeX form so particles and suffixes parse back unchanged
+    setInputValue(author.literal ? formatAuthorForDisplay(author) : formatBibTeXName(author));
     setIsEditing(true);
   }, [value]);
 
@@ -319,9 +305,7 @@ export function AuthorInputField({ value, onChange, metadata, errors, onValidate
           return currentVariables[author.literal] === authorName;
         }
         // Check direct name matches
-        const entryAuthorName = author.literal || 
-          (author.given && author.family ? `${author.given} ${author.family}` : 
-           author.family || author.given || '');
+        const entryAuthorName = author.literal || getPersonName(author);
         return entryAuthorName === authorName;
       });
     });
@@ -337,9 +321,7 @@ export function AuthorInputField({ value, onChange, metadata, errors, onValidate
           matches = currentVariables[author.literal] === authorName;
         } else {
           // Check direct name matches
-          const entryAuthorName = author.literal || 
-            (author.given && author.family ? `${author.given} ${author.family}` : 
-             author.family || author.given || '');
+          const entryAuthorName = author.literal || getPersonName(author);
           matches = entryAuthorName === authorName;
         }
         
@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { useCitationData } from '../../hooks/useCitation';
+import { CSL_LOCALE_OPTIONS, CSL_STYLE_OPTIONS } from '../../utils/bibliographyFormatter';
+import { CITATION_COPY_FORMATS, CitationCopyFormat, formatCitationCopy } from '../../utils/citationCopy';
+import { copyToClipboard } from '../../utils/clipboard';
+
+interface CopyCitationMenuProps {
+  entries: any[]; // CSL-JSON entries to copy
+  label?: string;
+  className?: string;
+}
+
+export function CopyCitationMenu({ entries, label = 'Copy', className = '' }: CopyCitationMenuProps) {
+  const { state } = useCitationData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [style, setStyle] = useState('apa');
+  const [locale, setLocale] = useState('en-US');
+  const [status, setStatus] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const handleCopy = useCallback(async (format: CitationCopyFormat) => {
+    setStatus('Copying...');
+    try {
+      await copyToClipboard(await formatCitationCopy(entries, format, { style, locale }, state.variables));
+      setStatus('Copied!');
+      setIsOpen(false);
+    } catch (error) {
+      setStatus(`Copy failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    setTimeout(() => setStatus(null), 2000);
+  }, [entries, style, locale, state.variables]);
+
+  const handleStyleChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    setStyle(event.target.value);
+  }, []);
+
+  const handleLocaleChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    setLocale(event.target.value);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={entries.length === 0}
+        className={`px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+        title="Copy to clipboard as a citation, BibTeX or CSL-JSON"
+      >
+        {status === 'Copied!' ? status : `📋 ${label}`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-md shadow-lg border border-gray-200 z-50">
+          <div className="px-4 py-3 border-b border-gray-200 space-y-2">
+            <select
+              value={style}
+              onChange={handleStyleChange}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {CSL_STYLE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={locale}
+              onChange={handleLocaleChange}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {CSL_LOCALE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="py-1">
+            {CITATION_COPY_FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => handleCopy(format.id)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900 transition-colors duration-200"
+              >
+                {format.label}
+                {format.styled && <span className="text-gray-400"> ({CSL_STYLE_OPTIONS.find(option => option.id === style)?.label})</span>}
+              </button>
+            ))}
+          </div>
+          {status && status !== 'Copied!' && (
+            <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-600">{status}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
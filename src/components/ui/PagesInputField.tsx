@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import { CSLFieldMetadata } from '../../types/cslFieldMetadata';
+import { validatePages } from '../../schemas/cslSchemas';
 
 interface PagesInputFieldProps {
   value: string;
@@ -12,27 +13,6 @@ interface PagesInputFieldProps {
 export function PagesInputField({ value, onChange, metadata, errors, onValidate }: PagesInputFieldProps) {
   const [inputValue, setInputValue] = useState(value || '');
 
-  // Validate pages format
-  const validatePages = (pagesString: string): string[] => {
-    const errors: string[] = [];
-    
-    if (!pagesString.trim()) {
-      return errors; // Empty is valid for optional field
-    }
-    
-    const trimmed = pagesString.trim();
-    
-    // Basic format validation for pages
-    // Valid formats: "123", "123-145", "123--145", "123, 456-789"
-    const pagePattern = /^(\d+(-{1,2}\d+)?)(,\s*\d+(-{1,2}\d+)?)*$/;
-    
-    if (!pagePattern.test(trimmed)) {
-      errors.push('Invalid page format. Use "123" for single page or "123-145" for page range. Multiple ranges can be separated by commas.');
-    }
-    
-    return errors;
-  };
-
   const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = event.target.value;
     setInputValue(newValue);
@@ -0,0 +1,91 @@
+import React, { useMemo, useCallback } from 'react';
+import { CSLFieldMetadata } from '../../types/cslFieldMetadata';
+import { useCitationData } from '../../hooks/useCitation';
+import {
+  bracesToNocase, createTitleProtectionContext, nocaseToBraces, protectWords, suggestTitleProtection, PROTECTION_REASON_LABELS
+} from '../../utils/titleProtection';
+
+interface TitleInputFieldProps {
+  value: string;
+  onChange: (title: string) => void;
+  metadata: CSLFieldMetadata;
+  errors: string[];
+}
+
+export function TitleInputField({ value, onChange, metadata, errors }: TitleInputFieldProps) {
+  const { state } = useCitationData();
+
+  const protectionContext = useMemo(() => createTitleProtectionContext(state.cite.data), [state.cite.data]);
+  const suggestions = useMemo(
+    () => suggestTitleProtection(value || '', protectionContext),
+    [value, protectionContext]
+  );
+
+  // The title is edited in BibTeX notation, protected text is stored as nocase spans
+  const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(bracesToNocase(event.target.value));
+  }, [onChange]);
+
+  const handleProtect = useCallback((words: string[]) => {
+    onChange(protectWords(value || '', words));
+  }, [value, onChange]);
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {metadata.label}
+        {metadata.required && <span className="text-red-500 ml-1">*</span>}
+      </label>
+
+      <input
+        type="text"
+        value={nocaseToBraces(value || '')}
+        onChange={handleInputChange}
+        placeholder={metadata.placeholder}
+        className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          errors.length > 0 ? 'border-red-500' : ''
+        }`}
+      />
+
+      <p className="text-xs text-gray-500 mt-1">
+        Text in braces keeps its capitalization in BibTeX styles, e.g. "Training {"{BERT}"} on {"{GPUs}"}"
+      </p>
+
+      {/* Words that BibTeX styles would lowercase */}
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          <span className="text-xs text-gray-600">Protect:</span>
+          {suggestions.map(({ word, reason }) => (
+            <button
+              key={word}
+              type="button"
+              onClick={() => handleProtect([word])}
+              title={PROTECTION_REASON_LABELS[reason]}
+              className="px-2 py-0.5 text-xs font-mono border border-blue-200 rounded bg-blue-50 text-blue-800 hover:bg-blue-100"
+            >
+              {`{${word}}`}
+            </button>
+          ))}
+          {suggestions.length > 1 && (
+            <button
+              type="button"
+              onClick={() => handleProtect(suggestions.map(suggestion => suggestion.word))}
+              className="px-2 py-0.5 text-xs text-blue-600 hover:text-blue-800"
+            >
+              Protect all
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Error messages */}
+      {errors.length > 0 && (
+        <div className="text-red-500 text-xs mt-1">
+          {errors.map((error, i) => (
+            <div key={i}>{error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,3 +7,8 @@
 
 // Semantic Scholar API base URL - used for direct API calls
 export const SEMANTIC_SCHOLAR_BASE_URL = 'https://api.semanticscholar.org';
+
+// CSL style and locale repositories - styles and locales not bundled with
+// Citation.js are downloaded from here on first use
+export const CSL_STYLES_BASE_URL = 'https://raw.githubusercontent.com/citation-style-language/styles/master';
+export const CSL_LOCALES_BASE_URL = 'https://raw.githubusercontent.com/citation-style-language/locales/master';
@@ -6,14 +6,42 @@ import {
   FilterState, 
   ViewState, 
   FormState,
+  LibrarySettings,
+  LibraryMetadata,
+  BibTeXSource,
+  CitationScan,
+  ExportScope,
+  ImportReport,
   TabType,
   SortOption,
   ViewMode
 } from '../types/citationTypes';
 import {
-  updateEntry as updateCslEntry
+  updateEntry as updateCslEntry,
+  getEntriesInScope,
+  resolveEntryVariables
 } from '../utils/cslUtils';
-import { enhanceBibTeXWithCustomFields, ensureSemanticScholarIdInCustom } from '../utils/semanticScholarConverter';
+import { ensureSemanticScholarIdInCustom } from '../utils/semanticScholarConverter';
+import { parseBibTeX, extractStringVariables, linkMacroReferences } from '../utils/bibtexParser';
+import { formatStringVariables, formatEntriesAsBibTeX } from '../utils/bibtexWriter';
+import { BibTeXDialect, recoverDialectFields } from '../utils/bibtexDialect';
+import { applyExportProfile, sortEntriesForProfile } from '../utils/bibtexProfile';
+import { buildMergeUpdates } from '../utils/duplicateFinder';
+import { generateCitationKey } from '../utils/citationKeyPattern';
+import { convertLatexFields } from '../utils/latexUnicode';
+import { recoverTitleProtection } from '../utils/titleProtection';
+import { applyJournalTitleForm, createAbbreviationTable } from '../utils/journalAbbreviations';
+import { EntryChange, buildReplaceUpdates } from '../utils/findReplace';
+import {
+  createBibTeXSource,
+  markSourceEntryModified,
+  removeSourceEntries,
+  formatRoundTripBibTeX
+} from '../utils/bibtexRoundTrip';
+import { isLibraryProject, migrateLibraryProject, createLibraryProject } from '../utils/libraryProject';
+import { parseRIS, formatRIS } from '../utils/risConverter';
+import { parseEndNoteXML } from '../utils/endnoteXmlConverter';
+import { parseZoteroJSON, parseZoteroRDF } from '../utils/zoteroConverter';
 
 // Helper function for comparing citation data to avoid unnecessary Citation.js recreation
 function citationDataChanged(oldData: any[], newData: any[]): boolean {
@@ -56,6 +84,12 @@ function citationDataChanged(oldData: any[], newData: any[]): boolean {
   return false;
 }
 
+// Checks whether two entries hold the same field values
+function entryFieldsEqual(a: any, b: any): boolean {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...fields].every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+}
+
 // Helper function to create Citation.js instance only when necessary
 function createOrUpdateCite(currentCite: any, newData: any[], oldData: any[]): any {
   // If data structure hasn't actually changed, return current instance
@@ -98,12 +132,27 @@ function generateUniqueIdInReducer(existingData: any[], base: string): string {
 
 // Action types
 type CitationAction = 
-  | { type: 'LOAD_CITATION'; payload: { cite: any; filename?: string; variables?: Record<string, string> } }
+  | { 
+      type: 'LOAD_CITATION'; 
+      payload: { 
+        cite: any; 
+        filename?: string; 
+        variables?: Record<string, string>; 
+        bibtexSource?: BibTeXSource;
+        settings?: Partial<LibrarySettings>;
+        metadata?: LibraryMetadata;
+        filters?: FilterState;
+      } 
+    }
   | { type: 'RESET_CITATION' }
   | { type: 'ADD_ENTRY'; payload: any }
   | { type: 'UPDATE_ENTRY'; payload: { id: string; updates: any } }
+  | { type: 'UPDATE_ENTRIES'; payload: Record<string, any> }
+  | { type: 'REPLACE_IN_ENTRIES'; payload: EntryChange[] }
+  | { type: 'UNDO_REPLACE' }
   | { type: 'DELETE_ENTRY'; payload: string }
   | { type: 'DELETE_ENTRIES'; payload: string[] }
+  | { type: 'RENAME_ENTRIES'; payload: Record<string, string> }
   | { type: 'DUPLICATE_ENTRY'; payload: string }
   | { type: 'ADD_VARIABLE'; payload: { key: string; value: string } }
   | { type: 'UPDATE_VARIABLE'; payload: { key: string; value: string } }
@@ -115,6 +164,8 @@ type CitationAction =
   | { type: 'SET_FILTERS'; payload: Partial<FilterState> }
   | { type: 'RESET_FILTERS' }
   | { type: 'SET_VIEW'; payload: Partial<ViewState> }
+  | { type: 'SET_SETTINGS'; payload: Partial<LibrarySettings> }
+  | { type: 'SET_CITATION_SCAN'; payload: CitationScan | undefined }
   | { type: 'SET_FORM_STATE'; payload: Partial<FormState> }
   | { type: 'START_EDITING_ENTRY'; payload: string }
   | { type: 'START_EDITING_VARIABLE'; payload: string }
@@ -130,6 +181,11 @@ const initialState: EnhancedCitationUIState = {
   cite: new Cite([]),
   citeVersion: 0,
   variables: {},
+  settings: {
+    roundTripMode: false,
+    exportProfiles: []
+  },
+  metadata: {},
   selection: {
     type: 'entry',
     items: []
@@ -173,6 +229,11 @@ function citationReducer(state: EnhancedCitationUIState, action: CitationAction)
         cite: newCite,
         citeVersion: state.citeVersion + versionIncrement,
         variables: action.payload.variables || {},
+        bibtexSource: action.payload.bibtexSource,
+        lastReplace: undefined,
+        settings: { ...initialState.settings, ...action.payload.settings },
+        metadata: action.payload.metadata || {},
+        filters: { ...initialState.filters, ...action.payload.filters },
         filename: action.payload.filename,
         isLoaded: true,
         selection: { type: 'entry', items: [] },
@@ -247,10 +308,66 @@ function citationReducer(state: EnhancedCitationUIState, action: CitationAction)
         ...state,
         cite: newCite,
         citeVersion: state.citeVersion + versionIncrement,
+        bibtexSource: state.bibtexSource && markSourceEntryModified(state.bibtexSource, id, updatedEntry.id),
         form: { ...state.form, isDirty: true }
       };
     }
 
+    case 'UPDATE_ENTRIES': {
+      const updatesById = action.payload;
+      let bibtexSource = state.bibtexSource;
+      let changed = false;
+      const data = state.cite.data.map((entry: any) => {
+        const updates = updatesById[entry.id];
+        if (!updates) {
+          return entry;
+        }
+        // updateCslEntry always returns a copy, so compare the values
+        const updatedEntry = updateCslEntry(entry, updates);
+        if (entryFieldsEqual(updatedEntry, entry)) {
+          return entry;
+        }
+        changed = true;
+        bibtexSource = bibtexSource && markSourceEntryModified(bibtexSource, entry.id, updatedEntry.id);
+        return updatedEntry;
+      });
+      
+      if (!changed) {
+        return state;
+      }
+      
+      const newCite = createOrUpdateCite(state.cite, data, state.cite.data);
+      
+      return {
+        ...state,
+        cite: newCite,
+        citeVersion: state.citeVersion + (newCite !== state.cite ? 1 : 0),
+        bibtexSource,
+        form: { ...state.form, isDirty: true }
+      };
+    }
+
+    case 'REPLACE_IN_ENTRIES': {
+      const replaced = citationReducer(state, { type: 'UPDATE_ENTRIES', payload: buildReplaceUpdates(action.payload) });
+      return { ...replaced, lastReplace: action.payload };
+    }
+
+    case 'UNDO_REPLACE': {
+      if (!state.lastReplace) {
+        return state;
+      }
+      // Fields edited again since the replace keep their newer value
+      const entriesById = new Map<string, any>(state.cite.data.map((entry: any) => [entry.id, entry]));
+      const revertible = state.lastReplace
+        .map(change => ({
+          ...change,
+          changes: change.changes.filter(fieldChange => entriesById.get(change.entryId)?.[fieldChange.field] === fieldChange.after)
+        }))
+        .filter(change => change.changes.length > 0);
+      const reverted = citationReducer(state, { type: 'UPDATE_ENTRIES', payload: buildReplaceUpdates(revertible, true) });
+      return { ...reverted, lastReplace: undefined };
+    }
+
     case 'DELETE_ENTRY': {
       const data = state.cite.data.filter((entry: any) => entry.id !== action.payload);
       
@@ -268,6 +385,7 @@ function citationReducer(state: EnhancedCitationUIState, action: CitationAction)
         ...state,
         cite: newCite,
         citeVersion: state.citeVersion + versionIncrement,
+        bibtexSource: state.bibtexSource && removeSourceEntries(state.bibtexSource, [action.payload]),
         form: { ...state.form, isDirty: true }
       };
     }
@@ -289,10 +407,66 @@ function citationReducer(state: EnhancedCitationUIState, action: CitationAction)
         ...state,
         cite: newCite,
         citeVersion: state.citeVersion + versionIncrement,
+        bibtexSource: state.bibtexSource && removeSourceEntries(state.bibtexSource, action.payload),
         form: { ...state.form, isDirty: true }
       };
     }
 
+    case 'RENAME_ENTRIES': {
+      const renames = action.payload;
+      const renamedKeys = new Map<string, string>();
+      state.cite.data.forEach((entry: any) => {
+        if (renames[entry.id]) {
+          renamedKeys.set(entry['citation-key'] || entry.id, renames[entry.id]);
+        }
+      });
+      if (renamedKeys.size === 0) {
+        return state;
+      }
+      
+      let bibtexSource = state.bibtexSource;
+      const data = state.cite.data.map((entry: any) => {
+        const newId = renames[entry.id] || entry.id;
+        const crossref = entry.custom?.crossref;
+        const newCrossref = crossref && renamedKeys.get(crossref);
+        if (newId === entry.id && !newCrossref) {
+          return entry;
+        }
+        
+        // Children point to their crossref parent by key, follow the rename
+        const renamed = { ...entry, id: newId, 'citation-key': newId };
+        if (newCrossref) {
+          renamed.custom = { ...entry.custom, crossref: newCrossref };
+        }
+        bibtexSource = bibtexSource && markSourceEntryModified(bibtexSource, entry.id, newId);
+        return renamed;
+      });
+      
+      const newCite = createOrUpdateCite(state.cite, data, state.cite.data);
+      const renameId = (id: string) => renames[id] || id;
+      
+      return {
+        ...state,
+        cite: newCite,
+        citeVersion: state.citeVersion + (newCite !== state.cite ? 1 : 0),
+        bibtexSource,
+        selection: state.selection.type === 'entry'
+          ? { ...state.selection, items: state.selection.items.map(renameId) }
+          : state.selection,
+        // Undoing a replace and exporting cited entries follow the renamed entries
+        lastReplace: state.lastReplace?.map(change => ({ ...change, entryId: renameId(change.entryId) })),
+        citationScan: state.citationScan && {
+          ...state.citationScan,
+          keys: state.citationScan.keys.map(key => renamedKeys.get(key) || key)
+        },
+        form: {
+          ...state.form,
+          editingEntry: state.form.editingEntry && renameId(state.form.editingEntry),
+          isDirty: true
+        }
+      };
+    }
+
     case 'DUPLICATE_ENTRY': {
       const sourceId = action.payload;
       const entry = state.cite.data.find((e: any) => e.id === sourceId);
@@ -416,6 +590,21 @@ function citationReducer(state: EnhancedCitationUIState, action: CitationAction)
         }
       };
 
+    case 'SET_SETTINGS':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          ...action.payload
+        }
+      };
+
+    case 'SET_CITATION_SCAN':
+      return {
+        ...state,
+        citationScan: action.payload
+      };
+
     case 'SET_FORM_STATE':
       return {
         ...state,
@@ -470,10 +659,19 @@ interface CitationActionsContextType {
   // Native CSL-JSON operations (Open/Save)
   loadFromCSLJSON: (content: string, filename?: string) => Promise<void>;
   saveToCSLJSON: () => string;
+  exportToCSLJSON: (scope?: ExportScope) => string;
   
   // BibTeX operations (Import/Export)
   importFromBibTeX: (content: string, filename?: string) => Promise<void>;
-  exportToBibTeX: () => string;
+  exportToBibTeX: (dialect?: BibTeXDialect, scope?: ExportScope) => string;
+  
+  // RIS operations (Import/Export)
+  importFromRIS: (content: string, filename?: string) => Promise<void>;
+  exportToRIS: (scope?: ExportScope) => string;
+  
+  // Imports from other reference managers, resolving to a report of unmapped fields
+  importFromEndNoteXML: (content: string, filename?: string) => Promise<ImportReport>;
+  importFromZotero: (content: string, filename?: string) => Promise<ImportReport>;
   
   // Citation operations
   resetCitation: () => void;
@@ -481,8 +679,13 @@ interface CitationActionsContextType {
   // Entry operations  
   addEntry: (entry: any) => string;
   updateEntry: (id: string, updates: any) => Promise<void>;
+  updateEntries: (updates: Record<string, any>) => void; // entry ID -> updates, applied as one change
+  replaceInEntries: (changes: EntryChange[]) => void; // find and replace, kept in state until undone
+  undoReplace: () => void;
   deleteEntry: (id: string) => void;
   deleteEntries: (ids: string[]) => void;
+  mergeEntries: (keepId: string, removeId: string, fields: Record<string, any>) => void;
+  renameEntries: (renames: Record<string, string>) => void;
   duplicateEntry: (id: string) => Promise<string>;
   getEntry: (id: string) => any;
   
@@ -506,6 +709,10 @@ interface CitationActionsContextType {
   setCurrentTab: (tab: TabType) => void;
   setSortBy: (sortBy: SortOption, direction?: 'asc' | 'desc') => void;
   setDisplayMode: (mode: ViewMode) => void;
+  setSettings: (settings: Partial<LibrarySettings>) => void;
+  
+  // Keys cited by a scanned document, for the 'cited' export scope
+  setCitationScan: (scan: CitationScan | undefined) => void;
   
   // UI operations
   startEditingEntry: (id: string) => void;
@@ -534,12 +741,55 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
 
   // Actions memoization with empty dependency array for maximum stability
   const actions = useMemo<CitationActionsContextType>(() => {
+    // Loads CSL entries produced by one of the importers as a new library
+    const loadImportedEntries = (entries: any[], filename?: string) => {
+      const newCite = new Cite(entries);
+      newCite.data.forEach((entry: any) => {
+        ensureSemanticScholarIdInCustom(entry);
+      });
+      
+      dispatch({ 
+        type: 'LOAD_CITATION', 
+        payload: { cite: newCite, filename } 
+      });
+    };
+    
+    // Entries of an export scope, with journal names in the form chosen for export
+    const getExportEntries = (scope: ExportScope) => {
+      const { settings, variables } = stateRef.current;
+      const entries = getEntriesInScope(stateRef.current, scope);
+      if (!settings.journalTitleForm) return entries;
+      const table = createAbbreviationTable(settings.journalAbbreviations);
+      return applyJournalTitleForm(entries, settings.journalTitleForm, table, variables);
+    };
+    
     const actionHandlers: CitationActionsContextType = {
       // Citation operations - no dependencies needed
       // Native CSL-JSON operations (Open/Save)
       loadFromCSLJSON: async (content: string, filename?: string) => {
         try {
           const parsedData = JSON.parse(content);
+          
+          // Project files carry variables, settings and metadata next to the entries
+          if (isLibraryProject(parsedData)) {
+            const project = migrateLibraryProject(parsedData);
+            const newCite = new Cite(project.entries);
+            dispatch({ 
+              type: 'LOAD_CITATION', 
+              payload: { 
+                cite: newCite, 
+                filename,
+                variables: project.variables,
+                bibtexSource: project.bibtexSource,
+                settings: project.settings,
+                metadata: project.metadata,
+                filters: project.filters
+              } 
+            });
+            return;
+          }
+          
+          // Plain CSL-JSON array
           const newCite = new Cite(parsedData);
           dispatch({ 
             type: 'LOAD_CITATION', 
@@ -607,8 +857,12 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
           return cleanEntry;
         });
         
+        // Wrap the entries in a project file so variables and settings survive
+        const { variables, settings, metadata, filters, bibtexSource } = stateRef.current;
+        const project = createLibraryProject(cleanData, { variables, settings, metadata, filters, bibtexSource });
+        
         try {
-          const serialized = JSON.stringify(cleanData, null, 2);
+          const serialized = JSON.stringify(project, null, 2);
           console.log('Final JSON size:', serialized.length, 'characters');
           console.log('Size in MB:', (serialized.length / (1024 * 1024)).toFixed(2));
           return serialized;
@@ -618,11 +872,30 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
         }
       },
       
+      exportToCSLJSON: (scope: ExportScope = 'all') => {
+        // A plain CSL-JSON array for other tools: macros are expanded, since
+        // the variables stay behind, and Citation.js internals are left out
+        const { variables } = stateRef.current;
+        const entries = getExportEntries(scope).map((entry: any) =>
+          Object.fromEntries(Object.entries(resolveEntryVariables(entry, variables)).filter(([key]) => !key.startsWith('_')))
+        );
+        return JSON.stringify(entries, null, 2);
+      },
+      
       // BibTeX operations (Import/Export)
       importFromBibTeX: async (content: string, filename?: string) => {
         try {
           const newCite = new Cite(content);
           
+          // Recover @STRING variables and the fields that referenced them (Citation.js expands them)
+          const blocks = parseBibTeX(content);
+          const variables = extractStringVariables(blocks);
+          linkMacroReferences(newCite.data, blocks, variables);
+          recoverDialectFields(newCite.data, blocks, variables);
+          convertLatexFields(newCite.data);
+          recoverTitleProtection(newCite.data, blocks, variables);
+          const bibtexSource = createBibTeXSource(blocks, newCite.data);
+          
           // Extract and set Semantic Scholar IDs from URLs for entries that don't have custom.S2ID
           newCite.data.forEach((entry: any) => {
             ensureSemanticScholarIdInCustom(entry);
@@ -630,36 +903,79 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
           
           dispatch({ 
             type: 'LOAD_CITATION', 
-            payload: { cite: newCite, filename } 
+            payload: { cite: newCite, filename, variables, bibtexSource } 
           });
         } catch (error) {
           throw error;
         }
       },
       
-      exportToBibTeX: () => {
+      exportToBibTeX: (dialect: BibTeXDialect = 'bibtex', scope: ExportScope = 'all') => {
         // Use ref to access current state instead of stale closure
-        const basicBibtex = stateRef.current.cite.format('bibtex');
-        const entries = stateRef.current.cite.data;
+        const { cite, variables, settings, bibtexSource } = stateRef.current;
+        const entries = getExportEntries(scope);
+        const encoding = settings.bibtexEncoding || 'ascii';
         
-        // Enhance BibTeX with custom fields like s2id
-        if (entries.length === 1) {
-          // Single entry - enhance it
-          const enhanced = enhanceBibTeXWithCustomFields(basicBibtex, entries[0]);
-          return enhanced;
-        } else if (entries.length > 1) {
-          // Multiple entries - enhance each one
-          const entryBibtexList = basicBibtex.split('\n\n').filter((block: string) => block.trim());
-          const enhancedEntries = entryBibtexList.map((entryBibtex: string, index: number) => {
-            if (index < entries.length) {
-              return enhanceBibTeXWithCustomFields(entryBibtex, entries[index]);
-            }
-            return entryBibtex;
-          });
-          return enhancedEntries.join('\n\n');
+        // Round-trip mode keeps untouched entries, comments and @STRING blocks as in the source,
+        // so the layout of the source wins over export profiles. Entries whose journal name
+        // was switched to the export form count as modified so the new name is written.
+        if (settings.roundTripMode && bibtexSource) {
+          const entryIds = new Set(entries.map((entry: any) => entry.id));
+          const excludedIds = cite.data.filter((entry: any) => !entryIds.has(entry.id)).map((entry: any) => entry.id);
+          const libraryEntries = new Set(cite.data);
+          const renamedJournalIds = entries.filter((entry: any) => !libraryEntries.has(entry)).map((entry: any) => entry.id);
+          const source = removeSourceEntries(bibtexSource, excludedIds);
+          return formatRoundTripBibTeX(
+            { ...source, modifiedIds: [...new Set([...source.modifiedIds, ...renamedJournalIds])] },
+            entries,
+            variables,
+            dialect,
+            encoding
+          );
         }
         
-        return basicBibtex;
+        // Lay the entries out with the active export profile, if any
+        const profile = settings.exportProfiles.find(item => item.name === settings.activeExportProfile);
+        const sortedEntries = profile ? sortEntriesForProfile(entries, profile.sortBy) : entries;
+        const generatedBlocks = formatEntriesAsBibTeX(sortedEntries, variables, dialect, encoding);
+        const entryBlocks = profile ? generatedBlocks.map(block => applyExportProfile(block, profile)) : generatedBlocks;
+        
+        // Write the @STRING header so macro references resolve
+        const stringHeader = formatStringVariables(variables, encoding);
+        return [stringHeader, ...entryBlocks].filter(block => block).join('\n\n') + '\n';
+      },
+      
+      // RIS operations (Import/Export)
+      importFromRIS: async (content: string, filename?: string) => {
+        const entries = parseRIS(content);
+        if (entries.length === 0) {
+          throw new Error('No RIS records found (expected "TY  - " ... "ER  - ")');
+        }
+        loadImportedEntries(entries, filename);
+      },
+      
+      exportToRIS: (scope: ExportScope = 'all') => {
+        return formatRIS(getExportEntries(scope), stateRef.current.variables);
+      },
+      
+      // Imports from other reference managers
+      importFromEndNoteXML: async (content: string, filename?: string) => {
+        const { entries, report } = parseEndNoteXML(content);
+        if (entries.length === 0) {
+          throw new Error('No <record> elements found in the EndNote XML file');
+        }
+        loadImportedEntries(entries, filename);
+        return report;
+      },
+      
+      importFromZotero: async (content: string, filename?: string) => {
+        const isRDF = content.trim().startsWith('<');
+        const { entries, report } = isRDF ? parseZoteroRDF(content) : parseZoteroJSON(content);
+        if (entries.length === 0) {
+          throw new Error('No items found in the Zotero export');
+        }
+        loadImportedEntries(entries, filename);
+        return report;
       },
       
       resetCitation: () => {
@@ -671,7 +987,9 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
         // Generate ID before dispatch if needed
         const entryWithId = { ...entry };
         if (!entryWithId.id) {
-          entryWithId.id = generateUniqueIdInReducer(stateRef.current.cite.data, entryWithId.title || 'entry');
+          const { cite, settings } = stateRef.current;
+          const usedKeys = new Set<string>(cite.data.map((item: any) => item.id));
+          entryWithId.id = generateCitationKey(entryWithId, usedKeys, settings.citationKeyPattern);
         }
         // Ensure citation-key matches id to preserve it during BibTeX export/import
         entryWithId['citation-key'] = entryWithId.id;
@@ -696,6 +1014,18 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
         }, 100); // Debounce for 100ms
       },
       
+      updateEntries: (updates: Record<string, any>) => {
+        dispatch({ type: 'UPDATE_ENTRIES', payload: updates });
+      },
+      
+      replaceInEntries: (changes: EntryChange[]) => {
+        dispatch({ type: 'REPLACE_IN_ENTRIES', payload: changes });
+      },
+      
+      undoReplace: () => {
+        dispatch({ type: 'UNDO_REPLACE' });
+      },
+      
       deleteEntry: (id: string) => {
         dispatch({ type: 'DELETE_ENTRY', payload: id });
       },
@@ -704,6 +1034,31 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
         dispatch({ type: 'DELETE_ENTRIES', payload: ids });
       },
       
+      mergeEntries: (keepId: string, removeId: string, fields: Record<string, any>) => {
+        const { cite } = stateRef.current;
+        const keep = cite.data.find((entry: any) => entry.id === keepId);
+        const remove = cite.data.find((entry: any) => entry.id === removeId);
+        if (!keep || !remove) {
+          throw new Error(`Entry "${!keep ? keepId : removeId}" not found`);
+        }
+        
+        // The removed key becomes an alias, so documents citing it still resolve
+        dispatch({ type: 'UPDATE_ENTRY', payload: { id: keepId, updates: buildMergeUpdates(keep, remove, fields) } });
+        dispatch({ type: 'DELETE_ENTRIES', payload: [removeId] });
+      },
+      
+      renameEntries: (renames: Record<string, string>) => {
+        const ids = new Set(stateRef.current.cite.data.map((entry: any) => entry.id));
+        Object.keys(renames).forEach(oldId => ids.delete(oldId));
+        Object.values(renames).forEach(newId => {
+          if (ids.has(newId)) {
+            throw new Error(`Citation key "${newId}" is already in use`);
+          }
+          ids.add(newId);
+        });
+        dispatch({ type: 'RENAME_ENTRIES', payload: renames });
+      },
+      
       duplicateEntry: async (id: string): Promise<string> => {
         dispatch({ type: 'DUPLICATE_ENTRY', payload: id });
         return `${id}_copy`; // Predictable ID format
@@ -797,6 +1152,14 @@ export function CitationProvider({ children }: { children: React.ReactNode }) {
         dispatch({ type: 'SET_VIEW', payload: { displayMode: mode } });
       },
       
+      setSettings: (settings: Partial<LibrarySettings>) => {
+        dispatch({ type: 'SET_SETTINGS', payload: settings });
+      },
+      
+      setCitationScan: (scan: CitationScan | undefined) => {
+        dispatch({ type: 'SET_CITATION_SCAN', payload: scan });
+      },
+      
       // UI operations
       startEditingEntry: (id: string) => {
         dispatch({ type: 'START_EDITING_ENTRY', payload: id });
@@ -6,13 +6,11 @@ import {
 } from '../contexts/CitationContext';
 
 import {
-  filterEntriesByText,
-  filterEntriesByAuthor,
-  filterEntriesByYearRange,
-  filterEntriesByType,
+  applyFilters,
   sortEntries,
   getAllAuthorNames,
-  getEntriesByAuthor
+  getEntriesByAuthor,
+  getPersonName
 } from '../utils/cslUtils';
 
 // Re-export the main context hooks for convenience
@@ -26,29 +24,10 @@ export function useFilteredAndSortedEntries() {
   const { state } = useCitationData();
 
   return useMemo(() => {
-    let entries = [...state.cite.data];
-    
-    // Apply filters
-    if (state.filters.searchText) {
-      entries = filterEntriesByText(entries, state.filters.searchText, state.variables);
-    }
-    
-    if (state.filters.authorFilter) {
-      entries = filterEntriesByAuthor(entries, state.filters.authorFilter, state.variables);
-    }
-    
-    if (state.filters.yearRange.from || state.filters.yearRange.to) {
-      entries = filterEntriesByYearRange(entries, state.filters.yearRange.from, state.filters.yearRange.to);
-    }
-    
-    if (state.filters.typeFilter && state.filters.typeFilter !== 'all') {
-      entries = filterEntriesByType(entries, state.filters.typeFilter);
-    }
+    const entries = applyFilters(state.cite.data, state.filters, state.variables);
     
     // Apply sorting
-    entries = sortEntries(entries, state.view.sortBy, state.view.sortDirection);
-    
-    return entries;
+    return sortEntries(entries, state.view.sortBy, state.view.sortDirection);
   }, [state.cite.data, state.filters, state.view.sortBy, state.view.sortDirection, state.variables]);
 }
 
@@ -131,9 +110,7 @@ export function useEntryStats() {
     entries.forEach((entry: any) => {
       if (entry.author && Array.isArray(entry.author)) {
         entry.author.forEach((author: any) => {
-          const name = author.literal || 
-                      (author.family && author.given ? `${author.given} ${author.family}` : 
-                       author.family || author.given || 'Unknown');
+          const name = author.literal || getPersonName(author) || 'Unknown';
           authorCount[name] = (authorCount[name] || 0) + 1;
         });
       }
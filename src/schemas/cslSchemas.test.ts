@@ -0,0 +1,77 @@
+import * as v from 'valibot';
+import { getEntryTypeSchema, hasFieldValue, isValidDOI, stripDOIPrefix, validateCSLEntry, validatePages } from './cslSchemas';
+
+const ARTICLE = {
+  id: 'doe2020',
+  type: 'article-journal',
+  title: 'A Title',
+  author: [{ family: 'Doe', given: 'Jane' }],
+  'container-title': 'Journal',
+  issued: { 'date-parts': [[2020]] }
+};
+
+describe('validateCSLEntry', () => {
+  it('accepts complete entries', () => {
+    expect(validateCSLEntry(ARTICLE)).toEqual({ success: true, errors: [], warnings: [] });
+  });
+
+  it('warns about missing required fields of the type without failing', () => {
+    const result = validateCSLEntry({ ...ARTICLE, 'container-title': '', issued: undefined });
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map(warning => warning.field)).toEqual(['container-title', 'issued']);
+    expect(result.warnings[0].message).toBe('Required for this entry type');
+  });
+
+  it('requires a note for manuscripts', () => {
+    const { warnings } = validateCSLEntry({ id: 'draft', type: 'manuscript', title: 'Draft', author: [{ family: 'Doe' }] });
+    expect(warnings.map(warning => warning.field)).toEqual(['note']);
+  });
+
+  it('reports a group of alternatives on its first field', () => {
+    const { warnings } = validateCSLEntry({ id: 'book', type: 'book', title: 'Book', publisher: 'ACM', issued: { 'date-parts': [[2020]] } });
+    expect(warnings).toEqual([{
+      field: 'author',
+      message: 'Required for this entry type unless Editors is filled in',
+      code: 'PARTIAL_CHECK'
+    }]);
+  });
+
+  it('reports malformed values and duplicate keys', () => {
+    const { errors } = validateCSLEntry({ ...ARTICLE, id: 'doe 2020', DOI: 'xyz' }, ['doe 2020']);
+    expect(errors.map(error => error.field)).toEqual(['id', 'DOI', 'id']);
+    expect(errors[2].code).toBe('DUPLICATE_ID');
+    expect(validateCSLEntry(ARTICLE, ['doe2020'], 'doe2020').success).toBe(true);
+  });
+
+  it('accepts DOIs written as links or with a doi: prefix', () => {
+    expect(validateCSLEntry({ ...ARTICLE, DOI: 'https://doi.org/10.1000/xyz' }).success).toBe(true);
+    expect(validateCSLEntry({ ...ARTICLE, DOI: 'doi:10.1000/xyz' }).success).toBe(true);
+    expect(validateCSLEntry({ ...ARTICLE, DOI: 'https://example.org/10.1000/xyz' }).success).toBe(false);
+  });
+});
+
+describe('getEntryTypeSchema', () => {
+  it('checks only the shared fields of other types', () => {
+    expect(v.is(getEntryTypeSchema('legal_case'), { id: 'case', type: 'legal_case' })).toBe(true);
+  });
+});
+
+describe('field helpers', () => {
+  it('tells filled-in fields from empty ones', () => {
+    expect(hasFieldValue(' ')).toBe(false);
+    expect(hasFieldValue([])).toBe(false);
+    expect(hasFieldValue({ 'date-parts': [[]] })).toBe(false);
+    expect(hasFieldValue({ literal: 'n.d.' })).toBe(true);
+    expect(hasFieldValue(0)).toBe(true);
+  });
+
+  it('checks DOIs and pages', () => {
+    expect(isValidDOI('10.1000/xyz')).toBe(true);
+    expect(isValidDOI('doi:10.1000/xyz')).toBe(false);
+    expect(stripDOIPrefix('https://dx.doi.org/10.1000/xyz')).toBe('10.1000/xyz');
+    expect(stripDOIPrefix('DOI: 10.1000/xyz')).toBe('10.1000/xyz');
+    expect(validatePages('1-10, 15--20')).toEqual([]);
+    expect(validatePages('one to ten')).toHaveLength(1);
+  });
+});
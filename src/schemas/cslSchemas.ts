@@ -1,18 +1,24 @@
 import * as v from 'valibot';
-import { CSL_ENTRY_TYPES } from '../types/cslFieldMetadata';
+import { CSL_ENTRY_TYPES, CSL_FIELD_METADATA, CSL_REQUIRED_FIELDS, CSLEntryType } from '../types/cslFieldMetadata';
 
-// Citation key validation
+// Citation key validation. BibTeX keys may contain most punctuation
+// (smith:2020, doe.2019a) but no characters that end a key or a value.
 const citationKeySchema = v.pipe(
   v.string(),
   v.minLength(1, 'Citation key is required'),
-  v.regex(/^[a-zA-Z][a-zA-Z0-9_-]*$/, 'Citation key must start with a letter and contain only letters, numbers, underscores, and hyphens')
+  v.regex(/^[^\s,{}()"#%'=\\~]+$/, 'Citation key must not contain spaces, commas, braces, parentheses, quotes or the characters # % = \\ ~')
 );
 
 // DOI validation
-const doiSchema = v.optional(v.pipe(
+const doiPatternSchema = v.pipe(
   v.string(),
   v.regex(/^10\..+/, 'DOI must start with "10."')
-));
+);
+// Entries may hold a DOI as a doi.org link or with a "doi:" prefix
+const doiSchema = v.optional(v.pipe(v.string(), v.transform(stripDOIPrefix), doiPatternSchema));
+
+// Page numbers: "123", "123-145", "123--145", "123, 456-789"
+const PAGES_PATTERN = /^(\d+(-{1,2}\d+)?)(,\s*\d+(-{1,2}\d+)?)*$/;
 
 // CSL Author schema
 const cslAuthorSchema = v.object({
@@ -29,8 +35,11 @@ const cslDateSchema = v.object({
   literal: v.optional(v.string())
 });
 
-// Main CSL entry schema
-export const cslEntrySchema = v.object({
+// CSL number variables (volume, issue, edition) may be strings or numbers
+const cslNumberSchema = v.union([v.string(), v.number()]);
+
+// Fields shared by all entry types
+const cslEntryFields = {
   id: citationKeySchema,
   type: v.picklist(CSL_ENTRY_TYPES),
   title: v.optional(v.string()),
@@ -38,8 +47,8 @@ export const cslEntrySchema = v.object({
   editor: v.optional(authorsArraySchema, []),
   issued: v.optional(cslDateSchema),
   'container-title': v.optional(v.string()),
-  volume: v.optional(v.string()),
-  issue: v.optional(v.string()),
+  volume: v.optional(cslNumberSchema),
+  issue: v.optional(cslNumberSchema),
   page: v.optional(v.string()),
   publisher: v.optional(v.string()),
   'publisher-place': v.optional(v.string()),
@@ -47,13 +56,86 @@ export const cslEntrySchema = v.object({
   note: v.optional(v.string()),
   abstract: v.optional(v.string()),
   chapter: v.optional(v.string()),
-  edition: v.optional(v.string()),
+  edition: v.optional(cslNumberSchema),
   'collection-title': v.optional(v.string()),
   school: v.optional(v.string()),
   institution: v.optional(v.string()),
   organization: v.optional(v.string()),
   URL: v.optional(v.string())
-});
+};
+
+// Main CSL entry schema
+export const cslEntrySchema = v.object(cslEntryFields);
+
+/**
+ * Checks whether a field holds a value; empty strings, names lists and dates count as missing
+ * @param value Field value
+ */
+export function hasFieldValue(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') {
+    const date = value as { 'date-parts'?: unknown[][]; literal?: string };
+    return Boolean(date['date-parts']?.[0]?.length || date.literal);
+  }
+  return true;
+}
+
+function requiredMessage(fields: readonly string[]): string {
+  const others = fields.slice(1).map(field => CSL_FIELD_METADATA[field]?.label || field);
+  return others.length > 0
+    ? `Required for this entry type unless ${others.join(' or ')} is filled in`
+    : 'Required for this entry type';
+}
+
+// Entries as the required field checks see them
+type EntryInput = Record<string, unknown>;
+
+// Paths of a required field group, in the non-empty list form partialCheck takes
+type FieldPaths = [[string], ...[string][]];
+
+function toFieldPaths(group: readonly string[]): FieldPaths {
+  const [first, ...rest] = group;
+  return [[first], ...rest.map((field): [string] => [field])];
+}
+
+// Checks that one field of a group is filled in, reporting the issue on the first
+function requireOneOf(group: readonly string[]) {
+  return v.forward<EntryInput, v.PartialCheckIssue<EntryInput>, [string]>(
+    v.partialCheck<EntryInput, FieldPaths, EntryInput, string>(
+      toFieldPaths(group),
+      input => group.some(field => hasFieldValue(input[field])),
+      requiredMessage(group)
+    ),
+    [group[0]]
+  );
+}
+
+// Entry schema of one type: the shared fields plus the type's required fields.
+// Where one of several fields is enough, the issue is reported on the first.
+function createEntryTypeSchema(type: CSLEntryType): v.GenericSchema {
+  const requiredGroups = CSL_REQUIRED_FIELDS[type].map(item => (typeof item === 'string' ? [item] : item));
+  const entrySchema: v.GenericSchema<unknown, EntryInput> = v.object({ ...cslEntryFields, type: v.literal(type) });
+
+  return v.pipe(entrySchema, ...requiredGroups.map(requireOneOf));
+}
+
+// Schema per entry type, following the BibTeX required field tables
+export const cslEntryTypeSchemas = Object.fromEntries(
+  CSL_ENTRY_TYPES.map(type => [type, createEntryTypeSchema(type)])
+) as Record<CSLEntryType, v.GenericSchema>;
+
+// Entries of types the editor does not offer are only checked for the shared fields
+const otherTypeEntrySchema = v.object({ ...cslEntryFields, type: v.string() });
+
+/**
+ * Returns the validation schema for an entry type
+ * @param type CSL entry type
+ */
+export function getEntryTypeSchema(type: string): v.GenericSchema {
+  return cslEntryTypeSchemas[type as CSLEntryType] ?? otherTypeEntrySchema;
+}
 
 // Citation collection schema
 export const citationCollectionSchema = v.object({
@@ -69,52 +151,81 @@ export interface ValidationResult {
     message: string;
     code: string;
   }>;
+  // Missing required fields; they do not make the entry invalid
+  warnings: Array<{
+    field: string;
+    message: string;
+    code: string;
+  }>;
 }
 
 // Helper functions
-function validateUniqueKey(key: string, existingKeys: string[], currentKey?: string): boolean {
-  return currentKey === key || !existingKeys.includes(key);
+export function isValidDOI(doi: string): boolean {
+  return v.is(doiPatternSchema, doi);
 }
 
-// Main validation function for CSL entries
-export function validateCSLEntry(entry: unknown, existingKeys: string[] = []): ValidationResult {
-  try {
-    v.parse(cslEntrySchema, entry);
+/**
+ * Removes doi.org URLs and "doi:" prefixes around a DOI
+ * @param doi DOI as stored in the entry
+ */
+export function stripDOIPrefix(doi: string): string {
+  return doi.trim().replace(/^(https?:\/\/)?(dx\.)?doi\.org\//i, '').replace(/^doi:\s*/i, '');
+}
 
-    const errors: Array<{field: string; message: string; code: string}> = [];
-    const typedEntry = entry as any;
+// Validates a page field; empty is valid because the field is optional
+export function validatePages(pagesString: string): string[] {
+  const trimmed = pagesString.trim();
+  if (trimmed && !PAGES_PATTERN.test(trimmed)) {
+    return ['Invalid page format. Use "123" for single page or "123-145" for page range. Multiple ranges can be separated by commas.'];
+  }
+  return [];
+}
 
-    // Additional custom validations
-    if (!validateUniqueKey(typedEntry.id, existingKeys, typedEntry.id)) {
-      errors.push({
-        field: 'id',
-        message: 'Citation ID must be unique',
-        code: 'DUPLICATE_ID'
-      });
-    }
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
 
-    return {
-      success: errors.length === 0,
-      errors
-    };
+function validateUniqueKey(key: string, existingKeys: string[], currentKey?: string): boolean {
+  return currentKey === key || !existingKeys.includes(key);
+}
 
-  } catch (error) {
-    const vError = error as v.ValiError<any>;
-    const errors = vError.issues?.map((issue: any) => ({
-      field: issue.path?.[0]?.key as string || 'unknown',
-      message: issue.message,
-      code: issue.type?.toUpperCase() || 'VALIDATION_ERROR'
-    })) || [{
-      field: 'unknown',
-      message: 'Validation failed',
-      code: 'VALIDATION_ERROR'
-    }];
+/**
+ * Validates an entry against the schema of its type
+ * @param entry Entry to validate
+ * @param existingKeys IDs of the entries in the library
+ * @param currentKey ID of the entry before editing, which may be kept
+ * @returns Malformed values as errors and missing required fields as warnings
+ */
+export function validateCSLEntry(entry: unknown, existingKeys: string[] = [], currentKey?: string): ValidationResult {
+  const fields: EntryInput = isRecord(entry) ? entry : {};
+  // Cleared form fields hold empty strings; they count as missing, not as malformed
+  const values = Object.fromEntries(
+    Object.entries(fields).filter(([key, value]) => key === 'id' || value !== '')
+  );
+  const result = v.safeParse(getEntryTypeSchema(typeof fields.type === 'string' ? fields.type : ''), values);
 
-    return {
-      success: false,
-      errors
-    };
+  const issues = (result.success ? [] : result.issues).map(issue => ({
+    field: issue.path?.[0]?.key as string || 'unknown',
+    message: issue.message,
+    code: issue.type?.toUpperCase() || 'VALIDATION_ERROR'
+  }));
+  // The required field checks are the only partial checks
+  const errors = issues.filter(issue => issue.code !== 'PARTIAL_CHECK');
+  const warnings = issues.filter(issue => issue.code === 'PARTIAL_CHECK');
+
+  if (typeof fields.id === 'string' && !validateUniqueKey(fields.id, existingKeys, currentKey)) {
+    errors.push({
+      field: 'id',
+      message: 'Citation ID must be unique',
+      code: 'DUPLICATE_ID'
+    });
   }
+
+  return {
+    success: errors.length === 0,
+    errors,
+    warnings
+  };
 }
 
 export function validateCitationCollection(collection: unknown): ValidationResult {
@@ -140,7 +251,8 @@ export function validateCitationCollection(collection: unknown): ValidationResul
 
     return {
       success: errors.length === 0,
-      errors
+      errors,
+      warnings: []
     };
 
   } catch (error) {
@@ -157,7 +269,8 @@ export function validateCitationCollection(collection: unknown): ValidationResul
 
     return {
       success: false,
-      errors
+      errors,
+      warnings: []
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,54 @@
+import * as v from 'valibot';
+
+// Library metadata schema
+const libraryMetadataSchema = v.object({
+  title: v.optional(v.string()),
+  description: v.optional(v.string()),
+  created: v.optional(v.string()),
+  modified: v.optional(v.string())
+});
+
+// BibTeX export profile schema
+const bibtexExportProfileSchema = v.object({
+  name: v.pipe(v.string(), v.minLength(1, 'Profile name cannot be empty')),
+  fieldOrder: v.array(v.string()),
+  fieldFilter: v.picklist(['none', 'whitelist', 'blacklist']),
+  filterFields: v.array(v.string()),
+  indent: v.string(),
+  alignValues: v.boolean(),
+  delimiter: v.picklist(['braces', 'quotes']),
+  monthFormat: v.picklist(['macro', 'number']),
+  sortBy: v.picklist(['none', 'key', 'year', 'author']),
+  trailingComma: v.boolean(),
+  lineWidth: v.pipe(v.number(), v.integer(), v.minValue(0))
+});
+
+// Library settings schema
+const librarySettingsSchema = v.object({
+  roundTripMode: v.boolean(),
+  exportProfiles: v.array(bibtexExportProfileSchema),
+  activeExportProfile: v.optional(v.string()),
+  disabledLintRules: v.optional(v.array(v.string())),
+  citationKeyPattern: v.optional(v.string()),
+  bibtexEncoding: v.optional(v.picklist(['utf8', 'ascii'])),
+  rejectedAuthorClusters: v.optional(v.array(v.string())),
+  journalAbbreviations: v.optional(v.array(v.object({ name: v.string(), abbreviation: v.string() }))),
+  journalTitleForm: v.optional(v.picklist(['full', 'abbreviated']))
+});
+
+// Project file schema (current version). Entries are only checked to be
+// objects with an ID; Citation.js validates the CSL-JSON itself.
+export const libraryProjectSchema = v.object({
+  format: v.string(),
+  version: v.number(),
+  metadata: libraryMetadataSchema,
+  settings: librarySettingsSchema,
+  variables: v.record(v.string(), v.string()),
+  filters: v.optional(v.looseObject({})),
+  bibtexSource: v.optional(v.looseObject({
+    blocks: v.array(v.looseObject({ kind: v.string(), raw: v.string() })),
+    sourceKeys: v.record(v.string(), v.string()),
+    modifiedIds: v.array(v.string())
+  })),
+  entries: v.array(v.looseObject({ id: v.string() }))
+});
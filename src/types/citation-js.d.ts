@@ -5,6 +5,7 @@ declare module 'citation-js' {
     data: any[];
     format(format: string, options?: any): string;
     static async(input: string | any[] | any): Promise<Cite>;
+    static plugins: any;
   }
 
   export default Cite;
@@ -1,3 +1,8 @@
+import type { BibTeXBlock } from '../utils/bibtexParser';
+import type { BibTeXEncoding } from '../utils/latexUnicode';
+import type { EntryChange } from '../utils/findReplace';
+import type { JournalAbbreviation, JournalTitleForm } from '../utils/journalAbbreviations';
+
 // UI State Types for Citation.js integration
 export type SelectionType = 'entry' | 'variable' | 'author';
 
@@ -17,10 +22,13 @@ export type FilterState = {
   customFilters: Record<string, any>;
 }
 
+// Which entries an export writes
+export type ExportScope = 'all' | 'filtered' | 'selected' | 'cited';
+
 export type SortOption = 'author' | 'year' | 'type' | 'title' | 'id';
 export type SortDirection = 'asc' | 'desc';
 export type ViewMode = 'card' | 'list' | 'table';
-export type TabType = 'literature' | 'authors' | 'variables' | 'recommendations';
+export type TabType = 'literature' | 'authors' | 'venues' | 'variables' | 'recommendations' | 'duplicates' | 'lint';
 
 export type ViewState = {
   currentTab: TabType;
@@ -49,9 +57,69 @@ export type FormState = {
   editingVariable?: string; // key of variable being edited
 }
 
+// Original BibTeX source kept for lossless round-trip export
+export type BibTeXSource = {
+  blocks: BibTeXBlock[];
+  sourceKeys: Record<string, string>; // entry ID -> key of its entry block in the source
+  modifiedIds: string[]; // entries changed via updateEntry, regenerated on export
+}
+
+// Named layout for BibTeX export, so output matches the linters of a repository
+export type BibTeXExportProfile = {
+  name: string;
+  fieldOrder: string[]; // fields written first, in this order; the rest follow alphabetically
+  fieldFilter: 'none' | 'whitelist' | 'blacklist';
+  filterFields: string[]; // fields the whitelist keeps or the blacklist drops
+  indent: string; // e.g. "\t" or "  "
+  alignValues: boolean; // pad field names so the "=" signs line up
+  delimiter: 'braces' | 'quotes';
+  monthFormat: 'macro' | 'number'; // month = mar or month = 3
+  sortBy: 'none' | 'key' | 'year' | 'author';
+  trailingComma: boolean; // comma after the last field
+  lineWidth: number; // wrap values longer than this, 0 disables wrapping
+}
+
+export type LibrarySettings = {
+  roundTripMode: boolean; // export untouched BibTeX entries exactly as they were read
+  exportProfiles: BibTeXExportProfile[];
+  activeExportProfile?: string; // name of the profile used for BibTeX export, Citation.js layout when unset
+  disabledLintRules?: string[]; // IDs of lint rules that are switched off
+  citationKeyPattern?: string; // e.g. "[auth:lower][year]" for new and regenerated keys
+  bibtexEncoding?: BibTeXEncoding; // UTF-8 or ASCII with LaTeX commands, ASCII when unset
+  rejectedAuthorClusters?: string[]; // name variant groups marked as different people
+  journalAbbreviations?: JournalAbbreviation[]; // library's own abbreviations, on top of the bundled list
+  journalTitleForm?: JournalTitleForm; // journal names written on export, as stored when unset
+}
+
+export type LibraryMetadata = {
+  title?: string;
+  description?: string;
+  created?: string; // ISO timestamp
+  modified?: string; // ISO timestamp of the last save
+}
+
+// Result of importing a file from another reference manager
+export type ImportReport = {
+  format: string; // e.g. "EndNote XML"
+  entryCount: number;
+  unmappedFields: Record<string, number>; // source field -> number of entries it was dropped from
+}
+
+// Citation keys found in the source files of a document
+export type CitationScan = {
+  files: string[]; // names of the scanned files
+  keys: string[]; // cited keys in order of first citation
+  citesAll: boolean; // the document uses \nocite{*}
+}
+
 export type CitationUIState = {
   cite: any; // Citation.js Cite instance
   variables: Record<string, string>; // @STRING variables (Citation.js doesn't handle these natively)
+  settings: LibrarySettings;
+  metadata: LibraryMetadata;
+  bibtexSource?: BibTeXSource; // only set when the library was imported from BibTeX
+  citationScan?: CitationScan; // document scanned for citations, kept when another library is loaded
+  lastReplace?: EntryChange[]; // changes of the last find and replace, until it is undone
   selection: Selection;
   filters: FilterState;
   view: ViewState;
@@ -85,7 +153,9 @@ export const CSL_FIELD_LABELS: Record<string, string> = {
   howpublished: 'How Published',
   month: 'Month',
   crossref: 'Cross Reference',
-  email: 'Email'
+  email: 'Email',
+  accessed: 'Accessed',
+  version: 'Version'
 };
 
 // CSL-JSON to BibTeX type mapping
@@ -101,7 +171,10 @@ export const CSL_TO_BIBTEX_TYPE: Record<string, string> = {
   'report': 'techreport',
   'webpage': 'misc',
   'entry-dictionary': 'incollection',
-  'entry-encyclopedia': 'incollection'
+  'entry-encyclopedia': 'incollection',
+  'article': 'misc',
+  'software': 'misc',
+  'dataset': 'misc'
 };
 
 export const BIBTEX_TO_CSL_TYPE: Record<string, string> = {
@@ -30,7 +30,10 @@ export const CSL_ENTRY_TYPES = [
   'report',
   'webpage',
   'entry-dictionary',
-  'entry-encyclopedia'
+  'entry-encyclopedia',
+  'article', // preprints and other articles without a journal (@online in BibLaTeX)
+  'software',
+  'dataset'
 ] as const;
 
 export type CSLEntryType = typeof CSL_ENTRY_TYPES[number];
@@ -46,7 +49,7 @@ export const CSL_FIELD_METADATA: Record<string, CSLFieldMetadata> = {
     helpText: 'Unique identifier for this entry',
     validation: {
       minLength: 1,
-      pattern: '^[a-zA-Z][a-zA-Z0-9_-]*$'
+      pattern: '^[^\\s,{}()"#%\'=\\\\~]+$'
     }
   },
   type: {
@@ -68,14 +71,14 @@ export const CSL_FIELD_METADATA: Record<string, CSLFieldMetadata> = {
     label: 'Authors',
     type: 'authors',
     required: false,
-    helpText: 'Enter authors in the format: Given Family'
+    helpText: 'Enter authors as "Given von Family" or "von Family, Jr, Given"; paste several separated by "and"'
   },
   editor: {
     name: 'editor',
     label: 'Editors',
     type: 'authors',
     required: false,
-    helpText: 'Enter editors in the format: Given Family'
+    helpText: 'Enter editors as "Given von Family" or "von Family, Jr, Given"; paste several separated by "and"'
   },
   issued: {
     name: 'issued',
@@ -188,13 +191,63 @@ export const CSL_FIELD_METADATA: Record<string, CSLFieldMetadata> = {
     type: 'text',
     required: false,
     placeholder: 'https://example.com'
+  },
+  accessed: {
+    name: 'accessed',
+    label: 'Date Accessed',
+    type: 'date',
+    required: false,
+    placeholder: '2023-05-17',
+    helpText: 'When the URL was visited (urldate in BibLaTeX)'
+  },
+  version: {
+    name: 'version',
+    label: 'Version',
+    type: 'text',
+    required: false,
+    placeholder: '1.2.0',
+    helpText: 'Version of software or datasets'
   }
 };
 
+// Fields required for each entry type, following the BibTeX/BibLaTeX entry
+// type tables. A nested list means any one of its fields is enough.
+export const CSL_REQUIRED_FIELDS: Record<CSLEntryType, ReadonlyArray<string | readonly string[]>> = {
+  'article-journal': ['author', 'title', 'container-title', 'issued'],
+  'article-magazine': ['author', 'title', 'container-title', 'issued'],
+  'article-newspaper': ['author', 'title', 'container-title', 'issued'],
+  book: [['author', 'editor'], 'title', 'publisher', 'issued'],
+  chapter: ['author', 'title', 'container-title', 'publisher', 'issued'],
+  'paper-conference': ['author', 'title', 'container-title', 'issued'],
+  thesis: ['author', 'title', ['publisher', 'school'], 'issued'],
+  manuscript: ['author', 'title', 'note'],
+  report: ['author', 'title', ['publisher', 'institution'], 'issued'],
+  webpage: [['author', 'editor'], 'title', 'URL'],
+  'entry-dictionary': ['title', 'container-title'],
+  'entry-encyclopedia': ['title', 'container-title'],
+  article: [['author', 'editor'], 'title', 'issued'],
+  software: [['author', 'editor'], 'title'],
+  dataset: [['author', 'editor'], 'title']
+};
+
+/**
+ * Checks whether a field must be filled in for an entry type
+ * @param type CSL entry type
+ * @param field CSL field name
+ */
+export function isFieldRequired(type: string, field: string): boolean {
+  if (CSL_FIELD_METADATA[field]?.required) return true;
+  const required = CSL_REQUIRED_FIELDS[type as CSLEntryType] || [];
+  return required.some(item => (typeof item === 'string' ? item === field : item.includes(field)));
+}
+
 // CSL-JSON author object type
 export interface CSLAuthor {
   given?: string;
   family?: string;
+  'dropping-particle'?: string; // e.g. "van" in "Beethoven, Ludwig van"
+  'non-dropping-particle'?: string; // e.g. "de la" in "de la Fontaine, Jean"
+  suffix?: string; // e.g. "Jr."
   literal?: string;
 }
 
@@ -228,5 +281,7 @@ export interface CSLEntry {
   institution?: string;
   organization?: string;
   URL?: string;
+  accessed?: CSLDate;
+  version?: string;
   [key: string]: unknown; // Allow for additional CSL-JSON fields
 } 
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { areNamesCompatible, buildAuthorMergeUpdates, findAuthorClusters, getAuthorKey } from './authorIdentity';
+
+const JOHN = { family: 'Smith', given: 'John' };
+const JOHN_A = { family: 'Smith', given: 'John A.' };
+const J = { family: 'Smith', given: 'J.' };
+const JANE = { family: 'Smith', given: 'Jane' };
+
+describe('areNamesCompatible', () => {
+  it('matches initials against full given names', () => {
+    expect(areNamesCompatible(J, JOHN)).toBe(true);
+    expect(areNamesCompatible(JOHN, JOHN_A)).toBe(true);
+    expect(areNamesCompatible({ family: 'Smith', given: 'J.A.' }, JOHN_A)).toBe(true);
+    expect(areNamesCompatible({ family: 'Müller', given: 'A.' }, { family: 'Muller', given: 'Anna' })).toBe(true);
+  });
+
+  it('rejects different given names, family names and suffixes', () => {
+    expect(areNamesCompatible(JOHN, JANE)).toBe(false);
+    expect(areNamesCompatible(JOHN, { family: 'Smyth', given: 'John' })).toBe(false);
+    expect(areNamesCompatible({ ...JOHN, suffix: 'Jr.' }, { ...JOHN, suffix: 'Sr.' })).toBe(false);
+  });
+});
+
+describe('findAuthorClusters', () => {
+  it('groups the variants of one person, most complete name first', () => {
+    const [cluster, ...rest] = findAuthorClusters([
+      { id: 'a', author: [JOHN_A] },
+      { id: 'b', author: [J] },
+      { id: 'c', author: [JOHN] },
+      { id: 'd', author: [{ literal: 'Smith Group' }] }
+    ]);
+
+    expect(rest).toHaveLength(0);
+    expect(cluster.variants.map(variant => variant.key)).toEqual([JOHN_A, JOHN, J].map(getAuthorKey));
+    expect(cluster.evidence).toEqual(['initials']);
+  });
+
+  it('leaves an initial that fits two people alone', () => {
+    const clusters = findAuthorClusters([
+      { id: 'a', author: [JOHN] },
+      { id: 'b', author: [JANE] },
+      { id: 'c', author: [J] }
+    ]);
+    expect(clusters).toEqual([]);
+  });
+
+  it('follows shared co-authors when an initial fits two people', () => {
+    const coAuthor = { family: 'Roe', given: 'Richard' };
+    const [cluster] = findAuthorClusters([
+      { id: 'a', author: [JOHN, coAuthor] },
+      { id: 'b', author: [JANE] },
+      { id: 'c', author: [J, coAuthor] }
+    ]);
+    expect(cluster.variants.map(variant => variant.key)).toEqual([JOHN, J].map(getAuthorKey));
+    expect(cluster.evidence).toContain('co-authors');
+  });
+
+  it('keeps names with different Semantic Scholar IDs apart and skips rejected clusters', () => {
+    const withIds = [
+      { id: 'a', author: [JOHN], custom: { S2AuthorIDs: { [getAuthorKey(JOHN)]: '1' } } },
+      { id: 'b', author: [J], custom: { S2AuthorIDs: { [getAuthorKey(J)]: '2' } } }
+    ];
+    expect(findAuthorClusters(withIds)).toEqual([]);
+
+    const entries = [{ id: 'a', author: [JOHN] }, { id: 'b', author: [J] }];
+    const [cluster] = findAuthorClusters(entries);
+    expect(findAuthorClusters(entries, [cluster.id])).toEqual([]);
+  });
+});
+
+describe('buildAuthorMergeUpdates', () => {
+  it('rewrites variants in authors and editors and renames their author IDs', () => {
+    const updates = buildAuthorMergeUpdates([
+      { id: 'a', author: [J, JANE], custom: { S2AuthorIDs: { [getAuthorKey(J)]: '1' } } },
+      { id: 'b', editor: [{ ...JOHN, sequence: 'first' }] },
+      { id: 'c', author: [JOHN_A] }
+    ], [getAuthorKey(J), getAuthorKey(JOHN)], JOHN_A);
+
+    expect(updates).toEqual({
+      a: { author: [JOHN_A, JANE], custom: { S2AuthorIDs: { [getAuthorKey(JOHN_A)]: '1' } } },
+      b: { editor: [{ ...JOHN_A, sequence: 'first' }] }
+    });
+  });
+});
@@ -0,0 +1,239 @@
+// Author identities across name variants.
+// "J. Smith", "John Smith" and "John A. Smith" are variants of one person when
+// their family names match and their given names agree initial by initial.
+// Semantic Scholar author IDs and shared co-authors back a match up, and
+// variants that could belong to several people are left alone.
+import { CSLAuthor } from '../types/cslFieldMetadata';
+import { formatAuthors } from './cslUtils';
+
+export type AuthorMatchEvidence = 'initials' | 's2-id' | 'co-authors';
+
+export interface AuthorVariant {
+  key: string; // name as displayed, e.g. "John A. Smith"
+  name: CSLAuthor; // parts of the first occurrence
+  entryIds: string[];
+  s2AuthorIds: string[];
+  coAuthors: Set<string>; // co-author signatures, see getNameSignature
+}
+
+export interface AuthorCluster {
+  id: string; // variant keys in order, remembered when a merge is rejected
+  variants: AuthorVariant[]; // most complete name first
+  evidence: AuthorMatchEvidence[];
+  sharedCoAuthors: number; // co-authors that appear with more than one variant
+}
+
+export const AUTHOR_EVIDENCE_LABELS: Record<AuthorMatchEvidence, string> = {
+  initials: 'compatible initials',
+  's2-id': 'same Semantic Scholar author',
+  'co-authors': 'shared co-authors'
+};
+
+const NAME_FIELDS = ['author', 'editor'];
+const NAME_PART_KEYS = ['given', 'family', 'dropping-particle', 'non-dropping-particle', 'suffix'] as const;
+
+function normalizeName(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Given names as lowercase tokens; "J.R." and "JR" give two initials
+function getGivenTokens(name: CSLAuthor): string[] {
+  return (name.given || '')
+    .split(/[\s.-]+/)
+    .filter(token => token)
+    .flatMap(token => (/^\p{Lu}{2,3}$/u.test(token) ? token.split('') : [token]))
+    .map(normalizeName);
+}
+
+function isPersonalName(name: any): boolean {
+  return !name.literal && !!name.family;
+}
+
+/**
+ * Name as the identity layer displays and compares it
+ * @param name CSL name
+ */
+export function getAuthorKey(name: CSLAuthor): string {
+  return formatAuthors([name]);
+}
+
+// Family name and first initial, enough to recognise co-authors across variants
+function getNameSignature(name: CSLAuthor): string {
+  return `${normalizeName(name.family || '')}|${getGivenTokens(name)[0]?.[0] || ''}`;
+}
+
+/**
+ * Checks whether two names can belong to the same person: equal family
+ * names and given names that agree where both are written, an initial
+ * matching any name starting with it
+ * @param a First name
+ * @param b Second name
+ */
+export function areNamesCompatible(a: CSLAuthor, b: CSLAuthor): boolean {
+  if (normalizeName(a.family || '') !== normalizeName(b.family || '')) return false;
+  if (a.suffix && b.suffix && normalizeName(a.suffix) !== normalizeName(b.suffix)) return false;
+
+  const tokensA = getGivenTokens(a);
+  const tokensB = getGivenTokens(b);
+  for (let index = 0; index < Math.min(tokensA.length, tokensB.length); index++) {
+    const x = tokensA[index];
+    const y = tokensB[index];
+    const matches = x.length === 1 || y.length === 1 ? x[0] === y[0] : x === y;
+    if (!matches) return false;
+  }
+  return true;
+}
+
+/**
+ * Collects the distinct personal names of the library
+ * @param entries Library entries
+ * @returns One variant per displayed name; literal names and @STRING
+ * references are skipped
+ */
+export function collectAuthorVariants(entries: any[]): AuthorVariant[] {
+  const variants = new Map<string, AuthorVariant>();
+
+  entries.forEach(entry => {
+    const names: CSLAuthor[] = NAME_FIELDS.flatMap(field => (Array.isArray(entry[field]) ? entry[field] : []));
+    const s2AuthorIds: Record<string, string> = entry.custom?.S2AuthorIDs || {};
+
+    names.filter(isPersonalName).forEach(name => {
+      const key = getAuthorKey(name);
+      let variant = variants.get(key);
+      if (!variant) {
+        variant = { key, name, entryIds: [], s2AuthorIds: [], coAuthors: new Set() };
+        variants.set(key, variant);
+      }
+      if (!variant.entryIds.includes(entry.id)) variant.entryIds.push(entry.id);
+
+      const s2AuthorId = s2AuthorIds[key];
+      if (s2AuthorId && !variant.s2AuthorIds.includes(s2AuthorId)) variant.s2AuthorIds.push(s2AuthorId);
+
+      const ownSignature = getNameSignature(name);
+      names.filter(isPersonalName).forEach(other => {
+        const signature = getNameSignature(other);
+        if (signature !== ownSignature) variant?.coAuthors.add(signature);
+      });
+    });
+  });
+
+  return [...variants.values()];
+}
+
+// Longer given names first, then the more frequent variant
+function compareSpecificity(a: AuthorVariant, b: AuthorVariant): number {
+  const length = (variant: AuthorVariant) => getGivenTokens(variant.name).join('').length;
+  return length(b) - length(a) || b.entryIds.length - a.entryIds.length || a.key.localeCompare(b.key);
+}
+
+function countSharedCoAuthors(variants: AuthorVariant[]): number {
+  const seen = new Map<string, number>();
+  variants.forEach(variant => variant.coAuthors.forEach(signature => seen.set(signature, (seen.get(signature) || 0) + 1)));
+  return [...seen.values()].filter(count => count > 1).length;
+}
+
+/**
+ * Groups name variants that likely belong to the same person
+ * @param entries Library entries
+ * @param rejected IDs of clusters the user marked as different people
+ * @returns Clusters with at least two variants, most entries first
+ */
+export function findAuthorClusters(entries: any[], rejected: string[] = []): AuthorCluster[] {
+  const groups: AuthorVariant[][] = [];
+
+  collectAuthorVariants(entries).sort(compareSpecificity).forEach(variant => {
+    const hasSameS2Id = (group: AuthorVariant[]) => group.some(member => member.s2AuthorIds.some(id => variant.s2AuthorIds.includes(id)));
+    const sameS2Group = groups.find(hasSameS2Id);
+    if (sameS2Group) {
+      sameS2Group.push(variant);
+      return;
+    }
+
+    // Different Semantic Scholar IDs mean different people
+    const candidates = groups.filter(group => group.every(member => (
+      areNamesCompatible(member.name, variant.name) &&
+      (member.s2AuthorIds.length === 0 || variant.s2AuthorIds.length === 0)
+    )));
+
+    // A name that fits several people only joins one its co-authors point to
+    const overlap = (group: AuthorVariant[]) => countSharedCoAuthors([...group, variant]) - countSharedCoAuthors(group);
+    const ranked = candidates.map(group => ({ group, overlap: overlap(group) })).sort((a, b) => b.overlap - a.overlap);
+    if (ranked.length === 1 || (ranked.length > 1 && ranked[0].overlap > ranked[1].overlap)) {
+      ranked[0].group.push(variant);
+    } else {
+      groups.push([variant]);
+    }
+  });
+
+  return groups
+    .filter(group => group.length > 1)
+    .map(group => {
+      const variants = [...group].sort(compareSpecificity);
+      const s2Ids = new Set(variants.flatMap(variant => variant.s2AuthorIds));
+      const sharedCoAuthors = countSharedCoAuthors(variants);
+      const evidence: AuthorMatchEvidence[] = [];
+      if (variants.every(variant => areNamesCompatible(variants[0].name, variant.name))) evidence.push('initials');
+      if (s2Ids.size > 0 && variants.filter(variant => variant.s2AuthorIds.length > 0).length > 1) evidence.push('s2-id');
+      if (sharedCoAuthors > 0) evidence.push('co-authors');
+      return { id: variants.map(variant => variant.key).join('\n'), variants, evidence, sharedCoAuthors };
+    })
+    .filter(cluster => !rejected.includes(cluster.id))
+    .sort((a, b) => (
+      b.variants.reduce((sum, variant) => sum + variant.entryIds.length, 0) -
+      a.variants.reduce((sum, variant) => sum + variant.entryIds.length, 0)
+    ));
+}
+
+/**
+ * Rewrites name variants to one canonical form
+ * @param entries Library entries
+ * @param variantKeys Keys of the variants to replace
+ * @param canonical Name written instead
+ * @returns Author, editor and custom updates of the affected entries, keyed by entry ID
+ */
+export function buildAuthorMergeUpdates(
+  entries: any[],
+  variantKeys: string[],
+  canonical: CSLAuthor
+): Record<string, Record<string, any>> {
+  const canonicalKey = getAuthorKey(canonical);
+  const canonicalParts: Record<string, string> = {};
+  NAME_PART_KEYS.forEach(key => {
+    if (canonical[key]) canonicalParts[key] = canonical[key] as string;
+  });
+
+  const updates: Record<string, Record<string, any>> = {};
+  entries.forEach(entry => {
+    NAME_FIELDS.forEach(field => {
+      const names = entry[field];
+      if (!Array.isArray(names)) return;
+
+      let changed = false;
+      const merged = names.map((name: any) => {
+        if (!isPersonalName(name) || !variantKeys.includes(getAuthorKey(name)) || getAuthorKey(name) === canonicalKey) {
+          return name;
+        }
+        changed = true;
+        const rest = { ...name };
+        NAME_PART_KEYS.forEach(key => delete rest[key]);
+        return { ...rest, ...canonicalParts };
+      });
+
+      if (changed) {
+        updates[entry.id] = { ...updates[entry.id], [field]: merged };
+      }
+    });
+
+    // Semantic Scholar author IDs are kept by name, so they follow the rename
+    const s2AuthorIds: Record<string, string> | undefined = entry.custom?.S2AuthorIDs;
+    if (updates[entry.id] && s2AuthorIds && variantKeys.some(key => s2AuthorIds[key])) {
+      const renamed: Record<string, string> = {};
+      Object.entries(s2AuthorIds).forEach(([key, id]) => {
+        renamed[variantKeys.includes(key) ? canonicalKey : key] = id;
+      });
+      updates[entry.id].custom = { ...entry.custom, S2AuthorIDs: renamed };
+    }
+  });
+
+  return updates;
+}
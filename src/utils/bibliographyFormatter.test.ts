@@ -0,0 +1,28 @@
+import { formatBibliography } from './bibliographyFormatter';
+
+const ENTRY = {
+  id: 'doe2020',
+  type: 'article-journal',
+  title: 'Learning to cite',
+  author: [{ family: 'Doe', given: 'Jane' }],
+  'container-title': 'pami',
+  volume: '12',
+  page: '1-10',
+  issued: { 'date-parts': [[2020]] }
+};
+
+describe('formatBibliography', () => {
+  it('formats entries in a bundled style, resolving @STRING references', () => {
+    const text = formatBibliography([ENTRY], { style: 'apa', locale: 'en-US', format: 'text' }, { pami: 'Pattern Analysis' });
+    expect(text.trim()).toBe('Doe, J. (2020). Learning to cite. Pattern Analysis, 12, 1–10.');
+  });
+
+  it('writes HTML and complete RTF documents', () => {
+    expect(formatBibliography([ENTRY], { style: 'apa', locale: 'en-US', format: 'html' })).toContain('class="csl-entry"');
+    expect(formatBibliography([ENTRY], { style: 'apa', locale: 'en-US', format: 'rtf' })).toMatch(/^\{\\rtf1\\ansi\\deff0 /);
+  });
+
+  it('returns nothing for no entries', () => {
+    expect(formatBibliography([], { style: 'apa', locale: 'en-US', format: 'text' })).toBe('');
+  });
+});
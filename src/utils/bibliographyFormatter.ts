@@ -0,0 +1,142 @@
+// Formatted bibliographies in CSL styles.
+// Citation.js ships APA, Vancouver and Harvard and five locales; other styles
+// and locales are downloaded from the CSL repositories and registered with
+// Citation.js on first use. Uploaded .csl files are registered the same way.
+import Cite from 'citation-js';
+import { CSL_LOCALES_BASE_URL, CSL_STYLES_BASE_URL } from '../config/api';
+import { resolveEntryVariables } from './cslUtils';
+
+export type BibliographyFormat = 'html' | 'text' | 'rtf';
+
+export interface CSLStyleOption {
+  id: string; // Citation.js template name, file name in the CSL style repository
+  label: string;
+  source: 'bundled' | 'repository' | 'custom';
+}
+
+export const CSL_STYLE_OPTIONS: CSLStyleOption[] = [
+  { id: 'apa', label: 'APA 7th edition', source: 'bundled' },
+  { id: 'vancouver', label: 'Vancouver', source: 'bundled' },
+  { id: 'harvard1', label: 'Harvard', source: 'bundled' },
+  { id: 'ieee', label: 'IEEE', source: 'repository' },
+  { id: 'chicago-author-date', label: 'Chicago (author-date)', source: 'repository' },
+  { id: 'modern-language-association', label: 'MLA 9th edition', source: 'repository' },
+  { id: 'nature', label: 'Nature', source: 'repository' },
+  { id: 'american-chemical-society', label: 'American Chemical Society', source: 'repository' },
+  { id: 'association-for-computing-machinery', label: 'ACM', source: 'repository' },
+  { id: 'springer-basic-author-date', label: 'Springer (author-date)', source: 'repository' }
+];
+
+export const CSL_LOCALE_OPTIONS = [
+  { id: 'en-US', label: 'English (US)' },
+  { id: 'en-GB', label: 'English (UK)' },
+  { id: 'de-DE', label: 'Deutsch' },
+  { id: 'fr-FR', label: 'Français' },
+  { id: 'es-ES', label: 'Español' },
+  { id: 'it-IT', label: 'Italiano' },
+  { id: 'nl-NL', label: 'Nederlands' },
+  { id: 'pt-BR', label: 'Português (Brasil)' }
+];
+
+export const BIBLIOGRAPHY_FORMAT_FILES: Record<BibliographyFormat, { extension: string; mimeType: string; description: string }> = {
+  html: { extension: '.html', mimeType: 'text/html', description: 'HTML File' },
+  text: { extension: '.txt', mimeType: 'text/plain', description: 'Text File' },
+  rtf: { extension: '.rtf', mimeType: 'application/rtf', description: 'Rich Text File' }
+};
+
+function getCSLConfig() {
+  return Cite.plugins.config.get('@csl');
+}
+
+// Checks that XML content is a CSL file with the given root element
+function parseCSLDocument(xml: string, rootElement: 'style' | 'locale'): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== rootElement) {
+    throw new Error(`Not a valid CSL ${rootElement} file`);
+  }
+  return doc;
+}
+
+async function fetchCSLFile(url: string, description: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${description} (HTTP ${response.status})`);
+  }
+  return response.text();
+}
+
+/**
+ * Makes sure a style is registered with Citation.js, downloading it from the
+ * CSL style repository if needed
+ * @param styleId Style ID from CSL_STYLE_OPTIONS or a registered custom style
+ */
+export async function ensureStyle(styleId: string): Promise<void> {
+  const { templates } = getCSLConfig();
+  if (templates.has(styleId)) {
+    return;
+  }
+
+  const xml = await fetchCSLFile(`${CSL_STYLES_BASE_URL}/${styleId}.csl`, `style "${styleId}"`);
+  parseCSLDocument(xml, 'style');
+  templates.add(styleId, xml);
+}
+
+/**
+ * Makes sure a locale is registered with Citation.js, downloading it from the
+ * CSL locale repository if needed
+ * @param localeId Locale like "en-US"
+ */
+export async function ensureLocale(localeId: string): Promise<void> {
+  const { locales } = getCSLConfig();
+  if (locales.has(localeId)) {
+    return;
+  }
+
+  const xml = await fetchCSLFile(`${CSL_LOCALES_BASE_URL}/locales-${localeId}.xml`, `locale "${localeId}"`);
+  parseCSLDocument(xml, 'locale');
+  locales.add(localeId, xml);
+}
+
+/**
+ * Registers an uploaded .csl file as a style
+ * @param xml Content of the .csl file
+ * @returns Option for the registered style
+ */
+export function registerCustomStyle(xml: string): CSLStyleOption {
+  const doc = parseCSLDocument(xml, 'style');
+  const info = doc.getElementsByTagName('info')[0];
+  const title = info?.getElementsByTagName('title')[0]?.textContent?.trim() || 'Custom style';
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  const id = `custom-${slug || 'style'}`;
+  getCSLConfig().templates.add(id, xml);
+  return { id, label: title, source: 'custom' };
+}
+
+/**
+ * Formats entries as a bibliography. The style and locale must be registered
+ * first (see ensureStyle and ensureLocale).
+ * @param entries CSL entries, in the order they should be listed for numeric styles
+ * @param options Style, locale and output format
+ * @param variables @STRING variables used to resolve macro references
+ * @returns Bibliography as HTML, plain text or an RTF document
+ */
+export function formatBibliography(
+  entries: any[],
+  options: { style: string; locale: string; format: BibliographyFormat },
+  variables: Record<string, string> = {}
+): string {
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const resolved = entries.map(entry => resolveEntryVariables(entry, variables));
+  const output = new Cite(resolved).format('bibliography', {
+    format: options.format,
+    template: options.style,
+    lang: options.locale
+  });
+
+  // citeproc-js only writes an RTF fragment; add the header word processors expect
+  return options.format === 'rtf' ? output.replace(/^\{\\rtf /, '{\\rtf1\\ansi\\deff0 ') : output;
+}
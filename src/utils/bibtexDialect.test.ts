@@ -0,0 +1,59 @@
+import { applyDialect, recoverDialectFields } from './bibtexDialect';
+import { parseBibTeX } from './bibtexParser';
+
+const SOURCE = `@STRING{arxiv = {arXiv}}
+@online{doe2020,
+  title = {A Preprint},
+  eprint = {2001.00001},
+  eprinttype = arxiv,
+  eprintclass = {cs.LG},
+  ids = {doe-2020},
+}
+@article{roe2021,
+  title = {An Article},
+  archiveprefix = {arXiv},
+  primaryclass = {math.CO},
+  crossref = {proc2021},
+}`;
+
+describe('recoverDialectFields', () => {
+  it('keeps the fields of either dialect in entry.custom', () => {
+    const entries: any[] = [{ id: 'doe2020' }, { id: 'roe2021', custom: { note: 'kept' } }];
+    recoverDialectFields(entries, parseBibTeX(SOURCE), { arxiv: 'arXiv' });
+
+    expect(entries[0].custom).toEqual({ eprint: '2001.00001', eprinttype: 'arXiv', eprintclass: 'cs.LG', ids: 'doe-2020' });
+    expect(entries[1].custom).toEqual({ note: 'kept', eprinttype: 'arXiv', eprintclass: 'math.CO', crossref: 'proc2021' });
+  });
+});
+
+describe('applyDialect', () => {
+  const entry = {
+    id: 'doe2020',
+    type: 'article',
+    accessed: { 'date-parts': [[2024, 1, 2]] },
+    custom: { eprint: '2001.00001', eprinttype: 'arXiv', ids: 'doe-2020' }
+  };
+  const bibtex = '@article{doe2020,\n\ttitle = {A Preprint},\n\tnote = {[Online; accessed 2024-01-02]},\n}';
+
+  it('writes BibLaTeX types, e-print fields and aliases', () => {
+    const result = applyDialect(bibtex, entry, 'biblatex');
+    expect(result).toMatch(/^@online\{doe2020,/);
+    expect(result).toMatch(/eprint = \{2001\.00001\}/);
+    expect(result).toMatch(/eprinttype = \{arXiv\}/);
+    expect(result).toMatch(/ids = \{doe-2020\}/);
+    expect(result).not.toContain('[Online; accessed');
+  });
+
+  it('writes the BibTeX names and leaves out aliases', () => {
+    const result = applyDialect(bibtex, entry, 'bibtex');
+    expect(result).toMatch(/^@misc\{doe2020,/);
+    expect(result).toMatch(/archiveprefix = \{arXiv\}/);
+    expect(result).not.toMatch(/eprinttype|ids =/);
+    expect(result).toContain('[Online; accessed');
+  });
+
+  it('keeps fields Citation.js already wrote', () => {
+    const written = '@online{doe2020,\n\teprint = {other},\n}';
+    expect(applyDialect(written, { ...entry, accessed: undefined }, 'biblatex').match(/eprint = /g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,95 @@
+// BibTeX and BibLaTeX dialects.
+// Citation.js writes both dialects, but drops the e-print fields, entry
+// aliases (ids) and crossref links on import and has no BibLaTeX types for
+// preprints. Those fields are kept in `entry.custom` and written back in the
+// dialect chosen on export.
+import { BibTeXBlock, evaluateBibTeXValue } from './bibtexParser';
+import { injectBibTeXField } from './semanticScholarConverter';
+
+export type BibTeXDialect = 'bibtex' | 'biblatex';
+
+// Entry types written for CSL types Citation.js maps poorly, per dialect
+export const DIALECT_TYPE_OVERRIDES: Record<BibTeXDialect, Record<string, string>> = {
+  bibtex: {
+    'article': 'misc',
+    'software': 'misc',
+    'dataset': 'misc'
+  },
+  biblatex: {
+    'article': 'online',
+    'webpage': 'online',
+    'software': 'software',
+    'dataset': 'dataset',
+    'report': 'report'
+  }
+};
+
+// Fields kept in entry.custom, with their name in each dialect
+const DIALECT_FIELDS: Array<{ custom: string; bibtex?: string; biblatex: string }> = [
+  { custom: 'eprint', bibtex: 'eprint', biblatex: 'eprint' },
+  { custom: 'eprinttype', bibtex: 'archiveprefix', biblatex: 'eprinttype' },
+  { custom: 'eprintclass', bibtex: 'primaryclass', biblatex: 'eprintclass' },
+  { custom: 'ids', biblatex: 'ids' }, // Entry aliases only exist in BibLaTeX
+  { custom: 'crossref', bibtex: 'crossref', biblatex: 'crossref' }
+];
+
+// Note Citation.js adds for the access date, redundant next to urldate
+const ACCESSED_NOTE_PATTERN = /^\s*note = \{\[Online; accessed [^\]]*\]\},?$/;
+
+/**
+ * Copies the e-print fields, entry aliases and crossref links of imported
+ * BibTeX/BibLaTeX entries into `entry.custom`, since Citation.js drops them
+ * @param entries CSL entries Citation.js produced (modified in place)
+ * @param blocks Parsed BibTeX blocks of the same source
+ * @param variables @STRING variables of the source
+ */
+export function recoverDialectFields(entries: any[], blocks: BibTeXBlock[], variables: Record<string, string>): void {
+  const entriesByKey = new Map<string, any>();
+  entries.forEach(entry => entriesByKey.set(entry['citation-key'] || entry.id, entry));
+
+  blocks.forEach(block => {
+    if (block.kind !== 'entry') return;
+    const entry = entriesByKey.get(block.key);
+    if (!entry) return;
+
+    block.fields.forEach(field => {
+      const mapping = DIALECT_FIELDS.find(item => item.biblatex === field.name || item.bibtex === field.name);
+      if (!mapping) return;
+      const value = evaluateBibTeXValue(field.parts, variables).trim();
+      if (value) {
+        entry.custom = { ...entry.custom, [mapping.custom]: value };
+      }
+    });
+  });
+}
+
+/**
+ * Adapts a Citation.js BibTeX block to a dialect: sets the entry type and
+ * writes the fields kept in `entry.custom`
+ * @param bibtex BibTeX block of a single entry, formatted in the same dialect
+ * @param entry CSL entry the block was generated from
+ * @param dialect Target dialect
+ * @returns Adapted BibTeX block
+ */
+export function applyDialect(bibtex: string, entry: any, dialect: BibTeXDialect): string {
+  let result = bibtex;
+
+  const type = DIALECT_TYPE_OVERRIDES[dialect][entry.type];
+  if (type) {
+    result = result.replace(/^@[^{]+\{/, `@${type}{`);
+  }
+
+  if (dialect === 'biblatex' && entry.accessed) {
+    result = result.split('\n').filter(line => !ACCESSED_NOTE_PATTERN.test(line)).join('\n');
+  }
+
+  DIALECT_FIELDS.forEach(mapping => {
+    const name = mapping[dialect];
+    const value = entry.custom?.[mapping.custom];
+    if (name && value && !new RegExp(`^\\s*${name} = `, 'm').test(result)) {
+      result = injectBibTeXField(result, name, String(value));
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,101 @@
+import { formatBibTeXName, parseBibTeXName, parseBibTeXNameList, parseLastFirstName, reparseEntryNames } from './bibtexNames';
+
+describe('parseBibTeXName', () => {
+  it('reads the "First von Last" form', () => {
+    expect(parseBibTeXName('Ludwig van Beethoven')).toEqual({
+      given: 'Ludwig',
+      'non-dropping-particle': 'van',
+      family: 'Beethoven'
+    });
+    expect(parseBibTeXName('Martin Luther King Jr.')).toEqual({
+      given: 'Martin Luther',
+      family: 'King',
+      suffix: 'Jr.'
+    });
+  });
+
+  it('reads the "von Last, First" and "von Last, Jr, First" forms', () => {
+    expect(parseBibTeXName('de la Fontaine, Jean')).toEqual({
+      given: 'Jean',
+      'non-dropping-particle': 'de la',
+      family: 'Fontaine'
+    });
+    expect(parseBibTeXName('Beethoven, Ludwig van')).toEqual({
+      given: 'Ludwig',
+      'dropping-particle': 'van',
+      family: 'Beethoven'
+    });
+    expect(parseBibTeXName('King, Jr., Martin Luther')).toEqual({
+      given: 'Martin Luther',
+      family: 'King',
+      suffix: 'Jr.'
+    });
+  });
+
+  it('keeps braced groups whole and decodes LaTeX', () => {
+    expect(parseBibTeXName('{Barnes and Noble, Inc.}')).toEqual({ family: 'Barnes and Noble, Inc.' });
+    expect(parseBibTeXName('Kurt G{\\"o}del')).toEqual({ given: 'Kurt', family: 'Gödel' });
+    expect(parseBibTeXName('{\\"O}zt{\\"u}rk, Ay{\\c{s}}e')).toEqual({ given: 'Ayşe', family: 'Öztürk' });
+  });
+});
+
+describe('parseBibTeXNameList', () => {
+  it('splits at top-level "and"', () => {
+    expect(parseBibTeXNameList('Doe, Jane and {Barnes and Noble} and Richard Roe')).toEqual([
+      { given: 'Jane', family: 'Doe' },
+      { family: 'Barnes and Noble' },
+      { given: 'Richard', family: 'Roe' }
+    ]);
+  });
+});
+
+describe('parseLastFirstName', () => {
+  it('reads the "Last, First, Suffix" form of RIS and EndNote', () => {
+    expect(parseLastFirstName('van Beethoven, Ludwig')).toEqual(parseBibTeXName('Ludwig van Beethoven'));
+    expect(parseLastFirstName('King, Martin Luther, Jr.')).toEqual({ given: 'Martin Luther', family: 'King', suffix: 'Jr.' });
+    expect(parseLastFirstName('Jane Doe')).toEqual({ given: 'Jane', family: 'Doe' });
+  });
+});
+
+describe('formatBibTeXName', () => {
+  it('writes names that parse back to the same parts', () => {
+    const names = [
+      { given: 'Martin Luther', family: 'King', suffix: 'Jr.' },
+      { given: 'Jean', 'non-dropping-particle': 'de la', family: 'Fontaine' },
+      { given: 'Ludwig', 'dropping-particle': 'van', family: 'Beethoven' },
+      { family: 'Barnes and Noble, Inc.' }
+    ];
+    names.forEach(name => expect(parseBibTeXName(formatBibTeXName(name))).toEqual(name));
+  });
+});
+
+describe('reparseEntryNames', () => {
+  it('agrees with parsing the full name', () => {
+    const updates = reparseEntryNames([{
+      id: 'a',
+      author: [
+        { family: 'King', given: 'Martin Luther Jr.' },
+        { family: 'Jr.', given: 'Martin Luther King' },
+        { family: 'Beethoven', given: 'Ludwig van' }
+      ]
+    }]);
+
+    expect(updates.a.author).toEqual([
+      parseBibTeXName('Martin Luther King Jr.'),
+      parseBibTeXName('Martin Luther King Jr.'),
+      parseBibTeXName('Ludwig van Beethoven')
+    ]);
+  });
+
+  it('leaves compound family names, literals and correct names alone', () => {
+    expect(reparseEntryNames([{
+      id: 'a',
+      author: [
+        { family: 'García Márquez', given: 'Gabriel' },
+        { literal: 'World Health Organization' },
+        { family: 'Knuth', given: 'Donald E.' }
+      ],
+      editor: [{ family: 'Smith', given: 'John', suffix: 'Esq.' }]
+    }])).toEqual({});
+  });
+});
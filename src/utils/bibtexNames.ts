@@ -0,0 +1,224 @@
+// Personal name parsing with the BibTeX rules.
+// A name is written as "First von Last", "von Last, First" or
+// "von Last, Jr, First". The von part is the run of words starting in
+// lowercase, and braced groups are never split, so "{Barnes and Noble, Inc.}"
+// stays one family name.
+import { CSLAuthor } from '../types/cslFieldMetadata';
+import { splitTextOnAnd } from './bibtexParser';
+import { latexToUnicode } from './latexUnicode';
+
+// Generational suffixes written without a comma, as in "Martin Luther King Jr."
+const SUFFIX_PATTERN = /^(?:[JS]r|[JS]nr)\.?$|^(?:II|III|IV)$/;
+
+type NamePartKey = 'given' | 'family' | 'dropping-particle' | 'non-dropping-particle' | 'suffix';
+
+const NAME_PART_KEYS: NamePartKey[] = ['given', 'family', 'dropping-particle', 'non-dropping-particle', 'suffix'];
+
+// Splits a name into its comma-separated parts, each a list of words
+function splitNameParts(name: string): string[][] {
+  const parts: string[][] = [[]];
+  let word = '';
+  let depth = 0;
+  const endWord = () => {
+    if (word) parts[parts.length - 1].push(word);
+    word = '';
+  };
+
+  for (const char of name) {
+    if (char === '{') depth++;
+    else if (char === '}') depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && (/\s/.test(char) || char === '~')) {
+      endWord();
+    } else if (depth === 0 && char === ',') {
+      endWord();
+      parts.push([]);
+    } else {
+      word += char;
+    }
+  }
+  endWord();
+  return parts;
+}
+
+// BibTeX takes the case of a word from its first letter outside braces,
+// looking into accents like {\"u}; words without such a letter count as uppercase
+function isLowercaseWord(word: string): boolean {
+  let depth = 0;
+  for (let index = 0; index < word.length; index++) {
+    const char = word[index];
+    if (depth === 0 && (char === '\\' || (char === '{' && word[index + 1] === '\\'))) {
+      const letter = /\p{L}/u.exec(latexToUnicode(word.slice(index)));
+      return !!letter && /\p{Ll}/u.test(letter[0]);
+    }
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (depth === 0 && /\p{L}/u.test(char)) return /\p{Ll}/u.test(char);
+  }
+  return false;
+}
+
+/**
+ * Parses a single name with the BibTeX rules
+ * @param name Name in one of the BibTeX forms, may contain LaTeX
+ * @returns CSL name with the von part as non-dropping particle and lowercase
+ * words after the given names (as in "Beethoven, Ludwig van") as dropping particle
+ */
+export function parseBibTeXName(name: string): CSLAuthor {
+  const parts = splitNameParts(name.trim());
+  let first: string[] = [];
+  let von: string[] = [];
+  let last: string[] = [];
+  let jr: string[] = [];
+  const dropping: string[] = [];
+
+  if (parts.length === 1) {
+    const words = [...parts[0]];
+    if (words.length > 2 && SUFFIX_PATTERN.test(words[words.length - 1])) {
+      jr = words.splice(-1);
+    }
+    // The last word is always part of the family name
+    const lowercase = words.slice(0, -1).map(isLowercaseWord);
+    const start = lowercase.indexOf(true);
+    const end = lowercase.lastIndexOf(true);
+    if (start === -1) {
+      first = words.slice(0, -1);
+      last = words.slice(-1);
+    } else {
+      first = words.slice(0, start);
+      von = words.slice(start, end + 1);
+      last = words.slice(end + 1);
+    }
+  } else {
+    const words = parts[0];
+    const end = words.slice(0, -1).map(isLowercaseWord).lastIndexOf(true);
+    von = words.slice(0, end + 1);
+    last = words.slice(end + 1);
+    jr = parts.length > 2 ? parts[1] : [];
+    first = parts.slice(parts.length > 2 ? 2 : 1).flat();
+    while (first.length > 1 && isLowercaseWord(first[first.length - 1])) {
+      dropping.unshift(first.pop() as string);
+    }
+  }
+
+  const author: CSLAuthor = {};
+  const values: Record<NamePartKey, string[]> = {
+    given: first,
+    family: last,
+    'dropping-particle': dropping,
+    'non-dropping-particle': von,
+    suffix: jr
+  };
+  NAME_PART_KEYS.forEach(key => {
+    const value = latexToUnicode(values[key].join(' ')).trim();
+    if (value) author[key] = value;
+  });
+  return author;
+}
+
+/**
+ * Parses a name in the "Last, First, Suffix" form of RIS and EndNote with the
+ * BibTeX rules, so particles are recognized as in BibTeX imports
+ * @param name Name as written in the RIS or EndNote record
+ * @returns CSL name
+ */
+export function parseLastFirstName(name: string): CSLAuthor {
+  const [last, first, ...rest] = name.split(',').map(part => part.trim());
+  const suffix = rest.filter(Boolean).join(', ');
+  // BibTeX writes the suffix before the given names
+  return parseBibTeXName(suffix ? [last, suffix, first || ''].join(', ') : [last, first].filter(Boolean).join(', '));
+}
+
+/**
+ * Parses a BibTeX name list
+ * @param text Names separated by " and "
+ * @returns One CSL name per non-empty name
+ */
+export function parseBibTeXNameList(text: string): CSLAuthor[] {
+  return splitTextOnAnd(text)
+    .map(name => name.trim())
+    .filter(name => name)
+    .map(parseBibTeXName);
+}
+
+/**
+ * Writes a CSL name in the "von Last, Jr, First" form, which parses back to
+ * the same parts
+ * @param author CSL name
+ * @returns BibTeX name, or the literal of a literal name
+ */
+export function formatBibTeXName(author: CSLAuthor): string {
+  if (author.literal) return author.literal;
+
+  const first = [author.given, author['dropping-particle']].filter(Boolean).join(' ');
+  let family = author.family || '';
+  // Family names the parser would split are kept whole in braces
+  if (/,|\s+and\s+/i.test(family) || (!first && !author['non-dropping-particle'] && /\s/.test(family))) {
+    family = `{${family}}`;
+  }
+  const last = [author['non-dropping-particle'], family].filter(Boolean).join(' ');
+  return [last, author.suffix, first].filter(Boolean).join(', ');
+}
+
+// Full name a stored name is re-parsed from, in "First von Last Jr" order so
+// it reads as the name would have been typed. A suffix left at the end of the
+// given names moves behind the family name; a family name of several
+// capitalized words is braced so it stays whole. Suffixes the parser would not
+// recognize in that order keep the comma form.
+function getNameSource(author: CSLAuthor): string {
+  if (author.suffix && !SUFFIX_PATTERN.test(author.suffix)) {
+    return formatBibTeXName(author);
+  }
+
+  const given = (author.given || '').split(/\s+/).filter(Boolean);
+  let suffix = author.suffix;
+  if (!suffix && given.length > 1 && SUFFIX_PATTERN.test(given[given.length - 1])) {
+    suffix = given.pop();
+  }
+
+  let family = author.family || '';
+  const familyWords = family.split(/\s+/);
+  if (/,/.test(family) || (familyWords.length > 1 && !isLowercaseWord(familyWords[0]))) {
+    family = `{${family}}`;
+  }
+
+  return [...given, author['dropping-particle'], author['non-dropping-particle'], family, suffix]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Re-parses the personal names of entries with the BibTeX rules, fixing
+ * particles and suffixes that ended up in the given or family name
+ * @param entries Entries to check
+ * @returns Author and editor updates of the entries whose names change,
+ * keyed by entry ID
+ */
+export function reparseEntryNames(entries: any[]): Record<string, Record<string, CSLAuthor[]>> {
+  const updates: Record<string, Record<string, CSLAuthor[]>> = {};
+
+  entries.forEach(entry => {
+    ['author', 'editor'].forEach(field => {
+      const names = entry[field];
+      if (!Array.isArray(names)) return;
+
+      let changed = false;
+      const reparsed = names.map((author: any) => {
+        if (author.literal || (!author.family && !author.given)) return author;
+        const parsed = parseBibTeXName(getNameSource(author));
+        if (NAME_PART_KEYS.every(key => (author[key] || undefined) === parsed[key])) return author;
+
+        changed = true;
+        const rest = { ...author };
+        NAME_PART_KEYS.forEach(key => delete rest[key]);
+        return { ...rest, ...parsed };
+      });
+
+      if (changed) {
+        updates[entry.id] = { ...updates[entry.id], [field]: reparsed };
+      }
+    });
+  });
+
+  return updates;
+}
@@ -0,0 +1,123 @@
+import {
+  evaluateBibTeXValue,
+  extractStringVariables,
+  linkMacroReferences,
+  parseBibTeX,
+  splitTextOnAnd
+} from './bibtexParser';
+
+const SOURCE = `% Library header
+@STRING{pami = {IEEE Transactions on Pattern Analysis and Machine Intelligence}}
+@STRING{ieee = "IEEE"}
+@STRING{both = pami # { and } # ieee}
+@comment{kept as is}
+@article{doe2020,
+  author = {Doe, Jane and {Barnes and Noble, Inc.}},
+  title = {A Title},
+  journal = pami,
+  month = mar,
+  year = 2020
+}
+`;
+
+describe('parseBibTeX', () => {
+  it('splits the source into blocks that rebuild it exactly', () => {
+    const blocks = parseBibTeX(SOURCE);
+    expect(blocks.map(block => block.kind)).toEqual([
+      'text', 'string', 'text', 'string', 'text', 'string', 'text', 'comment', 'text', 'entry', 'text'
+    ]);
+    expect(blocks.map(block => block.raw).join('')).toBe(SOURCE);
+  });
+
+  it('reads entry fields with macros, text and numbers', () => {
+    const entry = parseBibTeX(SOURCE).find(block => block.kind === 'entry');
+    expect(entry).toMatchObject({ kind: 'entry', type: 'article', key: 'doe2020' });
+    if (entry?.kind !== 'entry') return;
+
+    const fields = Object.fromEntries(entry.fields.map(field => [field.name, field.parts]));
+    expect(fields.journal).toEqual([{ kind: 'macro', name: 'pami' }]);
+    expect(fields.title).toEqual([{ kind: 'text', value: 'A Title', delimiter: 'brace' }]);
+    expect(fields.year).toEqual([{ kind: 'text', value: '2020', delimiter: 'number' }]);
+  });
+
+  it('keeps unparseable blocks as text', () => {
+    const blocks = parseBibTeX('@article{broken, title = {unclosed}\n');
+    expect(blocks.map(block => block.kind)).toEqual(['text']);
+  });
+});
+
+describe('extractStringVariables', () => {
+  it('expands variables defined from earlier ones', () => {
+    expect(extractStringVariables(parseBibTeX(SOURCE))).toEqual({
+      pami: 'IEEE Transactions on Pattern Analysis and Machine Intelligence',
+      ieee: 'IEEE',
+      both: 'IEEE Transactions on Pattern Analysis and Machine Intelligence and IEEE'
+    });
+  });
+});
+
+describe('evaluateBibTeXValue', () => {
+  it('expands month macros and keeps unknown macro names', () => {
+    expect(evaluateBibTeXValue([
+      { kind: 'macro', name: 'mar' },
+      { kind: 'text', value: ' / ', delimiter: 'quote' },
+      { kind: 'macro', name: 'unknown' }
+    ], {})).toBe('March / unknown');
+  });
+
+  it('looks up macro names case-insensitively', () => {
+    expect(evaluateBibTeXValue([{ kind: 'macro', name: 'acm' }], { ACM: 'Association for Computing Machinery' }))
+      .toBe('Association for Computing Machinery');
+  });
+});
+
+describe('splitTextOnAnd', () => {
+  it('splits names at top-level "and" only', () => {
+    expect(splitTextOnAnd('Doe, Jane and {Barnes and Noble, Inc.} AND Roe, R.')).toEqual([
+      'Doe, Jane',
+      '{Barnes and Noble, Inc.}',
+      'Roe, R.'
+    ]);
+  });
+});
+
+describe('linkMacroReferences', () => {
+  it('replaces expanded values with the macro key', () => {
+    const blocks = parseBibTeX(SOURCE);
+    const variables = extractStringVariables(blocks);
+    const entries = [{
+      id: 'doe2020',
+      'citation-key': 'doe2020',
+      'container-title': variables.pami
+    }];
+
+    linkMacroReferences(entries, blocks, variables);
+    expect(entries[0]['container-title']).toBe('pami');
+  });
+
+  it('links names consisting of a lone macro', () => {
+    const source = '@STRING{org = {World Health Organization}}\n@report{who, author = org # " and " # {Doe, Jane}}';
+    const blocks = parseBibTeX(source);
+    const entries: any[] = [{
+      id: 'who',
+      author: [{ literal: 'World Health Organization' }, { family: 'Doe', given: 'Jane' }]
+    }];
+
+    linkMacroReferences(entries, blocks, extractStringVariables(blocks));
+    expect(entries[0].author).toEqual([{ literal: 'org' }, { family: 'Doe', given: 'Jane' }]);
+  });
+
+  it('links macros written in a different case to the defined variable', () => {
+    const source = '@STRING{ACM = {Communications of the ACM}}\n@STRING{Org = {ACM}}\n@article{a, author = ORG, journal = acm}';
+    const blocks = parseBibTeX(source);
+    const entries: any[] = [{
+      id: 'a',
+      author: [{ literal: 'ACM' }],
+      'container-title': 'Communications of the ACM'
+    }];
+
+    linkMacroReferences(entries, blocks, extractStringVariables(blocks));
+    expect(entries[0]['container-title']).toBe('ACM');
+    expect(entries[0].author).toEqual([{ literal: 'Org' }]);
+  });
+});
@@ -0,0 +1,389 @@
+// Lightweight BibTeX pre-parser.
+// Citation.js expands @STRING macros while parsing, so the information which
+// fields referenced a macro is lost. This parser reads the raw source into
+// blocks so macro definitions and references can be recovered afterwards.
+import { latexToUnicode } from './latexUnicode';
+
+export type BibTeXValuePart =
+  | { kind: 'macro'; name: string }
+  | { kind: 'text'; value: string; delimiter: 'brace' | 'quote' | 'number' };
+
+export interface BibTeXField {
+  name: string; // lowercased field name
+  parts: BibTeXValuePart[];
+  raw: string; // source text from the field name to the end of its value
+}
+
+export type BibTeXBlock =
+  | { kind: 'string'; key: string; parts: BibTeXValuePart[]; raw: string }
+  | { kind: 'entry'; type: string; key: string; fields: BibTeXField[]; raw: string }
+  | { kind: 'comment'; raw: string }
+  | { kind: 'preamble'; raw: string }
+  | { kind: 'text'; raw: string }; // anything outside of @-blocks (implicit comments, whitespace)
+
+// Predefined month macros known to every BibTeX style
+export const BIBTEX_MONTH_MACROS: Record<string, string> = {
+  jan: 'January',
+  feb: 'February',
+  mar: 'March',
+  apr: 'April',
+  may: 'May',
+  jun: 'June',
+  jul: 'July',
+  aug: 'August',
+  sep: 'September',
+  oct: 'October',
+  nov: 'November',
+  dec: 'December'
+};
+
+// BibTeX fields whose value Citation.js copies into a CSL text field
+export const BIBTEX_TO_CSL_TEXT_FIELD: Record<string, string> = {
+  journal: 'container-title',
+  journaltitle: 'container-title',
+  booktitle: 'container-title',
+  publisher: 'publisher',
+  school: 'publisher',
+  institution: 'publisher',
+  organization: 'publisher',
+  howpublished: 'publisher',
+  address: 'publisher-place',
+  location: 'publisher-place',
+  series: 'collection-title',
+  note: 'note'
+};
+
+export const BIBTEX_NAME_FIELDS = ['author', 'editor'];
+
+const IDENTIFIER_PATTERN = /[^\s"#%'(),={}]/;
+
+class BibTeXReader {
+  pos = 0;
+
+  constructor(readonly input: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  peek(): string {
+    return this.input[this.pos];
+  }
+
+  skipWhitespace(): void {
+    while (!this.done && /\s/.test(this.peek())) {
+      this.pos++;
+    }
+  }
+
+  readIdentifier(): string {
+    const start = this.pos;
+    while (!this.done && IDENTIFIER_PATTERN.test(this.peek())) {
+      this.pos++;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  // Reads a {...} group and returns its content without the outer braces
+  readBraced(): string {
+    const start = ++this.pos;
+    let depth = 1;
+    while (!this.done) {
+      const char = this.input[this.pos++];
+      if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        return this.input.slice(start, this.pos - 1);
+      }
+    }
+    throw new Error(`Unbalanced braces starting at offset ${start - 1}`);
+  }
+
+  // Reads a "..." string; quotes nested in braces do not terminate it
+  readQuoted(): string {
+    const start = ++this.pos;
+    let depth = 0;
+    while (!this.done) {
+      const char = this.input[this.pos++];
+      if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      } else if (char === '"' && depth === 0) {
+        return this.input.slice(start, this.pos - 1);
+      }
+    }
+    throw new Error(`Unterminated quoted string starting at offset ${start - 1}`);
+  }
+
+  readValue(): BibTeXValuePart[] {
+    const parts: BibTeXValuePart[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.peek();
+      if (char === '{') {
+        parts.push({ kind: 'text', value: this.readBraced(), delimiter: 'brace' });
+      } else if (char === '"') {
+        parts.push({ kind: 'text', value: this.readQuoted(), delimiter: 'quote' });
+      } else {
+        const identifier = this.readIdentifier();
+        if (!identifier) {
+          throw new Error(`Expected a value at offset ${this.pos}`);
+        }
+        parts.push(/^\d+$/.test(identifier)
+          ? { kind: 'text', value: identifier, delimiter: 'number' }
+          : { kind: 'macro', name: identifier });
+      }
+      this.skipWhitespace();
+      if (this.peek() !== '#') {
+        return parts;
+      }
+      this.pos++;
+    }
+  }
+}
+
+// Finds the end of an @-block body opened with "{" or "(" at the given offset
+function findBlockEnd(input: string, openPos: number): number {
+  const close = input[openPos] === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = openPos + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === close && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseStringBody(body: string, raw: string): BibTeXBlock {
+  const reader = new BibTeXReader(body);
+  reader.skipWhitespace();
+  const key = reader.readIdentifier();
+  reader.skipWhitespace();
+  if (!key || reader.peek() !== '=') {
+    throw new Error('Malformed @STRING definition');
+  }
+  reader.pos++;
+  return { kind: 'string', key, parts: reader.readValue(), raw };
+}
+
+function parseEntryBody(type: string, body: string, raw: string): BibTeXBlock {
+  const reader = new BibTeXReader(body);
+  reader.skipWhitespace();
+  const keyStart = reader.pos;
+  while (!reader.done && reader.peek() !== ',') {
+    reader.pos++;
+  }
+  const key = body.slice(keyStart, reader.pos).trim();
+  const fields: BibTeXField[] = [];
+
+  while (!reader.done) {
+    reader.pos++; // skip the separating comma
+    reader.skipWhitespace();
+    if (reader.done) break; // trailing comma
+
+    const fieldStart = reader.pos;
+    const name = reader.readIdentifier().toLowerCase();
+    reader.skipWhitespace();
+    if (!name || reader.peek() !== '=') {
+      throw new Error(`Malformed field in entry "${key}"`);
+    }
+    reader.pos++;
+    const parts = reader.readValue();
+    fields.push({ name, parts, raw: body.slice(fieldStart, reader.pos).trimEnd() });
+    reader.skipWhitespace();
+  }
+
+  return { kind: 'entry', type, key, fields, raw };
+}
+
+/**
+ * Splits BibTeX source into blocks, keeping the raw text of each block.
+ * Blocks that cannot be parsed are kept as plain text so nothing is lost.
+ * @param content BibTeX source
+ * @returns Blocks in source order
+ */
+export function parseBibTeX(content: string): BibTeXBlock[] {
+  const blocks: BibTeXBlock[] = [];
+  let textStart = 0;
+  let pos = content.indexOf('@');
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      blocks.push({ kind: 'text', raw: content.slice(textStart, end) });
+    }
+  };
+
+  while (pos !== -1) {
+    const reader = new BibTeXReader(content);
+    reader.pos = pos + 1;
+    reader.skipWhitespace();
+    const type = reader.readIdentifier().toLowerCase();
+    reader.skipWhitespace();
+    const openPos = reader.pos;
+    const opener = content[openPos];
+    const endPos = type && (opener === '{' || opener === '(') ? findBlockEnd(content, openPos) : -1;
+
+    if (endPos === -1) {
+      pos = content.indexOf('@', pos + 1);
+      continue;
+    }
+
+    const raw = content.slice(pos, endPos + 1);
+    const body = content.slice(openPos + 1, endPos);
+    let block: BibTeXBlock;
+    try {
+      if (type === 'comment') {
+        block = { kind: 'comment', raw };
+      } else if (type === 'preamble') {
+        block = { kind: 'preamble', raw };
+      } else if (type === 'string') {
+        block = parseStringBody(body, raw);
+      } else {
+        block = parseEntryBody(type, body, raw);
+      }
+    } catch (error) {
+      console.warn(`Could not pre-parse BibTeX block at offset ${pos}:`, error instanceof Error ? error.message : String(error));
+      block = { kind: 'text', raw };
+    }
+
+    pushText(pos);
+    blocks.push(block);
+    textStart = endPos + 1;
+    pos = content.indexOf('@', textStart);
+  }
+
+  pushText(content.length);
+  return blocks;
+}
+
+// Finds the @STRING variable a macro refers to. BibTeX compares macro
+// names case-insensitively, so "acm" refers to @STRING{ACM = ...}.
+function findVariableKey(name: string, variables: Record<string, string>): string | undefined {
+  if (name in variables) return name;
+  const lowerName = name.toLowerCase();
+  return Object.keys(variables).find(key => key.toLowerCase() === lowerName);
+}
+
+/**
+ * Evaluates a BibTeX value expression to plain text
+ * @param parts Value parts joined with "#" in the source
+ * @param variables Known @STRING variables for macro expansion
+ * @returns Concatenated value
+ */
+export function evaluateBibTeXValue(parts: BibTeXValuePart[], variables: Record<string, string>): string {
+  return parts.map(part => {
+    if (part.kind === 'text') {
+      return part.value;
+    }
+    const key = findVariableKey(part.name, variables);
+    return (key !== undefined ? variables[key] : undefined) ?? BIBTEX_MONTH_MACROS[part.name.toLowerCase()] ?? part.name;
+  }).join('');
+}
+
+/**
+ * Collects all @STRING definitions in source order
+ * @param blocks Parsed BibTeX blocks
+ * @returns Variables keyed by macro name
+ */
+export function extractStringVariables(blocks: BibTeXBlock[]): Record<string, string> {
+  const variables: Record<string, string> = {};
+  blocks.forEach(block => {
+    if (block.kind === 'string') {
+      variables[block.key] = evaluateBibTeXValue(block.parts, variables);
+    }
+  });
+  return variables;
+}
+
+// Splits text at top-level " and " separators (ignoring those inside braces)
+export function splitTextOnAnd(text: string): string[] {
+  const segments: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (depth === 0 && /\s/.test(char)) {
+      const match = /^\s+and\s+/i.exec(text.slice(i));
+      if (match) {
+        segments.push(text.slice(start, i));
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  segments.push(text.slice(start));
+  return segments;
+}
+
+// Returns, per name in a name list, the macro key if that name is a lone macro reference
+function getNameMacros(parts: BibTeXValuePart[]): Array<string | null> {
+  const names: BibTeXValuePart[][] = [[]];
+  parts.forEach(part => {
+    if (part.kind === 'macro') {
+      names[names.length - 1].push(part);
+      return;
+    }
+    splitTextOnAnd(part.value).forEach((segment, index) => {
+      if (index > 0) names.push([]);
+      if (segment.trim()) {
+        names[names.length - 1].push({ ...part, value: segment });
+      }
+    });
+  });
+
+  return names
+    .filter(name => name.length > 0)
+    .map(name => (name.length === 1 && name[0].kind === 'macro' ? name[0].name : null));
+}
+
+/**
+ * Restores @STRING references in CSL entries produced by Citation.js.
+ * Names that consisted of a lone macro become `{ literal: key }`, text fields
+ * that consisted of a lone macro hold the macro key, mirroring how author
+ * variables are stored elsewhere in the app.
+ * @param entries CSL entries parsed from the same source (modified in place)
+ * @param blocks Pre-parsed BibTeX blocks
+ * @param variables Variables extracted from the blocks
+ */
+export function linkMacroReferences(entries: any[], blocks: BibTeXBlock[], variables: Record<string, string>): void {
+  const entriesByKey = new Map<string, any>();
+  entries.forEach(entry => entriesByKey.set(entry['citation-key'] || entry.id, entry));
+
+  blocks.forEach(block => {
+    if (block.kind !== 'entry') return;
+    const entry = entriesByKey.get(block.key);
+    if (!entry) return;
+
+    block.fields.forEach(field => {
+      if (BIBTEX_NAME_FIELDS.includes(field.name)) {
+        const names = entry[field.name];
+        const macros = getNameMacros(field.parts);
+        // Only link when the name split agrees with Citation.js
+        if (!Array.isArray(names) || names.length !== macros.length) return;
+        entry[field.name] = names.map((name: any, index: number) => {
+          const macro = macros[index];
+          const key = macro ? findVariableKey(macro, variables) : undefined;
+          return key !== undefined ? { literal: key } : name;
+        });
+        return;
+      }
+
+      const cslField = BIBTEX_TO_CSL_TEXT_FIELD[field.name];
+      if (!cslField || field.parts.length !== 1) return;
+      const part = field.parts[0];
+      const key = part.kind === 'macro' ? findVariableKey(part.name, variables) : undefined;
+      if (key !== undefined && latexToUnicode(entry[cslField] || '') === latexToUnicode(variables[key])) {
+        // Stored as the defined name, which the rest of the app looks up
+        entry[cslField] = key;
+      }
+    });
+  });
+}
@@ -0,0 +1,72 @@
+import { applyExportProfile, createExportProfile, sortEntriesForProfile } from './bibtexProfile';
+
+const BIBTEX = `@article{doe2020,
+\tyear = 2020,
+\ttitle = {A "Quoted" Title},
+\tauthor = {Doe, Jane},
+\tjournal = pami,
+\tmonth = {March},
+\tnote = {Some note},
+\turl = {https://example.org/a/very/long/url/that/must/not/be/wrapped},
+}`;
+
+describe('applyExportProfile', () => {
+  it('reproduces the Citation.js layout with the default profile', () => {
+    expect(applyExportProfile(BIBTEX, createExportProfile('Default'))).toBe(`@article{doe2020,
+\tauthor = {Doe, Jane},
+\ttitle = {A "Quoted" Title},
+\tjournal = pami,
+\tyear = 2020,
+\tmonth = mar,
+\turl = {https://example.org/a/very/long/url/that/must/not/be/wrapped},
+\tnote = {Some note},
+}`);
+  });
+
+  it('applies filters, alignment, quotes and month numbers', () => {
+    const profile = {
+      ...createExportProfile('Compact'),
+      fieldOrder: ['title', 'author'],
+      fieldFilter: 'blacklist' as const,
+      filterFields: ['URL', 'note'],
+      indent: '  ',
+      alignValues: true,
+      delimiter: 'quotes' as const,
+      monthFormat: 'number' as const,
+      trailingComma: false
+    };
+    expect(applyExportProfile(BIBTEX, profile)).toBe(`@article{doe2020,
+  title   = {A "Quoted" Title},
+  author  = "Doe, Jane",
+  journal = pami,
+  month   = 3,
+  year    = 2020
+}`);
+  });
+
+  it('wraps long values but not URLs', () => {
+    const profile = { ...createExportProfile('Wrapped'), indent: '  ', lineWidth: 24 };
+    const output = applyExportProfile(BIBTEX, profile);
+    expect(output).toContain('  title = {A "Quoted"\n          Title},');
+    expect(output).toContain('  url = {https://example.org/a/very/long/url/that/must/not/be/wrapped},');
+  });
+
+  it('returns blocks it cannot parse unchanged', () => {
+    expect(applyExportProfile('not bibtex', createExportProfile('Default'))).toBe('not bibtex');
+  });
+});
+
+describe('sortEntriesForProfile', () => {
+  const entries = [
+    { id: 'b', author: [{ family: 'Roe' }], issued: { 'date-parts': [[2019]] } },
+    { id: 'a', author: [{ family: 'Roe' }], issued: { 'date-parts': [[2021]] } },
+    { id: 'c', author: [{ literal: 'ACM' }], issued: { 'date-parts': [[2020]] } }
+  ];
+
+  it('sorts by key, year or author', () => {
+    expect(sortEntriesForProfile(entries, 'none')).toBe(entries);
+    expect(sortEntriesForProfile(entries, 'key').map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+    expect(sortEntriesForProfile(entries, 'year').map(entry => entry.id)).toEqual(['b', 'c', 'a']);
+    expect(sortEntriesForProfile(entries, 'author').map(entry => entry.id)).toEqual(['c', 'b', 'a']);
+  });
+});
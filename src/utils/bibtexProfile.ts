@@ -0,0 +1,176 @@
+// BibTeX export profiles.
+// Citation.js fixes the layout of its BibTeX output. A profile re-renders each
+// generated entry with its own field order, filtering, indentation, delimiters,
+// month style, trailing comma and line wrapping, and sorts the entries.
+import { BibTeXExportProfile } from '../types/citationTypes';
+import { BibTeXField, BibTeXValuePart, BIBTEX_MONTH_MACROS, parseBibTeX } from './bibtexParser';
+import { getYear } from './cslUtils';
+
+const MONTH_MACROS = Object.keys(BIBTEX_MONTH_MACROS);
+
+// Values that must not be split across lines
+const UNWRAPPED_FIELDS = new Set(['doi', 'eprint', 'file', 'ids', 'isbn', 'issn', 'url']);
+
+/**
+ * Creates a profile with the layout Citation.js writes
+ * @param name Profile name
+ */
+export function createExportProfile(name: string): BibTeXExportProfile {
+  return {
+    name,
+    fieldOrder: ['author', 'title', 'journal', 'booktitle', 'year', 'month', 'volume', 'number', 'pages', 'publisher', 'doi', 'url'],
+    fieldFilter: 'none',
+    filterFields: [],
+    indent: '\t',
+    alignValues: false,
+    delimiter: 'braces',
+    monthFormat: 'macro',
+    sortBy: 'none',
+    trailingComma: true,
+    lineWidth: 0
+  };
+}
+
+/**
+ * Sorts entries in the order a profile writes them
+ * @param entries CSL entries
+ * @param sortBy Sort order of the profile
+ * @returns Sorted copy of the entries
+ */
+export function sortEntriesForProfile(entries: any[], sortBy: BibTeXExportProfile['sortBy']): any[] {
+  if (sortBy === 'none') {
+    return entries;
+  }
+
+  const keyOf = (entry: any) => String(entry['citation-key'] || entry.id);
+  const authorOf = (entry: any) => {
+    const first = entry.author?.[0];
+    return (first?.family || first?.literal || '').toLowerCase();
+  };
+
+  return [...entries].sort((a, b) => {
+    if (sortBy === 'year') {
+      const byYear = (parseInt(getYear(a)) || 0) - (parseInt(getYear(b)) || 0);
+      if (byYear !== 0) return byYear;
+    } else if (sortBy === 'author') {
+      const byAuthor = authorOf(a).localeCompare(authorOf(b));
+      if (byAuthor !== 0) return byAuthor;
+      const byYear = (parseInt(getYear(a)) || 0) - (parseInt(getYear(b)) || 0);
+      if (byYear !== 0) return byYear;
+    }
+    return keyOf(a).localeCompare(keyOf(b));
+  });
+}
+
+// Whether a value contains a double quote outside of braces, which would end a quoted string
+function hasTopLevelQuote(value: string): boolean {
+  let depth = 0;
+  for (const char of value) {
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (char === '"' && depth === 0) return true;
+  }
+  return false;
+}
+
+function formatMonth(parts: BibTeXValuePart[], monthFormat: BibTeXExportProfile['monthFormat']): string | null {
+  if (parts.length !== 1) return null;
+  const part = parts[0];
+  const value = (part.kind === 'macro' ? part.name : part.value).trim().toLowerCase();
+
+  const index = /^\d{1,2}$/.test(value) ? parseInt(value) - 1 : MONTH_MACROS.indexOf(value.slice(0, 3));
+  if (index < 0 || index > 11) return null;
+
+  return monthFormat === 'macro' ? MONTH_MACROS[index] : String(index + 1);
+}
+
+function formatValue(field: BibTeXField, profile: BibTeXExportProfile): string {
+  if (field.name === 'month') {
+    const month = formatMonth(field.parts, profile.monthFormat);
+    if (month) return month;
+  }
+
+  return field.parts.map(part => {
+    if (part.kind === 'macro') {
+      return part.name;
+    }
+    if (part.delimiter === 'number') {
+      return part.value;
+    }
+    return profile.delimiter === 'quotes' && !hasTopLevelQuote(part.value)
+      ? `"${part.value}"`
+      : `{${part.value}}`;
+  }).join(' # ');
+}
+
+// Breaks a value at spaces so no line exceeds the width; continuation lines
+// are indented to the start of the value
+function wrapValue(prefix: string, value: string, width: number): string {
+  const continuation = ' '.repeat(prefix.length);
+  const lines: string[] = [];
+  let current = prefix;
+  let lineStart = true;
+  value.split(' ').forEach(word => {
+    if (!lineStart && current.length + 1 + word.length > width) {
+      lines.push(current);
+      current = continuation + word;
+    } else {
+      current = lineStart ? current + word : `${current} ${word}`;
+    }
+    lineStart = false;
+  });
+  lines.push(current);
+  return lines.join('\n');
+}
+
+function orderFields(fields: BibTeXField[], profile: BibTeXExportProfile): BibTeXField[] {
+  const filterFields = new Set(profile.filterFields.map(name => name.toLowerCase()));
+  const kept = fields.filter(field => {
+    if (profile.fieldFilter === 'whitelist') return filterFields.has(field.name);
+    if (profile.fieldFilter === 'blacklist') return !filterFields.has(field.name);
+    return true;
+  });
+
+  const order = profile.fieldOrder.map(name => name.toLowerCase());
+  const rank = (field: BibTeXField) => {
+    const index = order.indexOf(field.name);
+    return index === -1 ? order.length : index;
+  };
+  return kept.sort((a, b) => {
+    const byRank = rank(a) - rank(b);
+    if (byRank !== 0) return byRank;
+    // Fields outside the order are written alphabetically
+    return rank(a) === order.length ? a.name.localeCompare(b.name) : 0;
+  });
+}
+
+/**
+ * Re-renders a generated BibTeX entry with the layout of a profile
+ * @param bibtex BibTeX block of a single entry
+ * @param profile Export profile
+ * @returns Entry in the profile's layout, or the input if it cannot be parsed
+ */
+export function applyExportProfile(bibtex: string, profile: BibTeXExportProfile): string {
+  const block = parseBibTeX(bibtex).find(
+    (item): item is Extract<typeof item, { kind: 'entry' }> => item.kind === 'entry'
+  );
+  if (!block) {
+    return bibtex;
+  }
+
+  const fields = orderFields(block.fields, profile);
+  const nameWidth = profile.alignValues ? Math.max(0, ...fields.map(field => field.name.length)) : 0;
+  const type = /^@\s*([^\s{(]+)/.exec(block.raw)?.[1] ?? block.type;
+
+  const lines = fields.map((field, index) => {
+    const comma = index < fields.length - 1 || profile.trailingComma ? ',' : '';
+    const prefix = `${profile.indent}${field.name.padEnd(nameWidth)} = `;
+    const value = `${formatValue(field, profile)}${comma}`;
+    // Tabs count as one column here, which is close enough for wrapping
+    return profile.lineWidth > 0 && !UNWRAPPED_FIELDS.has(field.name)
+      ? wrapValue(prefix, value, profile.lineWidth)
+      : prefix + value;
+  });
+
+  return `@${type}{${block.key},\n${lines.join('\n')}\n}`;
+}
@@ -0,0 +1,127 @@
+import Cite from 'citation-js';
+import { extractStringVariables, linkMacroReferences, parseBibTeX } from './bibtexParser';
+import { formatEntriesAsBibTeX, formatStringVariables } from './bibtexWriter';
+import { recoverDialectFields } from './bibtexDialect';
+import { convertLatexFields } from './latexUnicode';
+import { recoverTitleProtection } from './titleProtection';
+import {
+  createBibTeXSource,
+  formatRoundTripBibTeX,
+  getUnmodifiedSourceField,
+  markSourceEntryModified,
+  removeSourceEntries
+} from './bibtexRoundTrip';
+
+const SOURCE = `% Exported by hand
+@STRING{pami = {IEEE Transactions on Pattern Analysis and Machine Intelligence}}
+@STRING{who = {World Health Organization}}
+
+@article{doe2020,
+  author    = {Doe, Jane and Roe, Richard},
+  title     = {Learning {BibTeX}},
+  journal   = pami,
+  year      = {2020},
+  owner     = {jane},
+}
+
+@report{who2021,
+  author = who,
+  title  = {World Report},
+  institution = who,
+  year   = 2021
+}
+`;
+
+// The steps of the BibTeX import in CitationContext
+function importBibTeX(content: string) {
+  const cite = new Cite(content);
+  const blocks = parseBibTeX(content);
+  const variables = extractStringVariables(blocks);
+  linkMacroReferences(cite.data, blocks, variables);
+  recoverDialectFields(cite.data, blocks, variables);
+  convertLatexFields(cite.data);
+  recoverTitleProtection(cite.data, blocks, variables);
+  return { entries: cite.data as any[], variables, source: createBibTeXSource(blocks, cite.data) };
+}
+
+describe('@STRING round-trip', () => {
+  it('keeps macro references through import and export', () => {
+    const { entries, variables } = importBibTeX(SOURCE);
+    const doe = entries.find(entry => entry.id === 'doe2020');
+    const who = entries.find(entry => entry.id === 'who2021');
+    expect(doe['container-title']).toBe('pami');
+    expect(who.author).toEqual([{ literal: 'who' }]);
+    expect(who.publisher).toBe('who');
+
+    const exported = [formatStringVariables(variables), ...formatEntriesAsBibTeX(entries, variables)].join('\n\n');
+    expect(exported).toContain('@STRING{pami = {IEEE Transactions on Pattern Analysis and Machine Intelligence}}');
+    expect(exported).toContain('journal = pami,');
+    expect(exported).toContain('author = who,');
+    expect(exported).toContain('institution = who,');
+
+    // Importing the export gives the same references and values
+    const reimported = importBibTeX(exported);
+    expect(reimported.variables).toEqual(variables);
+    expect(reimported.entries.find(entry => entry.id === 'doe2020')['container-title']).toBe('pami');
+    expect(reimported.entries.find(entry => entry.id === 'who2021').author).toEqual([{ literal: 'who' }]);
+  });
+});
+
+describe('formatRoundTripBibTeX', () => {
+  it('writes an untouched library back byte for byte', () => {
+    const { entries, variables, source } = importBibTeX(SOURCE);
+    expect(formatRoundTripBibTeX(source, entries, variables)).toBe(SOURCE);
+  });
+
+  it('regenerates modified entries and keeps their unknown fields', () => {
+    const { entries, variables, source } = importBibTeX(SOURCE);
+    const changed = entries.map(entry => (entry.id === 'doe2020' ? { ...entry, volume: '42' } : entry));
+    const output = formatRoundTripBibTeX(markSourceEntryModified(source, 'doe2020', 'doe2020'), changed, variables);
+
+    expect(output).toContain('% Exported by hand');
+    expect(output).toMatch(/volume\s*=\s*\{42\}/);
+    expect(output).toMatch(/owner\s*=\s*\{jane\}/);
+    expect(output).toMatch(/journal\s*=\s*pami,/);
+    // The other entry is untouched
+    expect(output).toContain('@report{who2021,\n  author = who,\n  title  = {World Report},');
+  });
+
+  it('writes changed @STRING values and appends new variables', () => {
+    const { entries, variables, source } = importBibTeX(SOURCE);
+    const output = formatRoundTripBibTeX(source, entries, { ...variables, who: 'WHO', acm: 'ACM' });
+    expect(output).toContain('@STRING{who = {WHO}}');
+    expect(output).toContain('@STRING{acm = {ACM}}');
+    expect(output).toContain('@STRING{pami = {IEEE Transactions on Pattern Analysis and Machine Intelligence}}');
+  });
+
+  it('encodes changed and new @STRING values like the regular export', () => {
+    const { entries, variables, source } = importBibTeX(SOURCE);
+    const changed = { ...variables, who: 'Organización Mundial de la Salud', tum: 'Technische Universität München' };
+    const ascii = formatRoundTripBibTeX(source, entries, changed);
+    expect(ascii).toContain('@STRING{who = {Organizaci{\\\'o}n Mundial de la Salud}}');
+    expect(ascii).toContain('@STRING{tum = {Technische Universit{\\"a}t M{\\"u}nchen}}');
+
+    const utf8 = formatRoundTripBibTeX(source, entries, changed, 'bibtex', 'utf8');
+    expect(utf8).toContain('@STRING{who = {Organización Mundial de la Salud}}');
+    expect(utf8).toContain('@STRING{tum = {Technische Universität München}}');
+  });
+
+  it('drops the blocks of removed entries', () => {
+    const { entries, variables, source } = importBibTeX(SOURCE);
+    const output = formatRoundTripBibTeX(
+      removeSourceEntries(source, ['who2021']),
+      entries.filter(entry => entry.id !== 'who2021'),
+      variables
+    );
+    expect(output).not.toContain('who2021');
+    expect(output).toContain('@article{doe2020,');
+  });
+});
+
+describe('getUnmodifiedSourceField', () => {
+  it('returns source values only while the entry is untouched', () => {
+    const { source } = importBibTeX(SOURCE);
+    expect(getUnmodifiedSourceField(source, 'doe2020', 'owner')).toBe('jane');
+    expect(getUnmodifiedSourceField(markSourceEntryModified(source, 'doe2020', 'doe2020'), 'doe2020', 'owner')).toBeUndefined();
+  });
+});
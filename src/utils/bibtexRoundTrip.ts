@@ -0,0 +1,214 @@
+// Lossless BibTeX round-trip.
+// Keeps the parsed source of an imported .bib file and writes it back with only
+// the entries that were changed regenerated. Comments, @PREAMBLE blocks, field
+// order and fields unknown to CSL (file, groups, owner, ...) survive the trip.
+import { BibTeXBlock, BibTeXField, evaluateBibTeXValue, extractStringVariables, parseBibTeX } from './bibtexParser';
+import { formatEntriesAsBibTeX, formatStringVariables } from './bibtexWriter';
+import { BibTeXDialect } from './bibtexDialect';
+import { BibTeXEncoding } from './latexUnicode';
+import { BibTeXSource } from '../types/citationTypes';
+
+// BibTeX fields Citation.js reads into CSL. When one of these is missing from a
+// regenerated entry, it was removed in the editor and must not be restored.
+const CSL_MAPPED_BIBTEX_FIELDS = new Set([
+  'abstract', 'address', 'annote', 'archiveprefix', 'author', 'booktitle', 'chapter', 'crossref', 'date',
+  'doi', 'edition', 'editor', 'eprint', 'eprintclass', 'eprinttype', 'howpublished', 'ids',
+  'institution', 'isbn', 'issn', 'journal', 'journaltitle', 'keywords', 'language', 'location',
+  'month', 'note', 'number', 'organization', 'pages', 'pmid', 'primaryclass', 'publisher', 's2id',
+  'school', 'series', 'title', 'type', 'url', 'urldate', 'version', 'volume', 'year'
+]);
+
+/**
+ * Creates the round-trip source for a freshly imported BibTeX file
+ * @param blocks Parsed BibTeX blocks
+ * @param entries CSL entries Citation.js produced from the same source
+ */
+export function createBibTeXSource(blocks: BibTeXBlock[], entries: any[]): BibTeXSource {
+  const blockKeys = new Set(blocks.flatMap(block => (block.kind === 'entry' ? [block.key] : [])));
+  const sourceKeys: Record<string, string> = {};
+  entries.forEach(entry => {
+    const key = entry['citation-key'] || entry.id;
+    if (blockKeys.has(key)) {
+      sourceKeys[entry.id] = key;
+    }
+  });
+  return { blocks, sourceKeys, modifiedIds: [] };
+}
+
+/**
+ * Marks an entry as changed so it is regenerated on export
+ * @param source Current round-trip source
+ * @param oldId Entry ID before the update
+ * @param newId Entry ID after the update (differs when the key was renamed)
+ */
+export function markSourceEntryModified(source: BibTeXSource, oldId: string, newId: string): BibTeXSource {
+  const sourceKey = source.sourceKeys[oldId];
+  if (sourceKey === undefined) {
+    return source; // Entry was added after import, it is always regenerated
+  }
+
+  const sourceKeys = { ...source.sourceKeys };
+  delete sourceKeys[oldId];
+  sourceKeys[newId] = sourceKey;
+
+  const modifiedIds = source.modifiedIds.filter(id => id !== oldId);
+  modifiedIds.push(newId);
+
+  return { ...source, sourceKeys, modifiedIds };
+}
+
+/**
+ * Returns the field of an entry as it will be written back unchanged
+ * @param source Current round-trip source
+ * @param id Entry ID
+ * @param field Lowercased BibTeX field name
+ * @returns Field value without the outer delimiters, or undefined when the
+ * entry is regenerated on export or has no such field
+ */
+export function getUnmodifiedSourceField(source: BibTeXSource, id: string, field: string): string | undefined {
+  const sourceKey = source.sourceKeys[id];
+  if (sourceKey === undefined || source.modifiedIds.includes(id)) {
+    return undefined;
+  }
+  const block = source.blocks.find(item => item.kind === 'entry' && item.key === sourceKey);
+  const sourceField = block?.kind === 'entry' ? block.fields.find(item => item.name === field) : undefined;
+  return sourceField && evaluateBibTeXValue(sourceField.parts, {});
+}
+
+/**
+ * Drops the source blocks of deleted entries
+ * @param source Current round-trip source
+ * @param ids IDs of the deleted entries
+ */
+export function removeSourceEntries(source: BibTeXSource, ids: string[]): BibTeXSource {
+  const removedKeys = new Set(ids.flatMap(id => (source.sourceKeys[id] !== undefined ? [source.sourceKeys[id]] : [])));
+  if (removedKeys.size === 0) {
+    return source;
+  }
+
+  const blocks: BibTeXBlock[] = [];
+  let droppedPrevious = false;
+  source.blocks.forEach(block => {
+    if (block.kind === 'entry' && removedKeys.has(block.key)) {
+      droppedPrevious = true;
+      return;
+    }
+    if (droppedPrevious && block.kind === 'text') {
+      // Remove the line break that followed the deleted entry
+      const raw = block.raw.replace(/^\r?\n/, '');
+      if (raw) blocks.push({ ...block, raw });
+    } else {
+      blocks.push(block);
+    }
+    droppedPrevious = false;
+  });
+
+  const sourceKeys = { ...source.sourceKeys };
+  ids.forEach(id => delete sourceKeys[id]);
+
+  return {
+    blocks,
+    sourceKeys,
+    modifiedIds: source.modifiedIds.filter(id => !ids.includes(id))
+  };
+}
+
+// Regenerates a changed entry while keeping the original field order, type
+// spelling, indentation and fields Citation.js does not understand
+function mergeEntryBlock(original: Extract<BibTeXBlock, { kind: 'entry' }>, generatedBibtex: string): string {
+  const generated = parseBibTeX(generatedBibtex).find(
+    (block): block is Extract<BibTeXBlock, { kind: 'entry' }> => block.kind === 'entry'
+  );
+  if (!generated) {
+    return generatedBibtex;
+  }
+
+  const generatedFields = new Map(generated.fields.map(field => [field.name, field]));
+  const fields: BibTeXField[] = [];
+  original.fields.forEach(field => {
+    const replacement = generatedFields.get(field.name);
+    if (replacement) {
+      fields.push(replacement);
+      generatedFields.delete(field.name);
+    } else if (!CSL_MAPPED_BIBTEX_FIELDS.has(field.name)) {
+      fields.push(field);
+    }
+  });
+  fields.push(...generatedFields.values());
+
+  const indent = /\n([ \t]*)\S/.exec(original.raw)?.[1] ?? '\t';
+  const type = original.type === generated.type ? /^@\s*([^\s{(]+)/.exec(original.raw)?.[1] ?? generated.type : generated.type;
+  const body = fields.map(field => `${indent}${field.raw}`).join(',\n');
+
+  return `@${type}{${generated.key},\n${body},\n}`;
+}
+
+/**
+ * Writes the library back into its original BibTeX source. Untouched entries,
+ * comments and @STRING blocks are emitted byte-for-byte, changed entries are
+ * regenerated and entries added since the import are appended.
+ * @param source Round-trip source from the import
+ * @param entries Current CSL entries
+ * @param variables Current @STRING variables
+ * @param dialect Dialect for regenerated and added entries
+ * @param encoding Encoding for regenerated and added entries and @STRING values
+ * @returns BibTeX file content
+ */
+export function formatRoundTripBibTeX(
+  source: BibTeXSource,
+  entries: any[],
+  variables: Record<string, string>,
+  dialect: BibTeXDialect = 'bibtex',
+  encoding: BibTeXEncoding = 'ascii'
+): string {
+  const entryIdsByKey = new Map(Object.entries(source.sourceKeys).map(([id, key]) => [key, id]));
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+  const modifiedIds = new Set(source.modifiedIds);
+  const originalVariables = extractStringVariables(source.blocks);
+  const writtenVariables = new Set<string>();
+
+  const newVariableBlock = () => {
+    const added = formatStringVariables(
+      Object.fromEntries(Object.entries(variables).filter(([key]) => !(key in originalVariables))),
+      encoding
+    );
+    return added && `${added}\n`;
+  };
+
+  const lastStringIndex = source.blocks.reduce((last, block, index) => (block.kind === 'string' ? index : last), -1);
+  let output = lastStringIndex === -1 ? newVariableBlock() : '';
+
+  source.blocks.forEach((block, index) => {
+    if (block.kind === 'string') {
+      if (block.key in variables && !writtenVariables.has(block.key)) {
+        writtenVariables.add(block.key);
+        output += variables[block.key] === originalVariables[block.key]
+          ? block.raw
+          : formatStringVariables({ [block.key]: variables[block.key] }, encoding);
+      }
+    } else if (block.kind === 'entry') {
+      const id = entryIdsByKey.get(block.key);
+      const entry = id !== undefined ? entriesById.get(id) : undefined;
+      if (entry && modifiedIds.has(entry.id)) {
+        output += mergeEntryBlock(block, formatEntriesAsBibTeX([entry], variables, dialect, encoding)[0]);
+      } else {
+        // Untouched, or an entry Citation.js could not read: keep it verbatim
+        output += block.raw;
+      }
+    } else {
+      output += block.raw;
+    }
+
+    if (index === lastStringIndex) {
+      const added = newVariableBlock();
+      if (added) output += `\n${added.trimEnd()}`;
+    }
+  });
+
+  const addedEntries = entries.filter(entry => source.sourceKeys[entry.id] === undefined);
+  if (addedEntries.length > 0) {
+    output = `${output.trimEnd()}\n\n${formatEntriesAsBibTeX(addedEntries, variables, dialect, encoding).join('\n\n')}\n`;
+  }
+
+  return output;
+}
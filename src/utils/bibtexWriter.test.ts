@@ -0,0 +1,65 @@
+import { applyMacroReferences, formatEntriesAsBibTeX, formatStringVariables, splitBibTeXEntries } from './bibtexWriter';
+
+const ENTRY = {
+  id: 'doe2020',
+  'citation-key': 'doe2020',
+  type: 'article-journal',
+  title: 'Über Graphen',
+  author: [{ family: 'Doe', given: 'Jane' }, { literal: 'org' }],
+  'container-title': 'pami',
+  volume: '12',
+  issued: { 'date-parts': [[2020]] }
+};
+
+const VARIABLES = {
+  pami: 'IEEE Transactions on Pattern Analysis and Machine Intelligence',
+  org: 'World Health Organization'
+};
+
+describe('formatStringVariables', () => {
+  it('writes one @STRING per variable with LaTeX commands in ASCII mode', () => {
+    expect(formatStringVariables({ tum: 'Technische Universität München' })).toBe(
+      '@STRING{tum = {Technische Universit{\\"a}t M{\\"u}nchen}}'
+    );
+    expect(formatStringVariables({ tum: 'Technische Universität München' }, 'utf8')).toBe(
+      '@STRING{tum = {Technische Universität München}}'
+    );
+  });
+});
+
+describe('splitBibTeXEntries', () => {
+  it('splits generated output into entry blocks', () => {
+    const blocks = splitBibTeXEntries('@article{a,\n  title = {A},\n}\n\n@book{b,\n  title = {B},\n}\n');
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatch(/^@article\{a,/);
+    expect(blocks[1]).toMatch(/^@book\{b,/);
+  });
+});
+
+describe('formatEntriesAsBibTeX', () => {
+  it('writes macro references for fields and names holding a variable key', () => {
+    const [bibtex] = formatEntriesAsBibTeX([ENTRY], VARIABLES);
+    expect(bibtex).toMatch(/^@article\{doe2020,/);
+    expect(bibtex).toContain('journal = pami,');
+    expect(bibtex).toContain('author = {Doe, Jane and } # org,');
+    expect(bibtex).toContain('title = {{\\"U}ber {Graphen}}');
+  });
+
+  it('keeps UTF-8 text in UTF-8 mode', () => {
+    const [bibtex] = formatEntriesAsBibTeX([ENTRY], VARIABLES, 'bibtex', 'utf8');
+    expect(bibtex).toContain('title = {Über {Graphen}}');
+  });
+
+  it('writes BibLaTeX fields in the BibLaTeX dialect', () => {
+    const [bibtex] = formatEntriesAsBibTeX([{ ...ENTRY, 'container-title': 'Journal of Tests' }], {}, 'biblatex');
+    expect(bibtex).toContain('journaltitle = {Journal of Tests}');
+    expect(bibtex).not.toMatch(/^\s*journal = /m);
+  });
+});
+
+describe('applyMacroReferences', () => {
+  it('leaves blocks unchanged without variables', () => {
+    const block = '@article{a,\n\tjournal = {pami},\n}';
+    expect(applyMacroReferences(block, { 'container-title': 'pami' }, {})).toBe(block);
+  });
+});
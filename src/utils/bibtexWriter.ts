@@ -0,0 +1,169 @@
+// Post-processing of Citation.js BibTeX output.
+// Citation.js knows nothing about @STRING variables, so the macro header and
+// unquoted macro references are added here. Citation.js writes UTF-8 and the
+// text is encoded here, since its own ASCII output drops unknown characters.
+import Cite from 'citation-js';
+import { BIBTEX_NAME_FIELDS, BIBTEX_TO_CSL_TEXT_FIELD, splitTextOnAnd } from './bibtexParser';
+import { enhanceBibTeXWithCustomFields } from './semanticScholarConverter';
+import { applyDialect, BibTeXDialect } from './bibtexDialect';
+import { BibTeXEncoding, encodeBibTeXText, unicodeToLatex } from './latexUnicode';
+import { flattenProtectedBraces } from './titleProtection';
+
+const FIELD_LINE_PATTERN = /^(\s*)([\w-]+) = \{(.*)\}(,?)$/;
+
+// Fields written verbatim, where LaTeX special characters are literal
+const VERBATIM_FIELDS = ['url', 'doi', 'eprint', 'file', 'pdf'];
+
+/**
+ * Splits the output of `cite.format('bibtex')` into one block per entry
+ * @param bibtex BibTeX string from Citation.js
+ * @returns Entry blocks in the same order as `cite.data`
+ */
+export function splitBibTeXEntries(bibtex: string): string[] {
+  return bibtex
+    .split(/\n(?=@)/)
+    .map(block => block.trim())
+    .filter(block => block);
+}
+
+/**
+ * Formats @STRING variables as a BibTeX header
+ * @param variables Variables keyed by macro name
+ * @param encoding ASCII encodes non-ASCII characters, values are otherwise
+ * written as entered
+ * @returns @STRING definitions, or an empty string when there are none
+ */
+export function formatStringVariables(variables: Record<string, string>, encoding: BibTeXEncoding = 'ascii'): string {
+  return Object.entries(variables)
+    .map(([key, value]) => `@STRING{${key} = {${encoding === 'ascii' ? unicodeToLatex(value) : value}}}`)
+    .join('\n');
+}
+
+// Escapes the field values of an entry block Citation.js wrote as UTF-8
+function encodeBibTeXFields(bibtex: string, encoding: BibTeXEncoding): string {
+  return bibtex.split('\n').map(line => {
+    const match = FIELD_LINE_PATTERN.exec(line);
+    if (!match) return line;
+    const [, indent, field, content, comma] = match;
+    if (VERBATIM_FIELDS.includes(field) || /^https?:\/\//.test(content)) {
+      return line;
+    }
+    return `${indent}${field} = {${encodeBibTeXText(flattenProtectedBraces(content), encoding)}}${comma}`;
+  }).join('\n');
+}
+
+// Citation.js drops dropping particles; BibTeX keeps them after the given
+// names, as in "Beethoven, Ludwig van"
+function foldDroppingParticles(entry: any): any {
+  const hasParticle = (names: any) => Array.isArray(names) && names.some((name: any) => name['dropping-particle']);
+  if (!BIBTEX_NAME_FIELDS.some(field => hasParticle(entry[field]))) {
+    return entry;
+  }
+
+  const folded = { ...entry };
+  BIBTEX_NAME_FIELDS.filter(field => hasParticle(entry[field])).forEach(field => {
+    folded[field] = entry[field].map(({ 'dropping-particle': particle, ...name }: any) => (
+      particle ? { ...name, given: [name.given, particle].filter(Boolean).join(' ') } : name
+    ));
+  });
+  return folded;
+}
+
+// Formats with Citation.js's own ASCII conversion switched off
+function formatUnicodeBibTeX(entries: any[], dialect: BibTeXDialect): string {
+  const config = Cite.plugins.config.get('@bibtex');
+  const asciiOnly = config.format.asciiOnly;
+  config.format.asciiOnly = false;
+  try {
+    return new Cite(entries.map(foldDroppingParticles)).format(dialect);
+  } finally {
+    config.format.asciiOnly = asciiOnly;
+  }
+}
+
+// Builds a name list expression, e.g. `str_Smith # { and Doe, Jane}`
+function formatNameListWithMacros(names: any[], content: string, variables: Record<string, string>): string | null {
+  const segments = splitTextOnAnd(content);
+  if (segments.length !== names.length) return null;
+
+  const tokens: string[] = [];
+  let text = '';
+  segments.forEach((segment, index) => {
+    if (index > 0) text += ' and ';
+    const macro = names[index]?.literal;
+    if (macro && variables[macro] !== undefined) {
+      if (text) tokens.push(`{${text}}`);
+      tokens.push(macro);
+      text = '';
+    } else {
+      text += segment;
+    }
+  });
+  if (text) tokens.push(`{${text}}`);
+
+  return tokens.join(' # ');
+}
+
+/**
+ * Replaces braced values with unquoted macro references where an entry
+ * field or name refers to an @STRING variable
+ * @param bibtex BibTeX block of a single entry
+ * @param entry CSL entry the block was generated from
+ * @param variables Variables keyed by macro name
+ * @returns BibTeX block with macro references
+ */
+export function applyMacroReferences(bibtex: string, entry: any, variables: Record<string, string>): string {
+  if (Object.keys(variables).length === 0) {
+    return bibtex;
+  }
+
+  return bibtex.split('\n').map(line => {
+    const match = FIELD_LINE_PATTERN.exec(line);
+    if (!match) return line;
+    const [, indent, field, content, comma] = match;
+
+    if (BIBTEX_NAME_FIELDS.includes(field)) {
+      const names = entry[field];
+      const hasMacro = Array.isArray(names) && names.some((name: any) => name.literal && variables[name.literal] !== undefined);
+      const expression = hasMacro ? formatNameListWithMacros(names, content, variables) : null;
+      return expression ? `${indent}${field} = ${expression}${comma}` : line;
+    }
+
+    const cslField = BIBTEX_TO_CSL_TEXT_FIELD[field];
+    const value = cslField ? entry[cslField] : undefined;
+    if (typeof value === 'string' && variables[value] !== undefined) {
+      return `${indent}${field} = ${value}${comma}`;
+    }
+    return line;
+  }).join('\n');
+}
+
+/**
+ * Formats CSL entries as BibTeX blocks including custom fields like s2id
+ * and @STRING macro references
+ * @param entries CSL entries to format
+ * @param variables Variables keyed by macro name
+ * @param dialect Write plain BibTeX or BibLaTeX types and fields
+ * @param encoding Write UTF-8 or ASCII with LaTeX commands
+ * @returns One BibTeX block per entry
+ */
+export function formatEntriesAsBibTeX(
+  entries: any[],
+  variables: Record<string, string>,
+  dialect: BibTeXDialect = 'bibtex',
+  encoding: BibTeXEncoding = 'ascii'
+): string[] {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const entryBibtexList = splitBibTeXEntries(formatUnicodeBibTeX(entries, dialect));
+  return entryBibtexList.map((entryBibtex, index) => {
+    if (index >= entries.length) {
+      return entryBibtex;
+    }
+    const encoded = encodeBibTeXFields(entryBibtex, encoding);
+    const enhanced = enhanceBibTeXWithCustomFields(applyDialect(encoded, entries[index], dialect), entries[index]);
+    return applyMacroReferences(enhanced, entries[index], variables);
+  });
+}
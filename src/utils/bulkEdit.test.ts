@@ -0,0 +1,64 @@
+import { buildKeywordUpdates, buildMetadataUpdates, buildSetFieldUpdates, splitKeywords } from './bulkEdit';
+
+describe('splitKeywords', () => {
+  it('splits at commas and semicolons', () => {
+    expect(splitKeywords('a, b;c ; ,d')).toEqual(['a', 'b', 'c', 'd']);
+    expect(splitKeywords(undefined)).toEqual([]);
+  });
+});
+
+describe('buildSetFieldUpdates', () => {
+  const entries = [{ id: 'a', publisher: 'ACM' }, { id: 'b' }];
+
+  it('sets the field where it differs', () => {
+    expect(buildSetFieldUpdates(entries, 'publisher', 'ACM')).toEqual({ b: { publisher: 'ACM' } });
+  });
+
+  it('clears the field where it is set', () => {
+    expect(buildSetFieldUpdates(entries, 'publisher')).toEqual({ a: { publisher: undefined } });
+  });
+});
+
+describe('buildKeywordUpdates', () => {
+  it('adds and removes keywords without case and clears emptied fields', () => {
+    expect(buildKeywordUpdates([
+      { id: 'a', keyword: 'ML, Draft' },
+      { id: 'b', keyword: 'draft' },
+      { id: 'c', keyword: 'ml' }
+    ], ['ml'], ['draft'])).toEqual({
+      a: { keyword: 'ML' },
+      b: { keyword: 'ml' }
+    });
+
+    expect(buildKeywordUpdates([{ id: 'a', keyword: 'draft' }], [], ['Draft'])).toEqual({ a: { keyword: undefined } });
+  });
+
+  it('leaves entries alone whose keywords do not change', () => {
+    expect(buildKeywordUpdates([
+      { id: 'a', keyword: 'ml; nlp' },
+      { id: 'b', keyword: 'ml,nlp' },
+      { id: 'c', keyword: 'ml; draft' }
+    ], ['ML'], ['final'])).toEqual({});
+  });
+});
+
+describe('buildMetadataUpdates', () => {
+  it('fills empty fields only and merges custom fields', () => {
+    const entry = { id: 'doe2020', title: 'Mine', author: [], custom: { note: 'kept' } };
+    const fetched = {
+      id: 'x',
+      type: 'article-journal',
+      title: 'Theirs',
+      author: [{ family: 'Doe', given: 'Jane' }],
+      DOI: '10.1000/xyz',
+      custom: { S2ID: 's2', note: 'fetched' }
+    };
+
+    expect(buildMetadataUpdates(entry, fetched)).toEqual({
+      author: [{ family: 'Doe', given: 'Jane' }],
+      DOI: '10.1000/xyz',
+      custom: { S2ID: 's2', note: 'kept' }
+    });
+    expect(buildMetadataUpdates({ ...entry, custom: { S2ID: 's2', note: 'kept' } }, { custom: { S2ID: 's2' } })).toEqual({});
+  });
+});
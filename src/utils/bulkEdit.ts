@@ -0,0 +1,74 @@
+// Edits applied to several entries at once.
+// Each builder returns updates keyed by entry ID for updateEntries, leaving
+// out entries that would not change, so a bulk edit is applied as one change.
+
+/**
+ * Splits a CSL keyword field into keywords
+ * @param value Keywords separated by commas or semicolons
+ */
+export function splitKeywords(value: unknown): string[] {
+  return typeof value === 'string'
+    ? value.split(/\s*[,;]\s*/).map(keyword => keyword.trim()).filter(keyword => keyword)
+    : [];
+}
+
+/**
+ * Builds the updates that set or clear a field
+ * @param entries Entries to edit
+ * @param field CSL field name
+ * @param value New value, or undefined to clear the field
+ * @returns Field updates keyed by entry ID
+ */
+export function buildSetFieldUpdates(entries: any[], field: string, value?: string): Record<string, Record<string, any>> {
+  const updates: Record<string, Record<string, any>> = {};
+  entries.forEach(entry => {
+    const changes = value === undefined ? entry[field] !== undefined : entry[field] !== value;
+    if (changes) updates[entry.id] = { [field]: value };
+  });
+  return updates;
+}
+
+/**
+ * Builds the updates that add and remove keywords, compared without case
+ * @param entries Entries to edit
+ * @param add Keywords to add where missing
+ * @param remove Keywords to remove
+ * @returns Keyword updates keyed by entry ID; an emptied field is cleared
+ */
+export function buildKeywordUpdates(entries: any[], add: string[], remove: string[]): Record<string, Record<string, any>> {
+  const removed = new Set(remove.map(keyword => keyword.toLowerCase()));
+  const updates: Record<string, Record<string, any>> = {};
+
+  entries.forEach(entry => {
+    const current = splitKeywords(entry.keyword);
+    const keywords = current.filter(keyword => !removed.has(keyword.toLowerCase()));
+    add.forEach(keyword => {
+      if (!keywords.some(existing => existing.toLowerCase() === keyword.toLowerCase())) keywords.push(keyword);
+    });
+    // Compare the keywords rather than the text, so fields written with other separators stay as they are
+    if (keywords.length === current.length && keywords.every((keyword, index) => keyword === current[index])) return;
+    updates[entry.id] = { keyword: keywords.length > 0 ? keywords.join(', ') : undefined };
+  });
+  return updates;
+}
+
+/**
+ * Builds the updates that fill empty fields of an entry from fetched metadata
+ * @param entry Library entry
+ * @param fetched Entry converted from Semantic Scholar
+ * @returns Updates for the fields the entry lacks, plus the Semantic Scholar
+ * IDs; existing values are kept
+ */
+export function buildMetadataUpdates(entry: any, fetched: any): Record<string, any> {
+  const updates: Record<string, any> = {};
+  Object.keys(fetched).forEach(field => {
+    if (['id', 'citation-key', 'type', 'custom'].includes(field) || fetched[field] === undefined) return;
+    const current = entry[field];
+    const isEmpty = current === undefined || current === '' || (Array.isArray(current) && current.length === 0);
+    if (isEmpty) updates[field] = fetched[field];
+  });
+
+  const custom = { ...fetched.custom, ...entry.custom };
+  if (JSON.stringify(custom) !== JSON.stringify(entry.custom || {})) updates.custom = custom;
+  return updates;
+}
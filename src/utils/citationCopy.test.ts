@@ -0,0 +1,42 @@
+import { formatCitationCopy } from './citationCopy';
+
+const ENTRIES = [
+  {
+    id: 'doe2020',
+    'citation-key': 'doe2020',
+    type: 'article-journal',
+    title: 'Learning to cite',
+    author: [{ family: 'Doe', given: 'Jane' }],
+    'container-title': 'pami',
+    issued: { 'date-parts': [[2020]] },
+    _graph: [{ type: '@biblatex/text' }]
+  },
+  { id: 'roe2021', type: 'book', title: 'A Book', author: [{ literal: 'org' }], issued: { 'date-parts': [[2021]] } }
+];
+const OPTIONS = { style: 'apa', locale: 'en-US' };
+const VARIABLES = { pami: 'Pattern Analysis', org: '{World Health Organization}' };
+
+describe('formatCitationCopy', () => {
+  it('writes styled and in-text citations with plain text and HTML', async () => {
+    const bibliography = await formatCitationCopy(ENTRIES, 'bibliography', OPTIONS, VARIABLES);
+    expect(bibliography.text).toContain('Doe, J. (2020). Learning to cite. Pattern Analysis.');
+    expect(bibliography.html).toContain('csl-entry');
+
+    const inText = await formatCitationCopy(ENTRIES, 'in-text', OPTIONS, VARIABLES);
+    expect(inText.text).toBe('(Doe, 2020; World Health Organization, 2021)');
+  });
+
+  it('writes BibTeX and CSL-JSON with macros expanded', async () => {
+    const bibtex = await formatCitationCopy(ENTRIES, 'bibtex', OPTIONS, VARIABLES);
+    expect(bibtex.text).toMatch(/journal = \{Pattern Analysis\}/);
+    expect(bibtex.html).toMatch(/^<pre>@article\{doe2020,/);
+
+    const json = JSON.parse((await formatCitationCopy(ENTRIES, 'csl-json', OPTIONS, VARIABLES)).text);
+    expect(json[0]['container-title']).toBe('Pattern Analysis');
+    expect(json[0]._graph).toBeUndefined();
+  });
+
+  it('writes a \\cite command with the citation keys', async () => {
+    expect(await formatCitationCopy(ENTRIES, 'cite-command', OPTIONS)).toEqual({ text: '\\cite{doe2020,roe2021}' });
+  });
+});
@@ -0,0 +1,85 @@
+// Clipboard formats for copying entries into documents.
+// Every format has a plain text version; styled formats also carry HTML so
+// word processors paste them with formatting.
+import Cite from 'citation-js';
+import { ensureLocale, ensureStyle, formatBibliography } from './bibliographyFormatter';
+import { formatEntriesAsBibTeX } from './bibtexWriter';
+import { resolveEntryVariables } from './cslUtils';
+
+export type CitationCopyFormat = 'bibliography' | 'in-text' | 'bibtex' | 'csl-json' | 'cite-command';
+
+export const CITATION_COPY_FORMATS: Array<{ id: CitationCopyFormat; label: string; styled: boolean }> = [
+  { id: 'bibliography', label: 'Styled citation', styled: true },
+  { id: 'in-text', label: 'In-text citation', styled: true },
+  { id: 'bibtex', label: 'BibTeX', styled: false },
+  { id: 'csl-json', label: 'CSL-JSON', styled: false },
+  { id: 'cite-command', label: '\\cite{...} command', styled: false }
+];
+
+export interface ClipboardContent {
+  text: string;
+  html?: string;
+}
+
+// Escapes text for the HTML version of unstyled formats
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Wraps code-like output so it keeps its line breaks when pasted as HTML
+function preformatted(text: string): ClipboardContent {
+  return { text, html: `<pre>${escapeHTML(text)}</pre>` };
+}
+
+/**
+ * Formats entries for the clipboard
+ * @param entries CSL entries to copy
+ * @param format Clipboard format
+ * @param options Style and locale for styled formats
+ * @param variables @STRING variables; references are expanded so the copied
+ * text stands on its own
+ * @returns Plain text and HTML versions
+ */
+export async function formatCitationCopy(
+  entries: any[],
+  format: CitationCopyFormat,
+  options: { style: string; locale: string },
+  variables: Record<string, string> = {}
+): Promise<ClipboardContent> {
+  const keys = entries.map(entry => entry['citation-key'] || entry.id);
+  const resolved = entries.map(entry => resolveEntryVariables(entry, variables));
+
+  switch (format) {
+    case 'bibliography': {
+      await Promise.all([ensureStyle(options.style), ensureLocale(options.locale)]);
+      return {
+        text: formatBibliography(resolved, { ...options, format: 'text' }).trim(),
+        html: formatBibliography(resolved, { ...options, format: 'html' })
+      };
+    }
+
+    case 'in-text': {
+      await Promise.all([ensureStyle(options.style), ensureLocale(options.locale)]);
+      const cite = new Cite(resolved);
+      return {
+        text: cite.format('citation', { template: options.style, lang: options.locale, format: 'text' }),
+        html: cite.format('citation', { template: options.style, lang: options.locale, format: 'html' })
+      };
+    }
+
+    case 'bibtex': {
+      // Macros are expanded, so the block does not need the library's @STRINGs
+      return preformatted(formatEntriesAsBibTeX(resolved, {}).join('\n\n'));
+    }
+
+    case 'csl-json': {
+      const data = resolved.map(entry =>
+        Object.fromEntries(Object.entries(entry).filter(([key]) => !key.startsWith('_')))
+      );
+      return preformatted(JSON.stringify(data, null, 2));
+    }
+
+    case 'cite-command':
+      return { text: `\\cite{${keys.join(',')}}` };
+  }
+}
@@ -0,0 +1,66 @@
+import { formatCitationKey, generateCitationKey, parseKeyPattern, regenerateCitationKeys } from './citationKeyPattern';
+
+const ENTRY = {
+  id: 'old',
+  title: 'The Art of Computer Programming',
+  author: [{ family: 'Knuth', given: 'Donald' }, { family: 'Müller', given: 'Anna' }, { family: 'Roe', given: 'R.' }],
+  'container-title': 'Communications of the ACM',
+  issued: { 'date-parts': [[1968]] }
+};
+
+describe('parseKeyPattern', () => {
+  it('splits literal text and fields with options', () => {
+    expect(parseKeyPattern('[auth:lower]_[year][shorttitle:2]')).toEqual([
+      { kind: 'field', name: 'auth', modifiers: ['lower'] },
+      { kind: 'text', value: '_' },
+      { kind: 'field', name: 'year', modifiers: [] },
+      { kind: 'field', name: 'shorttitle', count: 2, modifiers: [] }
+    ]);
+  });
+
+  it('rejects unknown fields, options and unclosed brackets', () => {
+    expect(() => parseKeyPattern('[editor]')).toThrow(/editor/);
+    expect(() => parseKeyPattern('[auth:shout]')).toThrow(/shout/);
+    expect(() => parseKeyPattern('[auth')).toThrow();
+  });
+});
+
+describe('formatCitationKey', () => {
+  it('fills in the fields of the entry', () => {
+    expect(formatCitationKey(ENTRY)).toBe('knuth1968');
+    expect(formatCitationKey(ENTRY, '[auth][shortyear]')).toBe('Knuth68');
+    expect(formatCitationKey(ENTRY, '[authors:2]')).toBe('KnuthMullerEtAl');
+    expect(formatCitationKey(ENTRY, '[authetal]')).toBe('KnuthEtAl');
+    expect(formatCitationKey(ENTRY, '[shorttitle]')).toBe('ArtComputerProgramming');
+    expect(formatCitationKey(ENTRY, '[title:2:upper]')).toBe('THEART');
+    expect(formatCitationKey(ENTRY, '[journal]')).toBe('CA');
+  });
+
+  it('falls back to the title and prefixes keys that do not start with a letter', () => {
+    expect(formatCitationKey({ title: 'Anonymous Work' })).toBe('anonymous');
+    expect(formatCitationKey({ issued: { 'date-parts': [[2020]] } }, '[year]')).toBe('entry2020');
+  });
+});
+
+describe('generateCitationKey', () => {
+  it('adds a, b, ... z, aa when the key is taken', () => {
+    expect(generateCitationKey(ENTRY, new Set())).toBe('knuth1968');
+    expect(generateCitationKey(ENTRY, new Set(['knuth1968', 'knuth1968a']))).toBe('knuth1968b');
+
+    const taken = new Set(['knuth1968', ...'abcdefghijklmnopqrstuvwxyz'.split('').map(letter => `knuth1968${letter}`)]);
+    expect(generateCitationKey(ENTRY, taken)).toBe('knuth1968aa');
+  });
+});
+
+describe('regenerateCitationKeys', () => {
+  it('renames only entries whose key changes, keeping other keys taken', () => {
+    const entries = [
+      { ...ENTRY, id: 'knuth1968' },
+      { ...ENTRY, id: 'second' },
+      { ...ENTRY, id: 'knuth1968a', title: 'Other' }
+    ];
+    expect(regenerateCitationKeys(entries.slice(0, 2), entries, '[auth:lower][year]')).toEqual({
+      second: 'knuth1968b'
+    });
+  });
+});
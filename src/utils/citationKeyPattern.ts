@@ -0,0 +1,206 @@
+// Citation key patterns.
+// A pattern mixes literal text with [field:option...] placeholders, for example
+// "[auth:lower][year][shorttitle:2]". Numeric options set a count, the others
+// change the case. Keys that are taken get a disambiguation suffix a, b, ... z, aa, ...
+import { getYear } from './cslUtils';
+
+export const DEFAULT_KEY_PATTERN = '[auth:lower][year]';
+
+type KeyModifier = 'lower' | 'upper' | 'capitalize';
+
+interface KeyPatternField {
+  kind: 'field';
+  name: string;
+  count?: number;
+  modifiers: KeyModifier[];
+}
+
+type KeyPatternPart = { kind: 'text'; value: string } | KeyPatternField;
+
+// Words left out of short titles
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is', 'of', 'on', 'or', 'the', 'to', 'via', 'with'
+]);
+
+// Reduces text to ASCII letters and digits
+function toKeyText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-zA-Z0-9]/g, '');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function getNames(entry: any): any[] {
+  return entry.author?.length ? entry.author : entry.editor || [];
+}
+
+function nameText(name: any): string {
+  return toKeyText(name?.family || name?.literal || '');
+}
+
+function titleWords(entry: any): string[] {
+  return String(entry.title || '').split(/\s+/).map(toKeyText).filter(word => word);
+}
+
+// Field values before modifiers are applied
+const KEY_FIELDS: Record<string, (entry: any, count?: number) => string> = {
+  // First author's family name, its first `count` letters when given. Entries
+  // without authors use the first title word.
+  auth: (entry, count) => {
+    const name = nameText(getNames(entry)[0]) || titleWords(entry)[0] || '';
+    return count ? name.slice(0, count) : name;
+  },
+  // Family names of the first `count` authors (all by default), "EtAl" for the rest
+  authors: (entry, count) => {
+    const names = getNames(entry).map(nameText);
+    const shown = count ? names.slice(0, count) : names;
+    return shown.join('') + (names.length > shown.length ? 'EtAl' : '');
+  },
+  // One author: Smith, two: SmithJones, more: SmithEtAl
+  authetal: (entry) => {
+    const names = getNames(entry).map(nameText);
+    return names.length > 2 ? `${names[0]}EtAl` : names.join('');
+  },
+  year: (entry) => getYear(entry),
+  shortyear: (entry) => getYear(entry).slice(-2),
+  // Title words in CamelCase, the first `count` when given
+  title: (entry, count) => titleWords(entry).slice(0, count).map(capitalize).join(''),
+  // First `count` (default 3) words that are not function words
+  shorttitle: (entry, count = 3) => titleWords(entry)
+    .filter(word => !FUNCTION_WORDS.has(word.toLowerCase()))
+    .slice(0, count)
+    .map(capitalize)
+    .join(''),
+  veryshorttitle: (entry) => KEY_FIELDS.shorttitle(entry, 1),
+  // Initials of the journal or book title: "Nature Communications" gives "NC"
+  journal: (entry) => String(entry['container-title'] || '')
+    .split(/\s+/)
+    .filter(word => !FUNCTION_WORDS.has(word.toLowerCase()))
+    .map(word => toKeyText(word).charAt(0).toUpperCase())
+    .join('')
+};
+
+export const KEY_PATTERN_FIELDS = Object.keys(KEY_FIELDS);
+
+const KEY_MODIFIERS: KeyModifier[] = ['lower', 'upper', 'capitalize'];
+
+/**
+ * Parses a key pattern
+ * @param pattern Pattern such as "[auth:lower][year]"
+ * @returns Literal text and field parts
+ * @throws Error naming the first unknown field, option or unclosed bracket
+ */
+export function parseKeyPattern(pattern: string): KeyPatternPart[] {
+  const parts: KeyPatternPart[] = [];
+  let rest = pattern;
+
+  while (rest) {
+    const open = rest.indexOf('[');
+    if (open === -1) {
+      parts.push({ kind: 'text', value: rest });
+      break;
+    }
+    if (open > 0) {
+      parts.push({ kind: 'text', value: rest.slice(0, open) });
+    }
+    const close = rest.indexOf(']', open);
+    if (close === -1) {
+      throw new Error(`Missing "]" after "${rest.slice(open)}"`);
+    }
+
+    const [name, ...options] = rest.slice(open + 1, close).split(':').map(item => item.trim());
+    if (!KEY_FIELDS[name]) {
+      throw new Error(`Unknown field "[${name}]". Available fields: ${KEY_PATTERN_FIELDS.join(', ')}`);
+    }
+    const field: KeyPatternField = { kind: 'field', name, modifiers: [] };
+    options.forEach(option => {
+      if (/^\d+$/.test(option)) {
+        field.count = parseInt(option, 10);
+      } else if (KEY_MODIFIERS.includes(option as KeyModifier)) {
+        field.modifiers.push(option as KeyModifier);
+      } else {
+        throw new Error(`Unknown option "${option}" in "[${name}]". Use a number or ${KEY_MODIFIERS.join(', ')}`);
+      }
+    });
+    parts.push(field);
+    rest = rest.slice(close + 1);
+  }
+
+  return parts;
+}
+
+function applyModifiers(value: string, modifiers: KeyModifier[]): string {
+  return modifiers.reduce((text, modifier) => {
+    if (modifier === 'lower') return text.toLowerCase();
+    if (modifier === 'upper') return text.toUpperCase();
+    return capitalize(text.toLowerCase());
+  }, value);
+}
+
+/**
+ * Builds the key an entry gets from a pattern, without disambiguation
+ * @param entry CSL entry
+ * @param pattern Key pattern
+ * @returns Key; prefixed with "entry" when it does not start with a letter
+ */
+export function formatCitationKey(entry: any, pattern: string = DEFAULT_KEY_PATTERN): string {
+  const key = parseKeyPattern(pattern).map(part => (
+    part.kind === 'text'
+      ? part.value.replace(/[^a-zA-Z0-9_\-:.]/g, '')
+      : applyModifiers(KEY_FIELDS[part.name](entry, part.count), part.modifiers)
+  )).join('');
+  return /^[a-zA-Z]/.test(key) ? key : `entry${key}`;
+}
+
+function disambiguationSuffix(index: number): string {
+  let suffix = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    suffix = String.fromCharCode(97 + ((n - 1) % 26)) + suffix;
+  }
+  return suffix;
+}
+
+/**
+ * Builds a key from a pattern that is not in usedKeys
+ * @param entry CSL entry
+ * @param usedKeys Keys already taken
+ * @param pattern Key pattern
+ * @returns Unique key, with a suffix a, b, ... when the plain key is taken
+ */
+export function generateCitationKey(entry: any, usedKeys: Set<string>, pattern: string = DEFAULT_KEY_PATTERN): string {
+  const base = formatCitationKey(entry, pattern);
+  let key = base;
+  for (let index = 0; usedKeys.has(key); index++) {
+    key = `${base}${disambiguationSuffix(index)}`;
+  }
+  return key;
+}
+
+/**
+ * Computes new keys for a set of entries
+ * @param entries Entries to re-key, in the order suffixes are assigned
+ * @param allEntries All library entries; keys of the others stay taken
+ * @param pattern Key pattern
+ * @returns New ID per old ID, only for entries whose key changes
+ */
+export function regenerateCitationKeys(entries: any[], allEntries: any[], pattern: string): Record<string, string> {
+  const rekeyed = new Set(entries.map(entry => entry.id));
+  const usedKeys = new Set(allEntries.filter(entry => !rekeyed.has(entry.id)).map(entry => entry.id));
+  const renames: Record<string, string> = {};
+
+  entries.forEach(entry => {
+    const key = generateCitationKey(entry, usedKeys, pattern);
+    usedKeys.add(key);
+    if (key !== entry.id) {
+      renames[entry.id] = key;
+    }
+  });
+
+  return renames;
+}
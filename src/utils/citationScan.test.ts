@@ -0,0 +1,49 @@
+import { analyzeCitationScan, getCitedEntries, scanDocumentCitations, suggestMissingKeys } from './citationScan';
+
+const ENTRIES = [
+  { id: 'doe2020', 'citation-key': 'doe2020', custom: { crossref: 'proc2020' } },
+  { id: 'proc2020', 'citation-key': 'proc2020', custom: { crossref: 'series' } },
+  { id: 'series', 'citation-key': 'series' },
+  { id: 'roe2021', 'citation-key': 'roe2021', custom: { ids: 'roe-2021' } },
+  { id: 'unused', 'citation-key': 'unused' }
+];
+
+function scan(keys: string[], citesAll = false) {
+  return { files: ['paper.tex'], keys, citesAll };
+}
+
+describe('analyzeCitationScan', () => {
+  it('splits the library into cited, parent and unused entries', () => {
+    const report = analyzeCitationScan(ENTRIES, scan(['doe2020', 'roe-2021', 'doe2021']));
+    expect(report.cited.map(entry => entry.id)).toEqual(['doe2020', 'roe2021']);
+    expect(report.parents.map(entry => entry.id)).toEqual(['proc2020', 'series']);
+    expect(report.unused.map(entry => entry.id)).toEqual(['unused']);
+    expect(report.missing).toEqual(['doe2021']);
+  });
+
+  it('cites every entry for \\nocite{*}', () => {
+    expect(analyzeCitationScan(ENTRIES, scan([], true)).unused).toEqual([]);
+  });
+});
+
+describe('getCitedEntries', () => {
+  it('keeps cited entries and their parents in library order', () => {
+    expect(getCitedEntries(ENTRIES, scan(['proc2020', 'roe2021'])).map(entry => entry.id)).toEqual(['proc2020', 'series', 'roe2021']);
+    expect(getCitedEntries(ENTRIES, undefined)).toEqual([]);
+  });
+});
+
+describe('suggestMissingKeys', () => {
+  it('suggests similar library keys', () => {
+    expect(suggestMissingKeys(['doe2021'], ENTRIES).doe2021).toContain('doe2020');
+  });
+});
+
+describe('scanDocumentCitations', () => {
+  it('scans LaTeX and Markdown files together', () => {
+    expect(scanDocumentCitations([
+      { name: 'paper.tex', content: '\\cite{doe2020}' },
+      { name: 'notes.md', content: 'See [@roe2021; @doe2020].' }
+    ])).toEqual({ files: ['paper.tex', 'notes.md'], keys: ['doe2020', 'roe2021'], citesAll: false });
+  });
+});
@@ -0,0 +1,124 @@
+// Comparison of the keys a document cites with the library.
+// Used to trim a library to the entries a manuscript actually needs.
+import { CitationScan } from '../types/citationTypes';
+import { scanLatexCitations } from './latexCitations';
+import { scanPandocCitations } from './pandocCitations';
+import { suggestSimilarKeys } from './searchSimilarity';
+
+// Document files that can be scanned for citations
+export const CITATION_SCAN_FILE_ACCEPT = '.aux,.tex,.md,.markdown,.qmd';
+
+export interface CitationScanReport {
+  cited: any[]; // library entries the document cites
+  missing: string[]; // cited keys without a library entry
+  unused: any[]; // library entries the document does not cite
+  parents: any[]; // crossref parents of cited entries that are not cited themselves
+}
+
+/**
+ * Scans LaTeX (.tex, .aux) and Pandoc Markdown (.md, .qmd) files together
+ * @param files File names and contents
+ * @returns Cited keys of all files in order of first citation
+ */
+export function scanDocumentCitations(files: Array<{ name: string; content: string }>): CitationScan {
+  const latexFiles = files.filter(file => /\.(tex|aux)$/i.test(file.name));
+  const markdownFiles = files.filter(file => !latexFiles.includes(file));
+  const scans = [scanLatexCitations(latexFiles), scanPandocCitations(markdownFiles)];
+
+  return {
+    files: files.map(file => file.name),
+    keys: [...new Set(scans.flatMap(scan => scan.keys))],
+    citesAll: scans.some(scan => scan.citesAll)
+  };
+}
+
+/**
+ * Returns the key an entry is cited with
+ * @param entry CSL entry
+ */
+export function getEntryCitationKey(entry: any): string {
+  return entry['citation-key'] || entry.id;
+}
+
+/**
+ * Splits the `ids` alias list of an entry; documents may cite any alias
+ * @param entry CSL entry
+ * @returns Alias keys
+ */
+export function getEntryAliases(entry: any): string[] {
+  const ids = entry.custom?.ids;
+  return typeof ids === 'string' ? ids.split(',').map(id => id.trim()).filter(id => id) : [];
+}
+
+// Citation.js merges crossref parents into their children and drops the
+// field, so the parent key is kept in entry.custom
+function getCrossrefKey(entry: any): string | undefined {
+  return entry.custom?.crossref || entry.crossref;
+}
+
+/**
+ * Compares a citation scan with the library
+ * @param entries Library entries
+ * @param scan Keys cited by the document
+ * @returns Cited, missing and unused entries plus required crossref parents
+ */
+export function analyzeCitationScan(entries: any[], scan: CitationScan): CitationScanReport {
+  const entriesByKey = new Map<string, any>();
+  entries.forEach(entry => {
+    getEntryAliases(entry).forEach(alias => entriesByKey.set(alias, entry));
+  });
+  entries.forEach(entry => entriesByKey.set(getEntryCitationKey(entry), entry));
+
+  const cited = scan.citesAll
+    ? [...entries]
+    : [...new Set(scan.keys.flatMap(key => entriesByKey.get(key) ?? []))];
+  const missing = scan.keys.filter(key => !entriesByKey.has(key));
+  const citedSet = new Set(cited);
+
+  // Follow crossref chains (a chapter in a collection in a series)
+  const parents: any[] = [];
+  const queue = [...cited];
+  while (queue.length > 0) {
+    const parentKey = getCrossrefKey(queue.shift());
+    const parent = parentKey ? entriesByKey.get(parentKey) : undefined;
+    if (parent && !citedSet.has(parent) && !parents.includes(parent)) {
+      parents.push(parent);
+      queue.push(parent);
+    }
+  }
+
+  const needed = new Set([...cited, ...parents]);
+  const unused = entries.filter(entry => !needed.has(entry));
+
+  return { cited, missing, unused, parents };
+}
+
+/**
+ * Suggests library keys for cited keys that are missing, which are often typos
+ * @param missing Cited keys without a library entry
+ * @param entries Library entries
+ * @returns Similar library keys per missing key
+ */
+export function suggestMissingKeys(missing: string[], entries: any[]): Record<string, string[]> {
+  const libraryKeys = entries.map(getEntryCitationKey);
+  const suggestions: Record<string, string[]> = {};
+  missing.forEach(key => {
+    suggestions[key] = suggestSimilarKeys(key, libraryKeys);
+  });
+  return suggestions;
+}
+
+/**
+ * Returns the entries a document needs: cited entries and their crossref
+ * parents, in library order
+ * @param entries Library entries
+ * @param scan Keys cited by the document
+ */
+export function getCitedEntries(entries: any[], scan: CitationScan | undefined): any[] {
+  if (!scan) {
+    return [];
+  }
+  const { unused } = analyzeCitationScan(entries, scan);
+  const unusedSet = new Set(unused);
+  return entries.filter(entry => !unusedSet.has(entry));
+}
@@ -0,0 +1,17 @@
+/**
+ * Copies text to the clipboard, optionally with an HTML version that rich text
+ * editors (Word, Google Docs) paste with formatting
+ * @param content Plain text and optional HTML representation
+ */
+export async function copyToClipboard(content: { text: string; html?: string }): Promise<void> {
+  if (content.html && 'ClipboardItem' in window) {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/html': new Blob([content.html], { type: 'text/html' }),
+        'text/plain': new Blob([content.text], { type: 'text/plain' })
+      })
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(content.text);
+}
@@ -0,0 +1,55 @@
+import { getEntriesInScope, resolveEntryVariables } from './cslUtils';
+
+describe('getEntriesInScope', () => {
+  const entries = [
+    { id: 'doe2020', type: 'book', title: 'Graphs', issued: { 'date-parts': [[2020]] } },
+    { id: 'roe2021', type: 'article-journal', title: 'Trees', issued: { 'date-parts': [[2021]] } },
+    { id: 'knuth1984', type: 'book', title: 'The TeXbook', issued: { 'date-parts': [[1984]] } }
+  ];
+  const state = {
+    cite: { data: entries },
+    filters: { searchText: '', authorFilter: '', yearRange: { from: 2000 }, typeFilter: 'book', customFilters: {} },
+    variables: {},
+    selection: { type: 'entry' as const, items: ['knuth1984', 'roe2021'] },
+    citationScan: { files: ['paper.tex'], keys: ['roe2021'], citesAll: false }
+  } as any;
+
+  it('returns the library, the filter result, the selection or the cited entries', () => {
+    expect(getEntriesInScope(state, 'all')).toBe(entries);
+    expect(getEntriesInScope(state, 'filtered').map(entry => entry.id)).toEqual(['doe2020']);
+    expect(getEntriesInScope(state, 'selected').map(entry => entry.id)).toEqual(['roe2021', 'knuth1984']);
+    expect(getEntriesInScope(state, 'cited').map(entry => entry.id)).toEqual(['roe2021']);
+  });
+
+  it('selects nothing while authors are selected', () => {
+    expect(getEntriesInScope({ ...state, selection: { type: 'author', items: ['Doe'] } }, 'selected')).toEqual([]);
+  });
+});
+
+describe('resolveEntryVariables', () => {
+  const variables = { acm: 'Association for Computing Machinery', team: 'Doe, Jane and Roe, Richard' };
+
+  it('expands text and name macros', () => {
+    expect(resolveEntryVariables({
+      id: 'acm',
+      type: 'book',
+      publisher: 'acm',
+      author: [{ literal: 'team' }, { family: 'Knuth', given: 'Donald' }]
+    }, variables)).toEqual({
+      id: 'acm',
+      type: 'book',
+      publisher: 'Association for Computing Machinery',
+      author: [
+        { family: 'Doe', given: 'Jane' },
+        { family: 'Roe', given: 'Richard' },
+        { family: 'Knuth', given: 'Donald' }
+      ]
+    });
+  });
+
+  it('returns entries without references unchanged', () => {
+    const entry = { id: 'a', title: 'Title' };
+    expect(resolveEntryVariables(entry, variables)).toEqual(entry);
+    expect(resolveEntryVariables(entry)).toBe(entry);
+  });
+});
@@ -1,4 +1,9 @@
 // Utility functions for working with CSL-JSON data from Citation.js
+import type { CitationUIState, ExportScope, FilterState } from '../types/citationTypes';
+import { parseBibTeXNameList } from './bibtexNames';
+import { getCitedEntries } from './citationScan';
+import { latexToUnicode } from './latexUnicode';
+import { stripNocaseSpans } from './titleProtection';
 
 // Extract year from CSL-JSON issued field
 export function getYear(entry: any): string {
@@ -17,6 +22,14 @@ export function getYear(entry: any): string {
   return '';
 }
 
+// Personal name in reading order, e.g. "Ludwig van Beethoven" or
+// "Martin Luther King Jr."; LaTeX commands are kept
+export function getPersonName(author: any): string {
+  return [author.given, author['dropping-particle'], author['non-dropping-particle'], author.family, author.suffix]
+    .filter(Boolean)
+    .join(' ');
+}
+
 // Format authors from CSL-JSON format
 export function formatAuthors(authors: any[], variables?: Record<string, string>): string {
   if (!Array.isArray(authors) || authors.length === 0) return '';
@@ -25,18 +38,12 @@ export function formatAuthors(authors: any[], variables?: Record<string, string>
     if (author.literal) {
       // If it's a variable reference and we have variables, show the value
       if (variables && variables[author.literal]) {
-        return variables[author.literal];
+        return latexToUnicode(variables[author.literal]);
       }
-      return author.literal;
+      return latexToUnicode(author.literal);
     }
     
-    const given = author.given || '';
-    const family = author.family || '';
-    
-    if (given && family) {
-      return `${given} ${family}`;
-    }
-    return family || given || '';
+    return latexToUnicode(getPersonName(author));
   }).join(', ');
 }
 
@@ -48,29 +55,60 @@ export function formatAuthorsLastFirst(authors: any[], variables?: Record<string
     if (author.literal) {
       // If it's a variable reference and we have variables, show the value
       if (variables && variables[author.literal]) {
-        return variables[author.literal];
+        return latexToUnicode(variables[author.literal]);
       }
-      return author.literal;
+      return latexToUnicode(author.literal);
     }
     
-    const given = author.given || '';
-    const family = author.family || '';
-    
-    if (given && family) {
-      return `${family}, ${given}`;
-    }
-    return family || given || '';
+    // "van Beethoven, Ludwig", "King, Martin Luther, Jr."
+    const family = [author['non-dropping-particle'], author.family].filter(Boolean).join(' ');
+    const given = [author.given, author['dropping-particle']].filter(Boolean).join(' ');
+    return latexToUnicode([family, given, author.suffix].filter(Boolean).join(', '));
   }).join('; ');
 }
 
 // Get the main title from CSL-JSON
 export function getTitle(entry: any): string {
-  return entry.title || '';
+  return stripNocaseSpans(latexToUnicode(entry.title || ''));
+}
+
+// Resolve a text field value that may reference an @STRING variable, with
+// LaTeX commands in the value decoded
+export function resolveVariable(value: string, variables?: Record<string, string>): string {
+  if (variables && value && variables[value]) {
+    return latexToUnicode(variables[value]);
+  }
+  return latexToUnicode(value);
 }
 
 // Get the container title (journal, book, etc.)
-export function getContainerTitle(entry: any): string {
-  return entry['container-title'] || '';
+export function getContainerTitle(entry: any, variables?: Record<string, string>): string {
+  return resolveVariable(entry['container-title'] || '', variables);
+}
+
+// Fields that identify an entry; a key that happens to match a variable name
+// is not a reference
+const IDENTITY_FIELDS = ['id', 'type', 'citation-key'];
+
+// Copy of an entry with every @STRING reference replaced by the variable's
+// value, for output that has no macros (CSL-JSON, formatted citations)
+export function resolveEntryVariables(entry: any, variables?: Record<string, string>): any {
+  if (!variables || Object.keys(variables).length === 0) return entry;
+
+  const resolved: any = { ...entry };
+  Object.keys(entry).forEach(field => {
+    const value = entry[field];
+    if (IDENTITY_FIELDS.includes(field)) return;
+    if (typeof value === 'string' && variables[value]) {
+      resolved[field] = resolveVariable(value, variables);
+    } else if (Array.isArray(value) && value.some(name => variables[name?.literal])) {
+      // A name macro expands to a name list, as BibTeX reads it
+      resolved[field] = value.flatMap(name => (
+        variables[name?.literal] ? parseBibTeXNameList(variables[name.literal]) : [name]
+      ));
+    }
+  });
+  return resolved;
 }
 
 // Get pages in a readable format
@@ -106,8 +144,7 @@ export function getAllAuthorNames(entries: any[], variables?: Record<string, str
           // If it's a variable reference and we have variables, show the value
           name = (variables && variables[author.literal]) ? variables[author.literal] : author.literal;
         } else {
-          name = (author.family && author.given ? `${author.given} ${author.family}` : 
-                  author.family || author.given || '');
+          name = getPersonName(author);
         }
         if (name) authorSet.add(name);
       });
@@ -119,8 +156,7 @@ export function getAllAuthorNames(entries: any[], variables?: Record<string, str
           // If it's a variable reference and we have variables, show the value
           name = (variables && variables[editor.literal]) ? variables[editor.literal] : editor.literal;
         } else {
-          name = (editor.family && editor.given ? `${editor.given} ${editor.family}` : 
-                  editor.family || editor.given || '');
+          name = getPersonName(editor);
         }
         if (name) authorSet.add(name);
       });
@@ -141,7 +177,8 @@ export function filterEntriesByText(entries: any[], searchText: string, variable
       getTitle(entry),
       formatAuthors(entry.author || [], variables),
       formatAuthors(entry.editor || [], variables),
-      getContainerTitle(entry),
+      getContainerTitle(entry, variables),
+      resolveVariable(entry.publisher || '', variables),
       getYear(entry),
       entry.id || '',
       entry.DOI || '',
@@ -168,10 +205,9 @@ export function filterEntriesByAuthor(entries: any[], authorName: string, variab
         // If it's a variable reference and we have variables, check both the value and the key
         name = (variables && variables[author.literal]) ? variables[author.literal] : author.literal;
       } else {
-        name = (author.family && author.given ? `${author.given} ${author.family}` : 
-                author.family || author.given || '');
+        name = getPersonName(author);
       }
-      return name.toLowerCase().includes(authorName.toLowerCase());
+      return latexToUnicode(name).toLowerCase().includes(latexToUnicode(authorName).toLowerCase());
     });
   });
 }
@@ -198,6 +234,50 @@ export function filterEntriesByType(entries: any[], type: string): any[] {
   return entries.filter(entry => entry.type === type);
 }
 
+// Apply all active filters of the literature view, keeping the entry order
+export function applyFilters(entries: any[], filters: FilterState, variables?: Record<string, string>): any[] {
+  let result = entries;
+
+  if (filters.searchText) {
+    result = filterEntriesByText(result, filters.searchText, variables);
+  }
+
+  if (filters.authorFilter) {
+    result = filterEntriesByAuthor(result, filters.authorFilter, variables);
+  }
+
+  if (filters.yearRange.from || filters.yearRange.to) {
+    result = filterEntriesByYearRange(result, filters.yearRange.from, filters.yearRange.to);
+  }
+
+  if (filters.typeFilter && filters.typeFilter !== 'all') {
+    result = filterEntriesByType(result, filters.typeFilter);
+  }
+
+  return result;
+}
+
+// Entries an export covers: the whole library, the filter result, the selection
+// or the entries a scanned document cites
+export function getEntriesInScope(
+  state: Pick<CitationUIState, 'cite' | 'filters' | 'variables' | 'selection' | 'citationScan'>,
+  scope: ExportScope
+): any[] {
+  switch (scope) {
+    case 'filtered':
+      return applyFilters(state.cite.data, state.filters, state.variables);
+    case 'selected': {
+      const selectedIds = new Set(state.selection.type === 'entry' ? state.selection.items : []);
+      return state.cite.data.filter((entry: any) => selectedIds.has(entry.id));
+    }
+    case 'cited':
+      return getCitedEntries(state.cite.data, state.citationScan);
+    case 'all':
+    default:
+      return state.cite.data;
+  }
+}
+
 // Sort entries by different criteria
 export function sortEntries(entries: any[], sortBy: string, direction: 'asc' | 'desc' = 'asc'): any[] {
   const sorted = [...entries].sort((a, b) => {
@@ -245,9 +325,7 @@ export function getEntriesByAuthor(entries: any[], authorName: string): any[] {
     ];
     
     return allAuthors.some(author => {
-      const name = author.literal || 
-                  (author.family && author.given ? `${author.given} ${author.family}` : 
-                   author.family || author.given || '');
+      const name = author.literal || getPersonName(author);
       return name === authorName;
     });
   });
@@ -365,4 +443,38 @@ export function formDataToEntry(formData: Record<string, any>): any {
   });
   
   return entry;
-} 
\ No newline at end of file
+} 
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Parse a free-form date ("2020-03-05", "2020/03", "March 5, 2020") into a CSL date
+export function parseDateString(value: string): any {
+  const text = value.trim();
+  const iso = /^(\d{4})(?:[-/](\d{1,2}))?(?:[-/](\d{1,2}))?/.exec(text);
+  if (iso) {
+    return { 'date-parts': [[iso[1], iso[2], iso[3]].filter(Boolean).map(part => parseInt(part as string))] };
+  }
+
+  const year = /\b(\d{4})\b/.exec(text);
+  if (!year) {
+    return text ? { literal: text } : undefined;
+  }
+  const dateParts = [parseInt(year[1])];
+  const monthName = /\b([a-z]{3})[a-z]*\.?/i.exec(text.replace(year[0], ''));
+  const month = monthName ? MONTH_NAMES.indexOf(monthName[1].toLowerCase()) : -1;
+  if (month !== -1) {
+    dateParts.push(month + 1);
+    const day = /\b(\d{1,2})\b/.exec(text.replace(year[0], ''));
+    if (day) dateParts.push(parseInt(day[1]));
+  }
+  return { 'date-parts': [dateParts] };
+}
+
+// Format a CSL date as "YYYY-MM-DD" (or as much of it as is known)
+export function formatDateParts(date: any): string {
+  const parts = date?.['date-parts']?.[0];
+  if (!parts || parts.length === 0) {
+    return date?.literal || '';
+  }
+  return parts.map((part: number, index: number) => (index === 0 ? String(part) : String(part).padStart(2, '0'))).join('-');
+}
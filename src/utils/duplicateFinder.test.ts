@@ -0,0 +1,59 @@
+import { buildMergeUpdates, findDuplicates } from './duplicateFinder';
+
+const ARTICLE = {
+  id: 'doe2020',
+  title: 'Learning to cite with large libraries',
+  author: [{ family: 'Doe', given: 'Jane' }],
+  issued: { 'date-parts': [[2020]] }
+};
+
+describe('findDuplicates', () => {
+  it('pairs entries with the same DOI in any spelling', () => {
+    const [pair, ...rest] = findDuplicates([
+      { id: 'a', title: 'One', DOI: '10.1000/XYZ' },
+      { id: 'b', title: 'Two', DOI: 'https://doi.org/10.1000/xyz' },
+      { id: 'c', title: 'Three', DOI: '10.1000/other' }
+    ]);
+    expect(rest).toHaveLength(0);
+    expect(pair.entries.map(entry => entry.id)).toEqual(['a', 'b']);
+    expect(pair).toMatchObject({ score: 1, reasons: ['doi'] });
+  });
+
+  it('pairs entries with the same Semantic Scholar ID', () => {
+    const [pair] = findDuplicates([
+      { id: 'a', title: 'One', custom: { S2ID: 's2' } },
+      { id: 'b', title: 'Two', custom: { S2ID: 's2' } }
+    ]);
+    expect(pair.reasons).toEqual(['s2id']);
+  });
+
+  it('pairs similar titles of the same year and first author', () => {
+    const candidates = findDuplicates([
+      ARTICLE,
+      { ...ARTICLE, id: 'doe2020a', title: 'Learning to Cite with Large Libraries.' },
+      { ...ARTICLE, id: 'doe2021', issued: { 'date-parts': [[2021]] } },
+      { ...ARTICLE, id: 'roe2020', author: [{ family: 'Roe', given: 'Richard' }] }
+    ]);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].entries.map(entry => entry.id)).toEqual(['doe2020', 'doe2020a']);
+    expect(candidates[0].reasons).toEqual(['title']);
+  });
+
+  it('scores undated pairs lower', () => {
+    const [dated] = findDuplicates([ARTICLE, { ...ARTICLE, id: 'copy' }]);
+    const [undated] = findDuplicates([ARTICLE, { ...ARTICLE, id: 'copy', issued: undefined }]);
+    expect(undated.score).toBeLessThan(dated.score);
+  });
+});
+
+describe('buildMergeUpdates', () => {
+  it('keeps the removed key and its aliases as aliases', () => {
+    const keep = { id: 'doe2020', custom: { ids: 'doe-2020', note: 'kept' } };
+    const remove = { id: 'doe2020a', custom: { ids: 'doe2020,old', extra: 'removed' } };
+
+    expect(buildMergeUpdates(keep, remove, { title: 'Chosen' })).toEqual({
+      title: 'Chosen',
+      custom: { ids: 'doe-2020,doe2020a,old', note: 'kept', extra: 'removed' }
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// Duplicate detection and merging of library entries.
+// Entries are duplicates when they share a DOI or Semantic Scholar ID, or when
+// title, year and first author are close enough. Merged entries keep the key
+// of the removed entry as an alias (BibLaTeX `ids`).
+import { getSemanticScholarIdFromEntry } from './semanticScholarConverter';
+import { calculateTextSimilarity } from './searchSimilarity';
+import { getEntryAliases, getEntryCitationKey } from './citationScan';
+import { getTitle, getYear } from './cslUtils';
+
+export type DuplicateReason = 'doi' | 's2id' | 'title';
+
+export interface DuplicateCandidate {
+  entries: [any, any];
+  score: number; // 0 to 1, identifier matches score 1
+  reasons: DuplicateReason[];
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  doi: 'Same DOI',
+  s2id: 'Same Semantic Scholar ID',
+  title: 'Similar title, year and author'
+};
+
+const TITLE_THRESHOLD = 0.92;
+const AUTHOR_THRESHOLD = 0.85;
+
+function normalizeDOI(doi: unknown): string | null {
+  if (typeof doi !== 'string' || !doi.trim()) return null;
+  return doi.trim().toLowerCase().replace(/^(https?:\/\/)?(dx\.)?doi\.org\//, '').replace(/^doi:\s*/, '');
+}
+
+function firstAuthorName(entry: any): string {
+  const author = entry.author?.[0] || entry.editor?.[0];
+  return author ? (author.family || author.literal || '') : '';
+}
+
+/**
+ * Finds candidate duplicate pairs in the library
+ * @param entries Library entries
+ * @returns Candidate pairs, most likely duplicates first
+ */
+export function findDuplicates(entries: any[]): DuplicateCandidate[] {
+  const candidates = new Map<string, DuplicateCandidate>();
+
+  const addCandidate = (a: any, b: any, reason: DuplicateReason, score: number) => {
+    const pairId = [a.id, b.id].sort().join('\u0000');
+    const existing = candidates.get(pairId);
+    if (existing) {
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+      existing.score = Math.max(existing.score, score);
+    } else {
+      candidates.set(pairId, { entries: [a, b], score, reasons: [reason] });
+    }
+  };
+
+  // Identifier matches: group entries by normalized DOI and S2ID
+  const identifierGroups: Array<[DuplicateReason, (entry: any) => string | null]> = [
+    ['doi', entry => normalizeDOI(entry.DOI)],
+    ['s2id', entry => getSemanticScholarIdFromEntry(entry)]
+  ];
+  identifierGroups.forEach(([reason, getIdentifier]) => {
+    const groups = new Map<string, any[]>();
+    entries.forEach(entry => {
+      const identifier = getIdentifier(entry);
+      if (!identifier) return;
+      const group = groups.get(identifier);
+      if (group) group.push(entry);
+      else groups.set(identifier, [entry]);
+    });
+    groups.forEach(group => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          addCandidate(group[i], group[j], reason, 1);
+        }
+      }
+    });
+  });
+
+  // Fuzzy matches: only entries of the same (or an unknown) year are compared
+  const byYear = new Map<string, any[]>();
+  entries.forEach(entry => {
+    const year = getYear(entry) || '';
+    const group = byYear.get(year);
+    if (group) group.push(entry);
+    else byYear.set(year, [entry]);
+  });
+  const undated = byYear.get('') || [];
+
+  byYear.forEach((group, year) => {
+    const others = year ? [...group, ...undated] : group;
+    group.forEach((a, i) => {
+      others.slice(i + 1).forEach(b => {
+        const titleScore = calculateTextSimilarity(getTitle(a), getTitle(b));
+        if (titleScore < TITLE_THRESHOLD) return;
+
+        const authorA = firstAuthorName(a);
+        const authorB = firstAuthorName(b);
+        const authorScore = authorA && authorB ? calculateTextSimilarity(authorA, authorB) : 0.9;
+        if (authorScore < AUTHOR_THRESHOLD) return;
+
+        // Undated pairs are less certain
+        const yearFactor = year && getYear(b) ? 1 : 0.95;
+        addCandidate(a, b, 'title', titleScore * 0.7 * yearFactor + authorScore * 0.3 * yearFactor);
+      });
+    });
+  });
+
+  return [...candidates.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Builds the updates that merge a duplicate into the entry that is kept
+ * @param keep Entry that stays in the library
+ * @param remove Entry that is removed
+ * @param fields Field values chosen in the merge view
+ * @returns Updates for the kept entry, including the removed key as an alias
+ */
+export function buildMergeUpdates(keep: any, remove: any, fields: Record<string, any>): Record<string, any> {
+  const keepKey = getEntryCitationKey(keep);
+  const aliases = [...getEntryAliases(keep), getEntryCitationKey(remove), ...getEntryAliases(remove)]
+    .filter((alias, index, list) => alias !== keepKey && list.indexOf(alias) === index);
+
+  return {
+    ...fields,
+    custom: {
+      ...remove.custom,
+      ...keep.custom,
+      ...fields.custom,
+      ids: aliases.join(',')
+    }
+  };
+}
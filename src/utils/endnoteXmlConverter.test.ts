@@ -0,0 +1,84 @@
+/**
+ * @jest-environment jsdom
+ */
+import { parseEndNoteXML } from './endnoteXmlConverter';
+
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xml><records>
+  <record>
+    <database name="My Library.enl">My Library.enl</database>
+    <rec-number>1</rec-number>
+    <ref-type name="Journal Article">17</ref-type>
+    <contributors>
+      <authors>
+        <author><style face="normal">Doe, Jane</style></author>
+        <author>Roe, Richard</author>
+        <author>van Beethoven, Ludwig</author>
+      </authors>
+    </contributors>
+    <titles>
+      <title><style face="normal">Learning to cite</style></title>
+      <secondary-title>Nature Communications</secondary-title>
+    </titles>
+    <periodical><full-title>Nature Communications</full-title><abbr-1>Nat. Commun.</abbr-1></periodical>
+    <pages>100 – 110</pages>
+    <volume>11</volume>
+    <number>2</number>
+    <keywords><keyword>citations</keyword><keyword>tooling</keyword></keywords>
+    <dates><year>2020</year><pub-dates><date>March 5</date></pub-dates></dates>
+    <isbn>2041-1723</isbn>
+    <electronic-resource-num>https://doi.org/10.1000/xyz</electronic-resource-num>
+    <urls><related-urls><url>https://example.org/paper</url></related-urls><pdf-urls><url>file.pdf</url></pdf-urls></urls>
+    <label>doe2020</label>
+    <custom1>kept aside</custom1>
+  </record>
+  <record>
+    <ref-type name="Report">27</ref-type>
+    <contributors><authors><author>Knuth, Donald</author></authors></contributors>
+    <titles><title>Technical Report</title></titles>
+    <number>TR-7</number>
+    <dates><year>1984</year></dates>
+  </record>
+</records></xml>`;
+
+describe('parseEndNoteXML', () => {
+  it('converts records to CSL entries', () => {
+    const { entries } = parseEndNoteXML(XML);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual({
+      id: 'doe2020',
+      'citation-key': 'doe2020',
+      type: 'article-journal',
+      author: [
+        { family: 'Doe', given: 'Jane' },
+        { family: 'Roe', given: 'Richard' },
+        { family: 'Beethoven', 'non-dropping-particle': 'van', given: 'Ludwig' }
+      ],
+      title: 'Learning to cite',
+      'container-title': 'Nature Communications',
+      'container-title-short': 'Nat. Commun.',
+      page: '100-110',
+      volume: '11',
+      issue: '2',
+      keyword: 'citations, tooling',
+      issued: { 'date-parts': [[2020, 3, 5]] },
+      ISSN: '2041-1723',
+      DOI: '10.1000/xyz',
+      URL: 'https://example.org/paper'
+    });
+    expect(entries[1]).toMatchObject({ id: 'knuth1984', type: 'report', number: 'TR-7' });
+  });
+
+  it('reports the fields it cannot map', () => {
+    const { report } = parseEndNoteXML(XML);
+    expect(report).toEqual({
+      format: 'EndNote XML',
+      entryCount: 2,
+      unmappedFields: { 'urls/pdf-urls': 1, custom1: 1 }
+    });
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseEndNoteXML('<xml><records>')).toThrow('Invalid EndNote XML file');
+  });
+});
@@ -0,0 +1,236 @@
+// EndNote XML import.
+// EndNote exports a <records> list where every <record> holds its fields as
+// nested elements; text may be wrapped in <style> elements for formatting.
+import { CSLEntry } from '../types/cslFieldMetadata';
+import { ImportReport } from '../types/citationTypes';
+import { parseDateString } from './cslUtils';
+import { parseLastFirstName } from './bibtexNames';
+import { generateCitationKey } from './citationKeyPattern';
+import { childElements, descendantText, elementText, parseXML } from './xmlUtils';
+
+// EndNote reference type names to CSL-JSON types
+export const ENDNOTE_TO_CSL_TYPE: Record<string, string> = {
+  'Journal Article': 'article-journal',
+  'Electronic Article': 'article-journal',
+  'Magazine Article': 'article-magazine',
+  'Newspaper Article': 'article-newspaper',
+  'Book': 'book',
+  'Edited Book': 'book',
+  'Electronic Book': 'book',
+  'Book Section': 'chapter',
+  'Electronic Book Section': 'chapter',
+  'Conference Proceedings': 'paper-conference',
+  'Conference Paper': 'paper-conference',
+  'Thesis': 'thesis',
+  'Report': 'report',
+  'Government Document': 'report',
+  'Web Page': 'webpage',
+  'Unpublished Work': 'manuscript',
+  'Manuscript': 'manuscript',
+  'Dictionary': 'entry-dictionary',
+  'Encyclopedia': 'entry-encyclopedia'
+};
+
+// Record elements holding a single text value, mapped to CSL fields
+const ENDNOTE_TEXT_FIELDS: Record<string, string> = {
+  'volume': 'volume',
+  'issue': 'issue',
+  'edition': 'edition',
+  'section': 'section',
+  'pub-location': 'publisher-place',
+  'publisher': 'publisher',
+  'abstract': 'abstract',
+  'notes': 'note',
+  'language': 'language',
+  'work-type': 'genre',
+  'num-vols': 'number-of-volumes',
+  'orig-pub': 'original-title'
+};
+
+// Contributor roles to CSL name fields
+const ENDNOTE_CONTRIBUTOR_FIELDS: Record<string, string> = {
+  'authors': 'author',
+  'secondary-authors': 'editor',
+  'tertiary-authors': 'collection-editor',
+  'subsidiary-authors': 'translator',
+  'translated-authors': 'translator'
+};
+
+// EndNote bookkeeping elements that carry no bibliographic data
+const ENDNOTE_IGNORED_ELEMENTS = new Set([
+  'database', 'source-app', 'rec-number', 'foreign-keys', 'ref-type'
+]);
+
+/**
+ * Parses an EndNote XML export into CSL-JSON entries
+ * @param content EndNote XML file content
+ * @returns CSL entries and a report of the source fields that could not be mapped
+ */
+export function parseEndNoteXML(content: string): { entries: CSLEntry[]; report: ImportReport } {
+  const doc = parseXML(content, 'EndNote XML');
+
+  const unmappedFields: Record<string, number> = {};
+  const reportUnmapped = (field: string) => {
+    unmappedFields[field] = (unmappedFields[field] || 0) + 1;
+  };
+  const usedKeys = new Set<string>();
+
+  const entries = Array.from(doc.getElementsByTagName('record')).map(record => {
+    const entry: CSLEntry = { id: '', type: 'article-journal' };
+    const typeName = record.getElementsByTagName('ref-type')[0]?.getAttribute('name') || '';
+    entry.type = (ENDNOTE_TO_CSL_TYPE[typeName] || 'article-journal') as CSLEntry['type'];
+    if (typeName && !ENDNOTE_TO_CSL_TYPE[typeName]) {
+      reportUnmapped(`ref-type: ${typeName}`);
+    }
+
+    let year = '';
+    let date = '';
+
+    childElements(record).forEach(element => {
+      const name = element.tagName;
+      const text = elementText(element);
+      if (ENDNOTE_IGNORED_ELEMENTS.has(name) || !text) return;
+
+      switch (name) {
+        case 'contributors':
+          childElements(element).forEach(role => {
+            const field = ENDNOTE_CONTRIBUTOR_FIELDS[role.tagName];
+            if (!field) {
+              reportUnmapped(`contributors/${role.tagName}`);
+              return;
+            }
+            const names = childElements(role).map(elementText).filter(Boolean).map(parseLastFirstName);
+            entry[field] = [...((entry[field] as any[]) || []), ...names];
+          });
+          break;
+        case 'titles':
+          childElements(element).forEach(title => {
+            const value = elementText(title);
+            if (!value) return;
+            switch (title.tagName) {
+              case 'title':
+                entry.title = value;
+                break;
+              case 'secondary-title':
+                // Books use the secondary title for their series
+                if (entry.type === 'book') {
+                  entry['collection-title'] = value;
+                } else {
+                  entry['container-title'] = value;
+                }
+                break;
+              case 'tertiary-title':
+                entry['collection-title'] = value;
+                break;
+              case 'short-title':
+                entry['title-short'] = value;
+                break;
+              case 'alt-title':
+                entry['container-title-short'] = value;
+                break;
+              default:
+                reportUnmapped(`titles/${title.tagName}`);
+            }
+          });
+          break;
+        case 'periodical': {
+          const fullTitle = descendantText(element, 'full-title');
+          const abbreviation = descendantText(element, 'abbr-1');
+          if (fullTitle && !entry['container-title']) {
+            entry['container-title'] = fullTitle;
+          }
+          if (abbreviation && !entry['container-title-short']) {
+            entry['container-title-short'] = abbreviation;
+          }
+          break;
+        }
+        case 'alt-periodical':
+          break; // Duplicates <periodical> with the abbreviation first
+        case 'pages':
+          entry.page = text.replace(/\s*[-–—]+\s*/, '-');
+          break;
+        case 'number':
+          // Report and patent numbers, the issue for periodicals
+          if (entry.type === 'report') {
+            entry.number = text;
+          } else if (!entry.issue) {
+            entry.issue = text;
+          }
+          break;
+        case 'keywords':
+          entry.keyword = childElements(element)
+            .flatMap(keyword => (keyword.textContent || '').split(/\r?\n|\r/))
+            .map(keyword => keyword.trim())
+            .filter(Boolean)
+            .join(', ');
+          break;
+        case 'dates':
+          year = descendantText(element, 'year');
+          date = descendantText(element, 'date');
+          break;
+        case 'isbn': {
+          // EndNote uses the same field for ISBNs and ISSNs
+          const digits = text.replace(/[^0-9Xx]/g, '');
+          entry[digits.length >= 10 ? 'ISBN' : 'ISSN'] = text;
+          break;
+        }
+        case 'electronic-resource-num':
+          if (/10\.\d{4,}/.test(text)) {
+            entry.DOI = text.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '');
+          } else {
+            reportUnmapped(name);
+          }
+          break;
+        case 'urls': {
+          const related = element.getElementsByTagName('related-urls')[0];
+          const url = related ? descendantText(related, 'url') : '';
+          if (url) {
+            entry.URL = url;
+          }
+          childElements(element)
+            .filter(group => group.tagName !== 'related-urls')
+            .forEach(group => reportUnmapped(`urls/${group.tagName}`));
+          break;
+        }
+        case 'access-date':
+          entry.accessed = parseDateString(text);
+          break;
+        case 'label':
+          // Often used to hold the BibTeX key
+          if (/^[^\s,{}]+$/.test(text)) {
+            entry.id = text;
+          } else {
+            reportUnmapped(name);
+          }
+          break;
+        default: {
+          const field = ENDNOTE_TEXT_FIELDS[name];
+          if (field) {
+            entry[field] = text;
+          } else {
+            reportUnmapped(name);
+          }
+        }
+      }
+    });
+
+    // <date> holds the rest of the date ("March 5"), unless it is a full ISO date
+    const issued = parseDateString(/^\d{4}-/.test(date) ? date : `${date} ${year}`);
+    if (issued) {
+      entry.issued = issued;
+    }
+
+    if (!entry.id || usedKeys.has(entry.id)) {
+      entry.id = generateCitationKey(entry, usedKeys);
+    }
+    usedKeys.add(entry.id);
+    entry['citation-key'] = entry.id;
+
+    return entry;
+  });
+
+  return {
+    entries,
+    report: { format: 'EndNote XML', entryCount: entries.length, unmappedFields }
+  };
+}
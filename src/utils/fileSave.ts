@@ -0,0 +1,48 @@
+interface SaveFileOptions {
+  suggestedName: string;
+  description: string; // shown in the save dialog, e.g. "BibTeX File"
+  mimeType: string;
+  extensions: string[]; // including the dot, e.g. ['.bib']
+}
+
+/**
+ * Saves text content to a local file.
+ * Uses the File System Access API where available and falls back to a download.
+ * @param content File content
+ * @param options File name and type information
+ */
+export async function saveTextFile(content: string, options: SaveFileOptions): Promise<void> {
+  // Try to use the File System Access API
+  if ('showSaveFilePicker' in window) {
+    try {
+      const fileHandle = await (window as any).showSaveFilePicker({
+        suggestedName: options.suggestedName,
+        types: [{
+          description: options.description,
+          accept: { [options.mimeType]: options.extensions },
+        }],
+      });
+      const writable = await fileHandle.createWritable();
+      await writable.write(content);
+      await writable.close();
+      return;
+    } catch (err: any) {
+      if (err.name !== 'AbortError') {
+        console.error('File System Access API failed:', err);
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Fallback to download
+  const blob = new Blob([content], { type: `${options.mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = options.suggestedName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
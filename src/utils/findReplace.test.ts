@@ -0,0 +1,73 @@
+import { buildReplaceUpdates, createFindPattern, findReplaceChanges, getSearchableFields } from './findReplace';
+import type { FindReplaceOptions } from './findReplace';
+
+const OPTIONS: FindReplaceOptions = {
+  find: '',
+  replace: '',
+  fields: ['title', 'publisher'],
+  caseSensitive: false,
+  regex: false
+};
+
+const ENTRIES = [
+  { id: 'a', title: 'Colour and colour theory', publisher: 'acm' },
+  { id: 'b', title: 'Grey areas', publisher: 'Springer' }
+];
+
+describe('getSearchableFields', () => {
+  it('lists text fields, title first, without identity fields', () => {
+    const fields = getSearchableFields([{ id: 'a', type: 'book', 'citation-key': 'a', myfield: 'x', _private: 'y' }]);
+    expect(fields[0]).toBe('title');
+    expect(fields).toContain('myfield');
+    expect(fields).not.toContain('id');
+    expect(fields).not.toContain('citation-key');
+    expect(fields).not.toContain('_private');
+  });
+});
+
+describe('createFindPattern', () => {
+  it('rejects invalid and empty-matching expressions', () => {
+    expect(() => createFindPattern({ ...OPTIONS, find: '(', regex: true })).toThrow(/Invalid regular expression/);
+    expect(() => createFindPattern({ ...OPTIONS, find: 'a*', regex: true })).toThrow(/empty text/);
+    expect(createFindPattern({ ...OPTIONS, find: 'a*' }).test('a*')).toBe(true);
+  });
+});
+
+describe('findReplaceChanges', () => {
+  it('replaces literal text, ignoring case unless asked', () => {
+    const changes = findReplaceChanges(ENTRIES, { ...OPTIONS, find: 'colour', replace: 'color' });
+    expect(changes).toHaveLength(1);
+    expect(changes[0].changes[0]).toMatchObject({
+      field: 'title',
+      before: 'Colour and colour theory',
+      after: 'color and color theory'
+    });
+
+    const [caseSensitive] = findReplaceChanges(ENTRIES, { ...OPTIONS, find: 'colour', replace: 'color', caseSensitive: true });
+    expect(caseSensitive.changes[0].after).toBe('Colour and color theory');
+    expect(caseSensitive.changes[0].segments).toEqual([
+      { text: 'Colour and ', kind: 'same' },
+      { text: 'colour', kind: 'removed' },
+      { text: 'color', kind: 'added' },
+      { text: ' theory', kind: 'same' }
+    ]);
+  });
+
+  it('expands groups in regex replacements', () => {
+    const [change] = findReplaceChanges(ENTRIES, { ...OPTIONS, find: '(\\w+) (areas)', replace: '$2 of $1 ($$)', regex: true });
+    expect(change.changes[0].after).toBe('areas of Grey ($)');
+  });
+
+  it('skips fields that refer to an @STRING variable', () => {
+    const changes = findReplaceChanges(ENTRIES, { ...OPTIONS, find: 'acm', replace: 'ACM' }, { acm: 'Association for Computing Machinery' });
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('buildReplaceUpdates', () => {
+  it('applies and reverts the changes', () => {
+    const changes = findReplaceChanges(ENTRIES, { ...OPTIONS, find: 'grey', replace: 'gray' });
+    expect(buildReplaceUpdates(changes)).toEqual({ b: { title: 'gray areas' } });
+    expect(buildReplaceUpdates(changes, true)).toEqual({ b: { title: 'Grey areas' } });
+  });
+});
@@ -0,0 +1,152 @@
+// Find and replace across entry fields.
+// Matches are searched in the string fields of CSL entries, literally or as a
+// regular expression, and every change is kept with its before and after text
+// so it can be previewed, applied as one update and reverted.
+import { CSL_FIELD_METADATA } from '../types/cslFieldMetadata';
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  fields: string[];
+  caseSensitive: boolean;
+  regex: boolean; // find is a JavaScript regular expression, replace may use $1, $<name> and $&
+}
+
+export interface DiffSegment {
+  text: string;
+  kind: 'same' | 'removed' | 'added';
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+  segments: DiffSegment[]; // before and after interleaved, for the preview
+}
+
+export interface EntryChange {
+  entryId: string;
+  changes: FieldChange[];
+}
+
+// Identity fields; keys are renamed with renameEntries so crossrefs follow
+const EXCLUDED_FIELDS = new Set(['id', 'type', 'citation-key']);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lists the fields that can be searched: the text fields of the editor and
+ * any other string field of the entries
+ * @param entries Entries to search
+ * @returns Field names, title first, the rest alphabetically
+ */
+export function getSearchableFields(entries: any[]): string[] {
+  const fields = new Set(
+    Object.values(CSL_FIELD_METADATA)
+      .filter(field => ['text', 'textarea', 'pages', 'number'].includes(field.type))
+      .map(field => field.name)
+  );
+  entries.forEach(entry => Object.keys(entry).forEach(key => {
+    if (typeof entry[key] === 'string' && !key.startsWith('_')) fields.add(key);
+  }));
+  return [...fields]
+    .filter(field => !EXCLUDED_FIELDS.has(field))
+    .sort((a, b) => (a === 'title' ? -1 : b === 'title' ? 1 : a.localeCompare(b)));
+}
+
+/**
+ * Builds the search expression
+ * @param options Find text and matching options
+ * @returns Global regular expression
+ * @throws Error when the regular expression is invalid or matches empty text
+ */
+export function createFindPattern(options: FindReplaceOptions): RegExp {
+  const source = options.regex ? options.find : escapeRegExp(options.find);
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch (err) {
+    throw new Error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (pattern.test('')) {
+    throw new Error('The expression matches empty text');
+  }
+  return pattern;
+}
+
+// Expands $$, $&, $1..$99 and $<name> in a regex replacement
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, name: string, groupName?: string) => {
+    if (name === '$') return '$';
+    if (name === '&') return match[0];
+    if (groupName !== undefined) return match.groups?.[groupName] ?? '';
+    const index = parseInt(name, 10);
+    return index > 0 && index < match.length ? match[index] ?? '' : token;
+  });
+}
+
+// Replaces every match, recording the removed and added text
+function replaceWithSegments(value: string, pattern: RegExp, options: FindReplaceOptions): FieldChange['segments'] {
+  const segments: DiffSegment[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(value); match; match = pattern.exec(value)) {
+    if (match.index > last) segments.push({ text: value.slice(last, match.index), kind: 'same' });
+    segments.push({ text: match[0], kind: 'removed' });
+    const replacement = options.regex ? expandReplacement(options.replace, match) : options.replace;
+    if (replacement) segments.push({ text: replacement, kind: 'added' });
+    last = match.index + match[0].length;
+  }
+  if (last < value.length) segments.push({ text: value.slice(last), kind: 'same' });
+  return segments;
+}
+
+/**
+ * Finds the changes a replace would make
+ * @param entries Entries in scope
+ * @param options Find text, replacement, fields and matching options
+ * @param variables @STRING variables; fields referring to one are skipped so
+ * the reference is not broken
+ * @returns Changed fields per entry, in entry order
+ * @throws Error when the search expression is invalid
+ */
+export function findReplaceChanges(
+  entries: any[],
+  options: FindReplaceOptions,
+  variables: Record<string, string> = {}
+): EntryChange[] {
+  if (!options.find) return [];
+  const pattern = createFindPattern(options);
+
+  return entries
+    .map(entry => ({
+      entryId: entry.id,
+      changes: options.fields.flatMap(field => {
+        const before = entry[field];
+        if (typeof before !== 'string' || variables[before] !== undefined) return [];
+        const segments = replaceWithSegments(before, pattern, options);
+        const after = segments.filter(segment => segment.kind !== 'removed').map(segment => segment.text).join('');
+        return after === before ? [] : [{ field, before, after, segments }];
+      })
+    }))
+    .filter(change => change.changes.length > 0);
+}
+
+/**
+ * Turns changes into entry updates
+ * @param changes Changes from findReplaceChanges
+ * @param revert Restore the text before the replace instead
+ * @returns Field updates keyed by entry ID
+ */
+export function buildReplaceUpdates(changes: EntryChange[], revert = false): Record<string, Record<string, string>> {
+  const updates: Record<string, Record<string, string>> = {};
+  changes.forEach(({ entryId, changes: fieldChanges }) => {
+    updates[entryId] = {};
+    fieldChanges.forEach(change => {
+      updates[entryId][change.field] = revert ? change.before : change.after;
+    });
+  });
+  return updates;
+}
@@ -0,0 +1,19 @@
+import { detectImportFormat } from './importFormats';
+
+describe('detectImportFormat', () => {
+  it('detects formats from the extension', () => {
+    expect(detectImportFormat('refs.ris', '')).toBe('ris');
+    expect(detectImportFormat('refs.rdf', '')).toBe('zotero-rdf');
+    expect(detectImportFormat('refs.xml', '')).toBe('endnote-xml');
+    expect(detectImportFormat('refs.bib', '')).toBe('bibtex');
+  });
+
+  it('detects formats from the content', () => {
+    expect(detectImportFormat('refs.txt', 'TY  - JOUR\nER  - ')).toBe('ris');
+    expect(detectImportFormat('refs.txt', '<rdf:RDF></rdf:RDF>')).toBe('zotero-rdf');
+    expect(detectImportFormat('refs.txt', '﻿<xml><records/></xml>')).toBe('endnote-xml');
+    expect(detectImportFormat('refs.txt', '[{"id": "a", "type": "book"}]')).toBe('csl-json');
+    expect(detectImportFormat('refs.txt', '[{"itemType": "book"}]')).toBe('zotero-json');
+    expect(detectImportFormat('refs.json', '[not json')).toBe('csl-json');
+  });
+});
@@ -0,0 +1,35 @@
+// Detection of the file formats that can be opened or imported
+import { isZoteroJSON } from './zoteroConverter';
+
+export type ImportFormat = 'csl-json' | 'bibtex' | 'ris' | 'endnote-xml' | 'zotero-rdf' | 'zotero-json';
+
+// File extensions offered in the open dialogs
+export const IMPORT_FILE_ACCEPT = '.bib,.bibtex,.json,.ris,.xml,.rdf';
+
+/**
+ * Detects the format of a file from its name and content
+ * @param filename File name, used for the extension
+ * @param content File content
+ */
+export function detectImportFormat(filename: string, content: string): ImportFormat {
+  const name = filename.toLowerCase();
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+  if (name.endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return isZoteroJSON(JSON.parse(trimmed)) ? 'zotero-json' : 'csl-json';
+    } catch {
+      return 'csl-json'; // Let the CSL-JSON loader report the syntax error
+    }
+  }
+  if (name.endsWith('.rdf') || (trimmed.startsWith('<') && trimmed.includes('rdf:RDF'))) {
+    return 'zotero-rdf';
+  }
+  if (name.endsWith('.xml') || trimmed.startsWith('<')) {
+    return 'endnote-xml';
+  }
+  if (name.endsWith('.ris') || /^TY {2}- /m.test(trimmed)) {
+    return 'ris';
+  }
+  return 'bibtex';
+}
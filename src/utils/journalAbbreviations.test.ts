@@ -0,0 +1,87 @@
+import {
+  applyJournalTitleForm,
+  buildShortTitleUpdates,
+  createAbbreviationTable,
+  findJournal,
+  mergeAbbreviationLists,
+  parseAbbreviationList
+} from './journalAbbreviations';
+
+const JMLR = { name: 'Journal of Machine Learning Research', abbreviation: 'J. Mach. Learn. Res.' };
+
+describe('parseAbbreviationList', () => {
+  it('reads JabRef and CSV lists', () => {
+    expect(parseAbbreviationList([
+      '# JabRef list',
+      'Journal of Foo = J. Foo',
+      '',
+      'Full Name;Abbreviation',
+      '"Bar; Baz Letters";Bar Baz Lett.',
+      'Incomplete line'
+    ].join('\n'))).toEqual([
+      { name: 'Journal of Foo', abbreviation: 'J. Foo' },
+      { name: 'Bar; Baz Letters', abbreviation: 'Bar Baz Lett.' }
+    ]);
+    expect(parseAbbreviationList('\uFEFFjournal,abbr\r\nJournal of Foo,J. Foo\r\n')).toEqual([
+      { name: 'Journal of Foo', abbreviation: 'J. Foo' }
+    ]);
+  });
+});
+
+describe('mergeAbbreviationLists', () => {
+  it('lets later lists replace entries for the same journal', () => {
+    expect(mergeAbbreviationLists([JMLR], [{ name: 'journal of machine learning research', abbreviation: 'JMLR' }]))
+      .toEqual([{ name: 'journal of machine learning research', abbreviation: 'JMLR' }]);
+  });
+});
+
+describe('findJournal', () => {
+  it('finds journals by full name or abbreviation, ignoring case and dots', () => {
+    const table = createAbbreviationTable();
+    expect(findJournal('journal of machine learning research', table)).toEqual(JMLR);
+    expect(findJournal('J Mach Learn Res', table)).toEqual(JMLR);
+    expect(findJournal('Unknown Journal', table)).toBeUndefined();
+  });
+
+  it('prefers the library list over the bundled one', () => {
+    const table = createAbbreviationTable([{ name: JMLR.name, abbreviation: 'JMLR' }]);
+    expect(findJournal(JMLR.name, table)?.abbreviation).toBe('JMLR');
+  });
+});
+
+describe('applyJournalTitleForm', () => {
+  const table = createAbbreviationTable();
+  const entries = [
+    { id: 'a', type: 'article-journal', 'container-title': JMLR.name },
+    { id: 'b', type: 'article-journal', 'container-title': 'jmlr' },
+    { id: 'c', type: 'article-journal', 'container-title': 'Local Journal', 'container-title-short': 'Loc. J.' },
+    { id: 'd', type: 'paper-conference', 'container-title': JMLR.name }
+  ];
+
+  it('abbreviates journal articles only', () => {
+    const result = applyJournalTitleForm(entries, 'abbreviated', table, { jmlr: JMLR.name });
+    expect(result.map(entry => entry['container-title'])).toEqual([
+      JMLR.abbreviation,
+      JMLR.abbreviation,
+      'Loc. J.',
+      JMLR.name
+    ]);
+    expect(result[3]).toBe(entries[3]);
+  });
+
+  it('keeps references that already hold the chosen form', () => {
+    const result = applyJournalTitleForm(entries, 'full', table, { jmlr: JMLR.name });
+    expect(result[1]).toBe(entries[1]);
+    expect(result[2]).toBe(entries[2]);
+  });
+});
+
+describe('buildShortTitleUpdates', () => {
+  it('fills in missing abbreviations', () => {
+    expect(buildShortTitleUpdates([
+      { id: 'a', type: 'article-journal', 'container-title': JMLR.name },
+      { id: 'b', type: 'article-journal', 'container-title': JMLR.name, 'container-title-short': 'JMLR' },
+      { id: 'c', type: 'article-journal', 'container-title': 'Unknown Journal' }
+    ], createAbbreviationTable(), {})).toEqual({ a: { 'container-title-short': JMLR.abbreviation } });
+  });
+});
@@ -0,0 +1,237 @@
+// Journal abbreviation table.
+// A small bundled list of ISO 4 abbreviations is extended by the library's own
+// entries, typed in or imported from JabRef abbreviation lists
+// ("Full Name = Abbr." lines or "Full Name;Abbr." CSV). Exports can write
+// either form of a journal name.
+import { resolveVariable } from './cslUtils';
+
+export interface JournalAbbreviation {
+  name: string; // full title, e.g. "Physical Review Letters"
+  abbreviation: string; // ISO 4 abbreviation, e.g. "Phys. Rev. Lett."
+}
+
+export type JournalTitleForm = 'full' | 'abbreviated';
+
+// Lookup by normalized full name and by normalized abbreviation
+export type JournalAbbreviationTable = Map<string, JournalAbbreviation>;
+
+// Abbreviation lists that can be imported
+export const JOURNAL_LIST_FILE_ACCEPT = '.txt,.csv';
+
+export const BUNDLED_JOURNAL_ABBREVIATIONS: JournalAbbreviation[] = [
+  { name: 'ACM Computing Surveys', abbreviation: 'ACM Comput. Surv.' },
+  { name: 'ACM Transactions on Graphics', abbreviation: 'ACM Trans. Graph.' },
+  { name: 'American Economic Review', abbreviation: 'Am. Econ. Rev.' },
+  { name: 'Angewandte Chemie International Edition', abbreviation: 'Angew. Chem. Int. Ed.' },
+  { name: 'Annals of Statistics', abbreviation: 'Ann. Stat.' },
+  { name: 'Artificial Intelligence', abbreviation: 'Artif. Intell.' },
+  { name: 'Astronomy and Astrophysics', abbreviation: 'Astron. Astrophys.' },
+  { name: 'Astrophysical Journal', abbreviation: 'Astrophys. J.' },
+  { name: 'Bioinformatics', abbreviation: 'Bioinformatics' },
+  { name: 'Biometrika', abbreviation: 'Biometrika' },
+  { name: 'British Medical Journal', abbreviation: 'BMJ' },
+  { name: 'Cell', abbreviation: 'Cell' },
+  { name: 'Chemical Reviews', abbreviation: 'Chem. Rev.' },
+  { name: 'Communications of the ACM', abbreviation: 'Commun. ACM' },
+  { name: 'Computational Linguistics', abbreviation: 'Comput. Linguist.' },
+  { name: 'eLife', abbreviation: 'eLife' },
+  { name: 'Econometrica', abbreviation: 'Econometrica' },
+  { name: 'IEEE Transactions on Image Processing', abbreviation: 'IEEE Trans. Image Process.' },
+  { name: 'IEEE Transactions on Information Theory', abbreviation: 'IEEE Trans. Inf. Theory' },
+  { name: 'IEEE Transactions on Knowledge and Data Engineering', abbreviation: 'IEEE Trans. Knowl. Data Eng.' },
+  { name: 'IEEE Transactions on Neural Networks and Learning Systems', abbreviation: 'IEEE Trans. Neural Netw. Learn. Syst.' },
+  { name: 'IEEE Transactions on Pattern Analysis and Machine Intelligence', abbreviation: 'IEEE Trans. Pattern Anal. Mach. Intell.' },
+  { name: 'IEEE Transactions on Signal Processing', abbreviation: 'IEEE Trans. Signal Process.' },
+  { name: 'IEEE Transactions on Software Engineering', abbreviation: 'IEEE Trans. Softw. Eng.' },
+  { name: 'International Journal of Computer Vision', abbreviation: 'Int. J. Comput. Vis.' },
+  { name: 'Journal of the ACM', abbreviation: 'J. ACM' },
+  { name: 'Journal of the American Chemical Society', abbreviation: 'J. Am. Chem. Soc.' },
+  { name: 'Journal of the American Medical Association', abbreviation: 'JAMA' },
+  { name: 'Journal of the American Statistical Association', abbreviation: 'J. Am. Stat. Assoc.' },
+  { name: 'Journal of Chemical Physics', abbreviation: 'J. Chem. Phys.' },
+  { name: 'Journal of Computational Physics', abbreviation: 'J. Comput. Phys.' },
+  { name: 'Journal of Machine Learning Research', abbreviation: 'J. Mach. Learn. Res.' },
+  { name: 'Journal of Neuroscience', abbreviation: 'J. Neurosci.' },
+  { name: 'Machine Learning', abbreviation: 'Mach. Learn.' },
+  { name: 'Monthly Notices of the Royal Astronomical Society', abbreviation: 'Mon. Not. R. Astron. Soc.' },
+  { name: 'Nature', abbreviation: 'Nature' },
+  { name: 'Nature Biotechnology', abbreviation: 'Nat. Biotechnol.' },
+  { name: 'Nature Communications', abbreviation: 'Nat. Commun.' },
+  { name: 'Nature Genetics', abbreviation: 'Nat. Genet.' },
+  { name: 'Nature Machine Intelligence', abbreviation: 'Nat. Mach. Intell.' },
+  { name: 'Nature Methods', abbreviation: 'Nat. Methods' },
+  { name: 'Nature Physics', abbreviation: 'Nat. Phys.' },
+  { name: 'Neural Computation', abbreviation: 'Neural Comput.' },
+  { name: 'Neural Networks', abbreviation: 'Neural Netw.' },
+  { name: 'Neuron', abbreviation: 'Neuron' },
+  { name: 'New England Journal of Medicine', abbreviation: 'N. Engl. J. Med.' },
+  { name: 'Nucleic Acids Research', abbreviation: 'Nucleic Acids Res.' },
+  { name: 'Pattern Recognition', abbreviation: 'Pattern Recognit.' },
+  { name: 'Physical Review A', abbreviation: 'Phys. Rev. A' },
+  { name: 'Physical Review B', abbreviation: 'Phys. Rev. B' },
+  { name: 'Physical Review D', abbreviation: 'Phys. Rev. D' },
+  { name: 'Physical Review E', abbreviation: 'Phys. Rev. E' },
+  { name: 'Physical Review Letters', abbreviation: 'Phys. Rev. Lett.' },
+  { name: 'PLOS ONE', abbreviation: 'PLoS ONE' },
+  { name: 'Proceedings of the National Academy of Sciences of the United States of America', abbreviation: 'Proc. Natl. Acad. Sci. U.S.A.' },
+  { name: 'Psychological Review', abbreviation: 'Psychol. Rev.' },
+  { name: 'Reviews of Modern Physics', abbreviation: 'Rev. Mod. Phys.' },
+  { name: 'Science', abbreviation: 'Science' },
+  { name: 'Scientific Reports', abbreviation: 'Sci. Rep.' },
+  { name: 'SIAM Journal on Computing', abbreviation: 'SIAM J. Comput.' },
+  { name: 'The Lancet', abbreviation: 'Lancet' },
+  { name: 'Transactions of the Association for Computational Linguistics', abbreviation: 'Trans. Assoc. Comput. Linguist.' }
+];
+
+// Case, punctuation, accents and a leading "The" do not tell journals apart
+function normalizeJournalName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+// Splits a CSV line on the delimiter, honouring double quotes
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"' && quoted && line[index + 1] === '"') {
+      field += '"';
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(item => item.trim());
+}
+
+/**
+ * Parses a journal abbreviation list
+ * @param text JabRef list with "Full Name = Abbr." lines, or CSV with the full
+ * name and the abbreviation in the first two columns, separated by ";" or ","
+ * @returns Abbreviations in file order; comments, headers and incomplete lines are skipped
+ */
+export function parseAbbreviationList(text: string): JournalAbbreviation[] {
+  const abbreviations: JournalAbbreviation[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    let fields: string[];
+    if (!line.startsWith('"') && /^[^;]+\s=\s/.test(line)) {
+      fields = line.split(/\s=\s/).map(item => item.trim());
+    } else {
+      fields = splitCSVLine(line, line.includes(';') ? ';' : ',');
+    }
+
+    const [name, abbreviation] = fields;
+    if (!name || !abbreviation || /^(full ?name|journal|title)$/i.test(name)) return;
+    abbreviations.push({ name, abbreviation });
+  });
+  return abbreviations;
+}
+
+/**
+ * Merges abbreviation lists, later entries replacing earlier ones for the same journal
+ * @param lists Lists in increasing priority
+ * @returns One abbreviation per full name
+ */
+export function mergeAbbreviationLists(...lists: JournalAbbreviation[][]): JournalAbbreviation[] {
+  const merged = new Map<string, JournalAbbreviation>();
+  lists.flat().forEach(item => merged.set(normalizeJournalName(item.name), item));
+  return [...merged.values()];
+}
+
+/**
+ * Builds the lookup table from the bundled list and the library's own entries
+ * @param custom Abbreviations of the library, which win over the bundled ones
+ */
+export function createAbbreviationTable(custom: JournalAbbreviation[] = []): JournalAbbreviationTable {
+  const table: JournalAbbreviationTable = new Map();
+  mergeAbbreviationLists(BUNDLED_JOURNAL_ABBREVIATIONS, custom).forEach(item => {
+    const abbreviationKey = normalizeJournalName(item.abbreviation);
+    // A full name never gives way to another journal's abbreviation
+    if (!table.has(abbreviationKey)) table.set(abbreviationKey, item);
+    table.set(normalizeJournalName(item.name), item);
+  });
+  return table;
+}
+
+/**
+ * Looks a journal up by its full name or its abbreviation
+ * @param title Journal name as written
+ * @param table Table from createAbbreviationTable
+ */
+export function findJournal(title: string, table: JournalAbbreviationTable): JournalAbbreviation | undefined {
+  return table.get(normalizeJournalName(title));
+}
+
+/**
+ * Tells whether an entry appeared in a journal, so abbreviation rules apply
+ * @param entry CSL entry
+ */
+export function isJournalEntry(entry: any): boolean {
+  return entry.type === 'article-journal' && typeof entry['container-title'] === 'string' && !!entry['container-title'].trim();
+}
+
+/**
+ * Gives journal articles the chosen form of their journal name for export
+ * @param entries Entries to export
+ * @param form Full or abbreviated names
+ * @param table Abbreviation table
+ * @param variables @STRING variables, to look up journals given as references
+ * @returns Entries with the container-title replaced where the table or
+ * container-title-short provides the other form; other entries unchanged
+ */
+export function applyJournalTitleForm(
+  entries: any[],
+  form: JournalTitleForm,
+  table: JournalAbbreviationTable,
+  variables: Record<string, string>
+): any[] {
+  return entries.map(entry => {
+    if (!isJournalEntry(entry)) return entry;
+    const stored = resolveVariable(entry['container-title'], variables);
+    const journal = findJournal(stored, table);
+    const title = form === 'abbreviated'
+      ? journal?.abbreviation || entry['container-title-short']
+      : journal?.name;
+    // @STRING references that already hold the chosen form are kept
+    return title && title !== stored ? { ...entry, 'container-title': title } : entry;
+  });
+}
+
+/**
+ * Builds the updates that give journal articles the abbreviation of their journal
+ * @param entries Library entries
+ * @param table Abbreviation table
+ * @param variables @STRING variables, to look up journals given as references
+ * @returns container-title-short updates of the entries without one, keyed by entry ID
+ */
+export function buildShortTitleUpdates(
+  entries: any[],
+  table: JournalAbbreviationTable,
+  variables: Record<string, string>
+): Record<string, Record<string, string>> {
+  const updates: Record<string, Record<string, string>> = {};
+  entries.filter(isJournalEntry).forEach(entry => {
+    const journal = findJournal(resolveVariable(entry['container-title'], variables), table);
+    if (journal && !entry['container-title-short']?.trim()) {
+      updates[entry.id] = { 'container-title-short': journal.abbreviation };
+    }
+  });
+  return updates;
+}
@@ -0,0 +1,41 @@
+import { scanLatexCitations } from './latexCitations';
+
+describe('scanLatexCitations', () => {
+  it('reads natbib and biblatex commands with notes', () => {
+    const scan = scanLatexCitations([{
+      name: 'paper.tex',
+      content: [
+        'As shown \\citep[see][p.~4]{doe2020, roe2021} and \\Textcite{knuth1984}.',
+        '\\parencites(multi)(note)[a]{one}[b]{two,three} \\autocite*{doe2020}',
+        '% \\cite{commented}',
+        '100\\% \\nocite{extra}'
+      ].join('\n')
+    }]);
+
+    expect(scan).toEqual({
+      files: ['paper.tex'],
+      keys: ['doe2020', 'roe2021', 'knuth1984', 'one', 'two', 'three', 'extra'],
+      citesAll: false
+    });
+  });
+
+  it('ignores commands that only contain "cite"', () => {
+    const scan = scanLatexCitations([{
+      name: 'paper.tex',
+      content: '\\setcitestyle{authoryear} \\citestyle{numeric} \\citetext{see} \\citeyearpar{doe2020} \\footcitetexts{a}{b}'
+    }]);
+    expect(scan.keys).toEqual(['doe2020', 'a', 'b']);
+  });
+
+  it('reads \\nocite{*} as citing everything', () => {
+    expect(scanLatexCitations([{ name: 'paper.tex', content: '\\nocite{*}' }]).citesAll).toBe(true);
+  });
+
+  it('reads BibTeX and biblatex records of .aux files', () => {
+    const scan = scanLatexCitations([{
+      name: 'paper.aux',
+      content: '\\citation{doe2020,roe2021}\n\\abx@aux@cite{0}{knuth1984}\n\\abx@aux@cite{doe2020}'
+    }]);
+    expect(scan.keys).toEqual(['doe2020', 'roe2021', 'knuth1984']);
+  });
+});
@@ -0,0 +1,118 @@
+// Citation keys of LaTeX documents.
+// .tex files are scanned for natbib/biblatex citation commands, .aux files for
+// the \citation (BibTeX) and \abx@aux@cite (biblatex) records LaTeX writes.
+import { CitationScan } from '../types/citationTypes';
+
+// Citation commands of BibTeX, natbib and biblatex. Listed rather than matched
+// by name, since \citestyle, \setcitestyle or \citetext take no keys.
+const CITE_COMMANDS = [
+  'cite', 'Cite', 'nocite',
+  // natbib
+  'citet', 'Citet', 'citep', 'Citep', 'citealt', 'Citealt', 'citealp', 'Citealp',
+  'citeauthor', 'Citeauthor', 'citefullauthor', 'Citefullauthor', 'citeyear', 'citeyearpar', 'citenum',
+  // biblatex
+  'parencite', 'Parencite', 'footcite', 'footcitetext', 'textcite', 'Textcite', 'smartcite', 'Smartcite',
+  'autocite', 'Autocite', 'supercite', 'fullcite', 'footfullcite', 'citetitle', 'Citetitle',
+  'citedate', 'citeurl', 'volcite', 'Volcite', 'pvolcite', 'Pvolcite', 'fvolcite', 'ftvolcite',
+  'svolcite', 'Svolcite', 'tvolcite', 'Tvolcite', 'avolcite', 'Avolcite',
+  'notecite', 'Notecite', 'pnotecite', 'Pnotecite', 'fnotecite'
+];
+
+// biblatex multicite commands, which take several pre/postnote and key groups
+const MULTICITE_COMMANDS = [
+  'cites', 'Cites', 'parencites', 'Parencites', 'footcites', 'footcitetexts', 'smartcites', 'Smartcites',
+  'textcites', 'Textcites', 'supercites', 'autocites', 'Autocites'
+];
+
+const CITE_COMMAND_PATTERN = new RegExp(
+  `\\\\(${[...CITE_COMMANDS, ...MULTICITE_COMMANDS].join('|')})(?![a-zA-Z@])\\*?`,
+  'g'
+);
+
+const AUX_CITATION_PATTERNS = [
+  /\\citation\{([^}]*)\}/g,
+  /\\abx@aux@cite(?:\{\d+\})?\{([^}]*)\}/g
+];
+
+// Removes % comments, keeping escaped \% signs
+function stripComments(content: string): string {
+  return content.replace(/(^|[^\\])%.*$/gm, '$1');
+}
+
+// Reads a {...} or [...] or (...) group starting at pos; returns its content and end
+function readGroup(content: string, pos: number, open: string, close: string): { value: string; end: number } | null {
+  if (content[pos] !== open) return null;
+  let depth = 0;
+  for (let i = pos; i < content.length; i++) {
+    if (content[i] === open) depth++;
+    else if (content[i] === close && --depth === 0) {
+      return { value: content.slice(pos + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+function skipWhitespace(content: string, pos: number): number {
+  while (pos < content.length && /\s/.test(content[pos])) pos++;
+  return pos;
+}
+
+// Reads the key arguments of a citation command. Multicite commands
+// (\cites, \parencites, ...) take several pre/postnote and key groups.
+function readCommandKeys(content: string, pos: number, multicite: boolean): string[] {
+  const keyGroups: string[] = [];
+  for (;;) {
+    let next = skipWhitespace(content, pos);
+    // Optional (...) multicite notes and [...] pre/postnotes
+    for (;;) {
+      const group = readGroup(content, next, '[', ']') || (multicite ? readGroup(content, next, '(', ')') : null);
+      if (!group) break;
+      next = skipWhitespace(content, group.end);
+    }
+    const keys = readGroup(content, next, '{', '}');
+    if (!keys) break;
+    keyGroups.push(keys.value);
+    pos = keys.end;
+    if (!multicite) break;
+  }
+  return keyGroups.flatMap(group => group.split(',')).map(key => key.trim()).filter(key => key);
+}
+
+function addKeys(scan: CitationScan, keys: string[]): void {
+  keys.forEach(key => {
+    if (key === '*') {
+      scan.citesAll = true;
+    } else if (!scan.keys.includes(key)) {
+      scan.keys.push(key);
+    }
+  });
+}
+
+/**
+ * Collects the citation keys of LaTeX source or .aux files
+ * @param files File names and contents; .aux files are read as LaTeX auxiliary files
+ * @returns Cited keys in order of first citation
+ */
+export function scanLatexCitations(files: Array<{ name: string; content: string }>): CitationScan {
+  const scan: CitationScan = { files: files.map(file => file.name), keys: [], citesAll: false };
+
+  files.forEach(file => {
+    if (/\.aux$/i.test(file.name)) {
+      AUX_CITATION_PATTERNS.forEach(pattern => {
+        for (const match of file.content.matchAll(pattern)) {
+          addKeys(scan, match[1].split(',').map(key => key.trim()));
+        }
+      });
+      return;
+    }
+
+    const content = stripComments(file.content);
+    for (const match of content.matchAll(CITE_COMMAND_PATTERN)) {
+      const command = match[1];
+      const multicite = MULTICITE_COMMANDS.includes(command);
+      addKeys(scan, readCommandKeys(content, match.index! + match[0].length, multicite));
+    }
+  });
+
+  return scan;
+}
@@ -0,0 +1,64 @@
+import { convertLatexFields, encodeBibTeXText, latexToUnicode, unicodeToLatex } from './latexUnicode';
+
+describe('latexToUnicode', () => {
+  it('decodes accents in their common spellings', () => {
+    expect(latexToUnicode('Sch{\\"o}n')).toBe('Schön');
+    expect(latexToUnicode('Schr\\"odinger')).toBe('Schrödinger');
+    expect(latexToUnicode("Andr\\'{e}")).toBe('André');
+    expect(latexToUnicode('{\\c{c}}a')).toBe('ça');
+  });
+
+  it('decodes special characters, dashes and ties', () => {
+    expect(latexToUnicode('Stra{\\ss}e')).toBe('Straße');
+    expect(latexToUnicode('pages 1--10')).toBe('pages 1–10');
+    expect(latexToUnicode('A~B')).toBe('A B');
+    expect(latexToUnicode('R\\&D')).toBe('R&D');
+  });
+
+  it('leaves text without LaTeX untouched', () => {
+    expect(latexToUnicode('Plain text')).toBe('Plain text');
+    expect(latexToUnicode('')).toBe('');
+  });
+});
+
+describe('unicodeToLatex', () => {
+  it('encodes non-ASCII characters and keeps ASCII markup', () => {
+    expect(unicodeToLatex('Schön')).toBe('Sch{\\"o}n');
+    expect(unicodeToLatex('{\\em Über}')).toBe('{\\em {\\"U}ber}');
+    expect(unicodeToLatex('plain')).toBe('plain');
+  });
+
+  it('decodes back to the same text', () => {
+    ['Schrödinger', 'Straße', 'Łódź', 'naïve café'].forEach(text => {
+      expect(latexToUnicode(unicodeToLatex(text))).toBe(text);
+    });
+  });
+});
+
+describe('encodeBibTeXText', () => {
+  it('escapes reserved characters that are not escaped yet', () => {
+    expect(encodeBibTeXText('R&D 100% #1 a_b', 'utf8')).toBe('R\\&D 100\\% \\#1 a\\_b');
+    expect(encodeBibTeXText('R\\&D', 'utf8')).toBe('R\\&D');
+  });
+
+  it('encodes non-ASCII characters only for ASCII output', () => {
+    expect(encodeBibTeXText('Schön', 'ascii')).toBe('Sch{\\"o}n');
+    expect(encodeBibTeXText('Schön', 'utf8')).toBe('Schön');
+  });
+});
+
+describe('convertLatexFields', () => {
+  it('decodes text fields and name parts in place', () => {
+    const entries: any[] = [{
+      title: 'G{\\"o}del',
+      author: [{ family: 'G{\\"o}del', given: 'Kurt' }],
+      DOI: '10.1000/a\\_b'
+    }];
+    convertLatexFields(entries);
+    expect(entries[0]).toEqual({
+      title: 'Gödel',
+      author: [{ family: 'Gödel', given: 'Kurt' }],
+      DOI: '10.1000/a\\_b'
+    });
+  });
+});
@@ -0,0 +1,514 @@
+// LaTeX <-> Unicode conversion for BibTeX text.
+// Citation.js decodes the common accent commands on import but leaves unknown
+// commands, math symbols and @STRING values as LaTeX, and on export drops
+// characters it has no command for. This module decodes what is left for
+// display and encodes BibTeX output as UTF-8 or as ASCII with LaTeX commands.
+
+export type BibTeXEncoding = 'utf8' | 'ascii';
+
+// Accent commands and the combining character they add
+const ACCENTS: Record<string, string> = {
+  '`': '\u0300',
+  "'": '\u0301',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  u: '\u0306',
+  '.': '\u0307',
+  '"': '\u0308',
+  r: '\u030a',
+  H: '\u030b',
+  v: '\u030c',
+  d: '\u0323',
+  c: '\u0327',
+  k: '\u0328',
+  b: '\u0331'
+};
+
+// Text-mode commands that stand for a single character
+const TEXT_SYMBOLS: Record<string, string> = {
+  ss: 'ß',
+  aa: 'å',
+  AA: 'Å',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  o: 'ø',
+  O: 'Ø',
+  l: 'ł',
+  L: 'Ł',
+  i: 'ı',
+  j: 'ȷ',
+  dh: 'ð',
+  DH: 'Ð',
+  th: 'þ',
+  TH: 'Þ',
+  ng: 'ŋ',
+  NG: 'Ŋ',
+  dj: 'đ',
+  DJ: 'Đ',
+  textendash: '–',
+  textemdash: '—',
+  textquoteleft: '‘',
+  textquoteright: '’',
+  textquotedblleft: '“',
+  textquotedblright: '”',
+  guillemotleft: '«',
+  guillemotright: '»',
+  ldots: '…',
+  textellipsis: '…',
+  dots: '…',
+  textexclamdown: '¡',
+  textquestiondown: '¿',
+  S: '§',
+  P: '¶',
+  dag: '†',
+  ddag: '‡',
+  textregistered: '®',
+  texttrademark: '™',
+  copyright: '©',
+  textcopyright: '©',
+  textdegree: '°',
+  textperiodcentered: '·',
+  textbullet: '•',
+  pounds: '£',
+  textsterling: '£',
+  euro: '€',
+  texteuro: '€',
+  textbackslash: '\\',
+  textasciitilde: '~',
+  textasciicircum: '^',
+  textunderscore: '_',
+  textbar: '|',
+  textless: '<',
+  textgreater: '>'
+};
+
+// Math-mode commands that stand for a single character
+const MATH_SYMBOLS: Record<string, string> = {
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  delta: 'δ',
+  epsilon: 'ϵ',
+  varepsilon: 'ε',
+  zeta: 'ζ',
+  eta: 'η',
+  theta: 'θ',
+  vartheta: 'ϑ',
+  iota: 'ι',
+  kappa: 'κ',
+  lambda: 'λ',
+  mu: 'μ',
+  nu: 'ν',
+  xi: 'ξ',
+  pi: 'π',
+  varpi: 'ϖ',
+  rho: 'ρ',
+  varrho: 'ϱ',
+  sigma: 'σ',
+  varsigma: 'ς',
+  tau: 'τ',
+  upsilon: 'υ',
+  phi: 'ϕ',
+  varphi: 'φ',
+  chi: 'χ',
+  psi: 'ψ',
+  omega: 'ω',
+  Gamma: 'Γ',
+  Delta: 'Δ',
+  Theta: 'Θ',
+  Lambda: 'Λ',
+  Xi: 'Ξ',
+  Pi: 'Π',
+  Sigma: 'Σ',
+  Upsilon: 'Υ',
+  Phi: 'Φ',
+  Psi: 'Ψ',
+  Omega: 'Ω',
+  leq: '≤',
+  le: '≤',
+  geq: '≥',
+  ge: '≥',
+  neq: '≠',
+  ne: '≠',
+  approx: '≈',
+  sim: '∼',
+  simeq: '≃',
+  equiv: '≡',
+  propto: '∝',
+  ll: '≪',
+  gg: '≫',
+  pm: '±',
+  mp: '∓',
+  times: '×',
+  div: '÷',
+  cdot: '⋅',
+  ast: '∗',
+  circ: '∘',
+  infty: '∞',
+  partial: '∂',
+  nabla: '∇',
+  sum: '∑',
+  prod: '∏',
+  int: '∫',
+  surd: '√',
+  in: '∈',
+  notin: '∉',
+  subset: '⊂',
+  supset: '⊃',
+  subseteq: '⊆',
+  supseteq: '⊇',
+  cup: '∪',
+  cap: '∩',
+  emptyset: '∅',
+  forall: '∀',
+  exists: '∃',
+  neg: '¬',
+  wedge: '∧',
+  vee: '∨',
+  rightarrow: '→',
+  to: '→',
+  leftarrow: '←',
+  leftrightarrow: '↔',
+  Rightarrow: '⇒',
+  Leftarrow: '⇐',
+  Leftrightarrow: '⇔',
+  uparrow: '↑',
+  downarrow: '↓',
+  mapsto: '↦',
+  prime: '′',
+  hbar: 'ℏ',
+  ell: 'ℓ'
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ'
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎'
+};
+
+// Commands whose argument becomes CSL rich text, as Citation.js imports them
+const FORMATTING_COMMANDS: Record<string, [string, string]> = {
+  emph: ['<i>', '</i>'],
+  textit: ['<i>', '</i>'],
+  textsl: ['<i>', '</i>'],
+  textbf: ['<b>', '</b>'],
+  textsc: ['<span style="font-variant:small-caps;">', '</span>'],
+  textsuperscript: ['<sup>', '</sup>'],
+  textsubscript: ['<sub>', '</sub>'],
+  textup: ['', ''],
+  textnormal: ['', ''],
+  textrm: ['', ''],
+  textsf: ['', ''],
+  texttt: ['', ''],
+  mbox: ['', ''],
+  text: ['', ''],
+  mathrm: ['', ''],
+  mathit: ['', ''],
+  mathbf: ['', '']
+};
+
+const IGNORED_COMMANDS = new Set(['relax', 'protect', 'nobreak', 'null', 'ensuremath']);
+
+// Reverse tables for encoding; the first command listed for a character wins
+const ACCENT_COMMANDS = invert(ACCENTS);
+const TEXT_SYMBOL_COMMANDS = invert(TEXT_SYMBOLS);
+const MATH_SYMBOL_COMMANDS = invert(MATH_SYMBOLS);
+const SUPERSCRIPT_CHARS = invert(SUPERSCRIPTS);
+const SUBSCRIPT_CHARS = invert(SUBSCRIPTS);
+
+// Characters spelled as ASCII ligatures instead of commands
+const ASCII_LIGATURES: Record<string, string> = {
+  '–': '--',
+  '—': '---',
+  '\u00a0': '~',
+  '“': '``',
+  '”': "''",
+  '‘': '`',
+  '’': "'"
+};
+
+const LATEX_PATTERN = /[\\{}$~]|--|``|''/;
+
+function invert(table: Record<string, string>): Record<string, string> {
+  const inverted: Record<string, string> = {};
+  Object.entries(table).forEach(([key, value]) => {
+    if (!(value in inverted)) inverted[value] = key;
+  });
+  return inverted;
+}
+
+// Index after the group that starts with "{" at `start`, or -1 when unbalanced
+function findGroupEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === '{') {
+      depth++;
+    } else if (text[index] === '}' && --depth === 0) {
+      return index + 1;
+    }
+  }
+  return -1;
+}
+
+// Reads a command argument: a braced group, \i, \j or a single character
+function readArgument(text: string, start: number): { value: string; end: number } | null {
+  let index = start;
+  while (text[index] === ' ') index++;
+  if (text[index] === '{') {
+    const end = findGroupEnd(text, index);
+    return end === -1 ? null : { value: text.slice(index + 1, end - 1), end };
+  }
+  const command = /^\\[a-zA-Z]+/.exec(text.slice(index));
+  if (command) {
+    return { value: command[0], end: index + command[0].length };
+  }
+  return index < text.length ? { value: text[index], end: index + 1 } : null;
+}
+
+function applyAccent(accent: string, base: string): string {
+  const letter = latexToUnicode(base.trim()).replace(/^ı$/, 'i').replace(/^ȷ$/, 'j');
+  return (letter + ACCENTS[accent]).normalize('NFC');
+}
+
+// Converts ^ and _ arguments to Unicode super/subscripts, or to rich text
+function convertScript(value: string, table: Record<string, string>, tag: string): string {
+  const chars = Array.from(value);
+  return chars.every(char => char in table)
+    ? chars.map(char => table[char]).join('')
+    : `<${tag}>${value}</${tag}>`;
+}
+
+function convertMath(math: string): string {
+  let result = '';
+  let index = 0;
+  while (index < math.length) {
+    const char = math[index];
+    if (char === '\\') {
+      const name = /^\\([a-zA-Z]+|.)/.exec(math.slice(index))?.[1] || '';
+      index += name.length + 1;
+      if (name in MATH_SYMBOLS) {
+        result += MATH_SYMBOLS[name];
+      } else if (name in FORMATTING_COMMANDS || IGNORED_COMMANDS.has(name)) {
+        // Argument, if any, is read as a group below
+      } else if (name in TEXT_SYMBOLS) {
+        result += TEXT_SYMBOLS[name];
+      } else {
+        result += /^[a-zA-Z]/.test(name) ? `\\${name}` : name;
+      }
+    } else if (char === '^' || char === '_') {
+      const argument = readArgument(math, index + 1);
+      if (!argument) {
+        result += char;
+        index++;
+      } else {
+        const value = convertMath(argument.value);
+        result += char === '^' ? convertScript(value, SUPERSCRIPTS, 'sup') : convertScript(value, SUBSCRIPTS, 'sub');
+        index = argument.end;
+      }
+    } else {
+      if (char !== '{' && char !== '}') result += char;
+      index++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts LaTeX markup to Unicode text: accents, special characters,
+ * dashes, quotes, ties and simple math. Braces are dropped, formatting
+ * commands become CSL rich text tags and unknown commands are kept.
+ * @param text BibTeX field value
+ * @returns Unicode text
+ */
+export function latexToUnicode(text: string): string {
+  if (!text || !LATEX_PATTERN.test(text)) {
+    return text;
+  }
+
+  let result = '';
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\\') {
+      const next = text[index + 1] ?? '';
+      const name = /^\\([a-zA-Z]+)/.exec(rest)?.[1];
+
+      if (next in ACCENTS && (!name || name.length === 1)) {
+        // \"u, \'{e}, \v{c}, \c c
+        const argument = readArgument(text, index + 2);
+        if (argument && (!/^[a-zA-Z]$/.test(next) || text[index + 2] === '{' || text[index + 2] === ' ')) {
+          result += applyAccent(next, argument.value);
+          index = argument.end;
+          continue;
+        }
+      }
+
+      if (!name) {
+        // \&, \%, \$, \#, \_, \{, \}, "\ " and other escaped characters; \- is a
+        // hyphenation hint and \\ a line break
+        result += next === '-' ? '' : next === '\\' ? ' ' : next;
+        index += 2;
+        continue;
+      }
+
+      let end = index + name.length + 1;
+      if (name in FORMATTING_COMMANDS) {
+        const argument = readArgument(text, end);
+        if (argument) {
+          const [open, close] = FORMATTING_COMMANDS[name];
+          result += `${open}${latexToUnicode(argument.value)}${close}`;
+          index = argument.end;
+          continue;
+        }
+      }
+
+      const symbol = TEXT_SYMBOLS[name] ?? MATH_SYMBOLS[name];
+      if (symbol === undefined && !IGNORED_COMMANDS.has(name)) {
+        // Unknown commands are kept together with their argument
+        const argument = text[end] === '{' ? readArgument(text, end) : null;
+        result += argument ? text.slice(index, argument.end) : `\\${name}`;
+        index = argument ? argument.end : end;
+        continue;
+      }
+      // A command word swallows the following spaces or an empty group
+      if (text.startsWith('{}', end)) {
+        end += 2;
+      } else {
+        while (text[end] === ' ') end++;
+      }
+      result += symbol ?? '';
+      index = end;
+      continue;
+    }
+
+    if (char === '$') {
+      // $x^2$ is math, "$5 and $10" is not: math does not start or end with a space
+      const close = text.indexOf('$', index + 1);
+      const math = close === -1 ? '' : text.slice(index + 1, close);
+      if (math && !/^\s|\s$/.test(math)) {
+        result += convertMath(math);
+        index = close + 1;
+        continue;
+      }
+    }
+
+    if (char === '{' || char === '}') {
+      index++;
+    } else if (rest.startsWith('---')) {
+      result += '—';
+      index += 3;
+    } else if (rest.startsWith('--')) {
+      result += '–';
+      index += 2;
+    } else if (rest.startsWith('``')) {
+      result += '“';
+      index += 2;
+    } else if (rest.startsWith("''")) {
+      result += '”';
+      index += 2;
+    } else if (char === '~' && /\S/.test(text[index - 1] ?? '') && /\S/.test(text[index + 1] ?? '')) {
+      // A tie between two words, not "~50"
+      result += '\u00a0';
+      index++;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+  return result;
+}
+
+// Encodes a single non-ASCII character, or returns it unchanged
+function encodeCharacter(char: string): string {
+  if (char in ASCII_LIGATURES) return ASCII_LIGATURES[char];
+  if (char in TEXT_SYMBOL_COMMANDS) return `{\\${TEXT_SYMBOL_COMMANDS[char]}}`;
+  if (char in MATH_SYMBOL_COMMANDS) return `$\\${MATH_SYMBOL_COMMANDS[char]}$`;
+  if (char in SUPERSCRIPT_CHARS) return `$^{${SUPERSCRIPT_CHARS[char]}}$`;
+  if (char in SUBSCRIPT_CHARS) return `$_{${SUBSCRIPT_CHARS[char]}}$`;
+
+  // Letters with diacritics: ü -> {\"u}, č -> {\v{c}}, ǘ -> {\'{\"u}}
+  const [base, ...marks] = Array.from(char.normalize('NFD'));
+  if (marks.length === 0 || !marks.every(mark => mark in ACCENT_COMMANDS)) {
+    return char;
+  }
+  const baseLatex = base === 'ı' ? '\\i' : base === 'ȷ' ? '\\j' : base in TEXT_SYMBOL_COMMANDS ? `\\${TEXT_SYMBOL_COMMANDS[base]}` : base;
+  if (!/^(\\[ij]|\\[a-zA-Z]+|[a-zA-Z])$/.test(baseLatex)) {
+    return char;
+  }
+  const accented = marks.reduce((inner, mark) => {
+    const command = ACCENT_COMMANDS[mark];
+    return /^[a-zA-Z]$/.test(command) ? `\\${command}{${inner}}` : `\\${command}${inner.length > 1 ? `{${inner}}` : inner}`;
+  }, baseLatex);
+  return `{${accented}}`;
+}
+
+/**
+ * Converts non-ASCII characters to LaTeX commands. ASCII text, including
+ * LaTeX markup that is already present, is left alone; characters without
+ * a LaTeX equivalent are kept as they are.
+ * @param text Unicode text
+ * @returns ASCII text with LaTeX commands
+ */
+export function unicodeToLatex(text: string): string {
+  if (!/[^\t\n\r -~]/.test(text)) {
+    return text;
+  }
+  return Array.from(text.normalize('NFC')).map(char => (char.charCodeAt(0) < 0x80 ? char : encodeCharacter(char))).join('');
+}
+
+/**
+ * Escapes the characters LaTeX reserves and, for ASCII output, encodes
+ * non-ASCII characters. Backslash commands and braces are kept, so the
+ * value may already contain BibTeX markup.
+ * @param value BibTeX field value without delimiters
+ * @param encoding UTF-8 or ASCII output
+ */
+export function encodeBibTeXText(value: string, encoding: BibTeXEncoding): string {
+  const escaped = value.replace(/(?<!\\)[&%#_$]/g, char => `\\${char}`);
+  return encoding === 'ascii' ? unicodeToLatex(escaped) : escaped;
+}
+
+// CSL fields whose imported text may still hold LaTeX
+const LATEX_TEXT_FIELDS = [
+  'title', 'title-short', 'container-title', 'container-title-short', 'collection-title', 'original-title',
+  'publisher', 'publisher-place', 'event', 'event-title', 'event-place', 'genre', 'medium', 'note', 'abstract',
+  'annote', 'keyword', 'edition', 'section'
+];
+
+const LATEX_NAME_PARTS = ['family', 'given', 'suffix', 'dropping-particle', 'non-dropping-particle', 'literal'];
+
+/**
+ * Decodes the LaTeX Citation.js left in imported BibTeX entries
+ * @param entries CSL entries (modified in place)
+ */
+export function convertLatexFields(entries: any[]): void {
+  entries.forEach(entry => {
+    LATEX_TEXT_FIELDS.forEach(field => {
+      if (typeof entry[field] === 'string') {
+        entry[field] = latexToUnicode(entry[field]);
+      }
+    });
+    Object.values(entry).forEach((value: any) => {
+      if (!Array.isArray(value)) return;
+      value.forEach(name => {
+        if (!name || typeof name !== 'object') return;
+        LATEX_NAME_PARTS.forEach(part => {
+          if (typeof name[part] === 'string') {
+            name[part] = latexToUnicode(name[part]);
+          }
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,110 @@
+import { LINT_RULES, LintContext, LintRuleId, lintLibrary } from './libraryLinter';
+import { createBibTeXSource } from './bibtexRoundTrip';
+import { parseBibTeX } from './bibtexParser';
+import { createTitleProtectionContext } from './titleProtection';
+import { createAbbreviationTable } from './journalAbbreviations';
+
+const CONTEXT: LintContext = { currentYear: 2024 };
+
+function check(ruleId: LintRuleId, entry: any, context: LintContext = CONTEXT) {
+  return LINT_RULES.find(rule => rule.id === ruleId)!.check(entry, context);
+}
+
+describe('LINT_RULES', () => {
+  it('reports missing required fields', () => {
+    expect(check('required-fields', { id: 'a', type: 'article-journal', title: 'Title' })).toEqual([{
+      message: expect.stringMatching(/^Missing .*for type article-journal$/)
+    }]);
+    expect(check('required-fields', {
+      id: 'a',
+      type: 'article-journal',
+      title: 'Title',
+      author: [{ family: 'Doe' }],
+      'container-title': 'Journal',
+      issued: { 'date-parts': [[2020]] }
+    })).toEqual([]);
+  });
+
+  it('fixes DOIs written as links', () => {
+    expect(check('doi-format', { DOI: 'https://doi.org/10.1000/xyz' })).toEqual([{
+      message: 'DOI "https://doi.org/10.1000/xyz" must start with "10."',
+      fix: { DOI: '10.1000/xyz' }
+    }]);
+    expect(check('doi-format', { DOI: 'not a doi' })[0].fix).toBeUndefined();
+    expect(check('doi-format', { DOI: '10.1000/xyz' })).toEqual([]);
+  });
+
+  it('normalizes page range dashes', () => {
+    expect(check('page-range-dash', { page: '1--10' })).toEqual([{
+      message: 'Page range "1--10" is not written as a single dash',
+      fix: { page: '1-10' }
+    }]);
+    expect(check('page-range-dash', { page: '1-10' })).toEqual([]);
+  });
+
+  it('checks the .bib text of unmodified round-trip entries', () => {
+    const bibtexSource = createBibTeXSource(parseBibTeX('@article{a, pages = {1-10}}'), [{ id: 'a' }]);
+    expect(check('page-range-dash', { id: 'a', page: '1-10' }, { ...CONTEXT, bibtexSource })).toEqual([{
+      message: 'Page range "1-10" uses a single dash in the .bib file',
+      fix: { page: '1-10' }
+    }]);
+  });
+
+  it('flags all-caps titles and future years', () => {
+    expect(check('all-caps-title', { title: 'A STUDY OF THINGS' })).toHaveLength(1);
+    expect(check('all-caps-title', { title: 'A Study of NASA' })).toEqual([]);
+    expect(check('future-year', { issued: { 'date-parts': [[2030]] } })).toEqual([{ message: 'Published in 2030' }]);
+    expect(check('future-year', { issued: { 'date-parts': [[2024]] } })).toEqual([]);
+  });
+
+  it('removes URLs that only link to the DOI', () => {
+    expect(check('url-duplicates-doi', { DOI: '10.1000/a(b)', URL: 'https://doi.org/10.1000/a%28b%29' })).toEqual([{
+      message: 'URL only links to the DOI',
+      fix: { URL: undefined }
+    }]);
+    expect(check('url-duplicates-doi', { DOI: '10.1000/xyz', URL: 'https://example.org' })).toEqual([]);
+  });
+
+  it('drops empty names from author lists', () => {
+    expect(check('empty-authors', { author: [{ family: 'Doe' }, { family: ' ' }] })).toEqual([{
+      message: 'Author list contains 1 empty name',
+      fix: { author: [{ family: 'Doe' }] }
+    }]);
+    expect(check('empty-authors', { author: [], editor: [{ family: 'Roe' }] })).toEqual([]);
+  });
+
+  it('protects acronyms in titles', () => {
+    const titleProtection = createTitleProtectionContext([]);
+    expect(check('unbraced-acronym', { title: 'Fine-tuning BERT' }, { ...CONTEXT, titleProtection })).toEqual([{
+      message: '"BERT" (acronym) loses capitalization in BibTeX styles',
+      fix: { title: 'Fine-tuning <span class="nocase">BERT</span>' }
+    }]);
+  });
+
+  it('checks journals against the abbreviation table', () => {
+    const context = { ...CONTEXT, journalAbbreviations: createAbbreviationTable(), variables: { jmlr: 'Journal of Machine Learning Research' } };
+    const article = { type: 'article-journal', 'container-title': 'jmlr' };
+    expect(check('missing-journal-abbreviation', article, context)).toEqual([{
+      message: 'Journal abbreviation "J. Mach. Learn. Res." is not set',
+      fix: { 'container-title-short': 'J. Mach. Learn. Res.' }
+    }]);
+    expect(check('unknown-journal', article, context)).toEqual([]);
+    expect(check('unknown-journal', { ...article, 'container-title': 'Local Journal' }, context)).toEqual([{
+      message: '"Local Journal" has no abbreviation in the table, so exports write it as stored'
+    }]);
+  });
+});
+
+describe('lintLibrary', () => {
+  it('runs the enabled rules per entry', () => {
+    const entries = [
+      { id: 'a', type: 'webpage', author: [{ family: 'Doe' }], title: 'Page', URL: 'https://example.org', issued: { 'date-parts': [[2030]] } },
+      { id: 'b', type: 'webpage', author: [{ family: 'Doe' }], title: 'Page', URL: 'https://example.org', DOI: 'doi:10.1000/xyz' }
+    ];
+    expect(lintLibrary(entries, CONTEXT).map(issue => [issue.entryId, issue.ruleId, issue.severity])).toEqual([
+      ['a', 'future-year', 'warning'],
+      ['b', 'doi-format', 'error']
+    ]);
+    expect(lintLibrary(entries, CONTEXT, ['future-year', 'doi-format'])).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+// Rule-based checks over all library entries.
+// Each rule reports problems for a single entry and, where the change cannot
+// lose information, the updates that fix it.
+import { BibTeXSource } from '../types/citationTypes';
+import { CSL_FIELD_METADATA, CSL_REQUIRED_FIELDS, CSLEntryType } from '../types/cslFieldMetadata';
+import { hasFieldValue, isValidDOI, stripDOIPrefix, validatePages } from '../schemas/cslSchemas';
+import { getUnmodifiedSourceField } from './bibtexRoundTrip';
+import { getYear, resolveVariable } from './cslUtils';
+import {
+  createTitleProtectionContext, protectWords, suggestTitleProtection, PROTECTION_REASON_LABELS, TitleProtectionContext
+} from './titleProtection';
+import { createAbbreviationTable, findJournal, isJournalEntry, JournalAbbreviationTable } from './journalAbbreviations';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleId =
+  | 'required-fields'
+  | 'doi-format'
+  | 'pages-format'
+  | 'page-range-dash'
+  | 'all-caps-title'
+  | 'unbraced-acronym'
+  | 'url-duplicates-doi'
+  | 'future-year'
+  | 'empty-authors'
+  | 'unknown-journal'
+  | 'missing-journal-abbreviation';
+
+export interface LintContext {
+  bibtexSource?: BibTeXSource; // only when round-trip export writes the source back
+  currentYear: number;
+  titleProtection?: TitleProtectionContext; // built from the entries by lintLibrary when missing
+  journalAbbreviations?: JournalAbbreviationTable; // bundled table when missing
+  variables?: Record<string, string>; // @STRING variables, to resolve journals given as references
+}
+
+export interface LintIssue {
+  ruleId: LintRuleId;
+  severity: LintSeverity;
+  entryId: string;
+  message: string;
+  fix?: Record<string, any>; // updates for updateEntry
+}
+
+type LintResult = { message: string; fix?: Record<string, any> };
+
+export interface LintRule {
+  id: LintRuleId;
+  label: string;
+  severity: LintSeverity;
+  check: (entry: any, context: LintContext) => LintResult[];
+}
+
+function fieldLabel(field: string): string {
+  return CSL_FIELD_METADATA[field]?.label || field;
+}
+
+function isBlankName(name: any): boolean {
+  return !name?.given?.trim() && !name?.family?.trim() && !name?.literal?.trim();
+}
+
+// CSL page ranges use a single hyphen, Citation.js writes it as "--" in BibTeX
+function normalizePageRange(page: string): string {
+  return page.replace(/(\d)\s*(?:-+|–)\s*(?=\w)/g, '$1-');
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(word => word);
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'required-fields',
+    label: 'Missing required fields',
+    severity: 'error',
+    check: (entry) => {
+      const required = CSL_REQUIRED_FIELDS[entry.type as CSLEntryType] || [];
+      const missing = required.filter(field => (
+        Array.isArray(field) ? !field.some(item => hasFieldValue(entry[item])) : !hasFieldValue(entry[field as string])
+      ));
+      if (missing.length === 0) return [];
+      const labels = missing.map(field => (Array.isArray(field) ? field.map(fieldLabel).join(' or ') : fieldLabel(field as string)));
+      return [{ message: `Missing ${labels.join(', ')} for type ${entry.type}` }];
+    }
+  },
+  {
+    id: 'doi-format',
+    label: 'Malformed DOI',
+    severity: 'error',
+    check: (entry) => {
+      if (typeof entry.DOI !== 'string' || !entry.DOI.trim() || isValidDOI(entry.DOI)) return [];
+      const stripped = stripDOIPrefix(entry.DOI);
+      return [{
+        message: `DOI "${entry.DOI}" must start with "10."`,
+        fix: isValidDOI(stripped) ? { DOI: stripped } : undefined
+      }];
+    }
+  },
+  {
+    id: 'pages-format',
+    label: 'Malformed pages',
+    severity: 'warning',
+    check: (entry) => {
+      if (typeof entry.page !== 'string') return [];
+      return validatePages(entry.page).map(message => ({ message: `Pages "${entry.page}": ${message}` }));
+    }
+  },
+  {
+    id: 'page-range-dash',
+    label: 'Single-dash page ranges',
+    severity: 'warning',
+    check: (entry, context) => {
+      if (typeof entry.page !== 'string') return [];
+      const sourcePages = context.bibtexSource && getUnmodifiedSourceField(context.bibtexSource, entry.id, 'pages');
+      if (sourcePages !== undefined) {
+        // Round-trip export writes the .bib text back as it was read
+        if (!/\d\s*-\s*\d/.test(sourcePages) || /--/.test(sourcePages)) return [];
+        return [{
+          message: `Page range "${sourcePages}" uses a single dash in the .bib file`,
+          fix: { page: normalizePageRange(entry.page) }
+        }];
+      }
+      // "--" in CSL data turns into "---" in BibTeX
+      if (!/\d\s*--+\s*\d|\d\s+-|-\s+\d/.test(entry.page)) return [];
+      return [{
+        message: `Page range "${entry.page}" is not written as a single dash`,
+        fix: { page: normalizePageRange(entry.page) }
+      }];
+    }
+  },
+  {
+    id: 'all-caps-title',
+    label: 'All-caps titles',
+    severity: 'warning',
+    check: (entry) => {
+      if (typeof entry.title !== 'string') return [];
+      const words = splitWords(entry.title.replace(/<[^>]+>/g, '')).filter(word => /\p{L}/u.test(word));
+      if (words.length < 3 || words.some(word => /\p{Ll}/u.test(word))) return [];
+      return [{ message: 'Title is written in capitals; styles cannot change its case' }];
+    }
+  },
+  {
+    id: 'unbraced-acronym',
+    label: 'Unprotected acronyms and proper nouns',
+    severity: 'info',
+    check: (entry, context) => {
+      if (typeof entry.title !== 'string' || !context.titleProtection) return [];
+      const suggestions = suggestTitleProtection(entry.title, context.titleProtection);
+      if (suggestions.length === 0) return [];
+
+      const words = suggestions.map(({ word, reason }) => `"${word}" (${PROTECTION_REASON_LABELS[reason]})`);
+      return [{
+        message: `${words.join(', ')} lose${suggestions.length === 1 ? 's' : ''} capitalization in BibTeX styles`,
+        fix: { title: protectWords(entry.title, suggestions.map(suggestion => suggestion.word)) }
+      }];
+    }
+  },
+  {
+    id: 'url-duplicates-doi',
+    label: 'URLs that duplicate the DOI',
+    severity: 'info',
+    check: (entry) => {
+      if (typeof entry.URL !== 'string' || typeof entry.DOI !== 'string') return [];
+      const match = /^https?:\/\/(dx\.)?doi\.org\/(.+)$/i.exec(entry.URL.trim());
+      let urlDOI = match?.[2];
+      try {
+        urlDOI = urlDOI && decodeURIComponent(urlDOI);
+      } catch {
+        // Keep the encoded form
+      }
+      if (!urlDOI || urlDOI.toLowerCase() !== stripDOIPrefix(entry.DOI).toLowerCase()) return [];
+      return [{ message: 'URL only links to the DOI', fix: { URL: undefined } }];
+    }
+  },
+  {
+    id: 'future-year',
+    label: 'Year in the future',
+    severity: 'warning',
+    check: (entry, context) => {
+      const year = parseInt(getYear(entry), 10);
+      return year > context.currentYear ? [{ message: `Published in ${year}` }] : [];
+    }
+  },
+  {
+    id: 'empty-authors',
+    label: 'Empty author lists',
+    severity: 'warning',
+    check: (entry) => {
+      if (!Array.isArray(entry.author)) return [];
+      const names = entry.author.filter((name: any) => !isBlankName(name));
+      if (names.length === 0) {
+        return hasFieldValue(entry.editor) ? [] : [{ message: 'Author list is empty' }];
+      }
+      const blank = entry.author.length - names.length;
+      return blank > 0
+        ? [{ message: `Author list contains ${blank} empty name${blank === 1 ? '' : 's'}`, fix: { author: names } }]
+        : [];
+    }
+  },
+  {
+    id: 'unknown-journal',
+    label: 'Journals missing from the abbreviation table',
+    severity: 'warning',
+    check: (entry, context) => {
+      if (!isJournalEntry(entry) || !context.journalAbbreviations) return [];
+      const journal = resolveVariable(entry['container-title'], context.variables);
+      if (findJournal(journal, context.journalAbbreviations)) return [];
+      return [{ message: `"${journal}" has no abbreviation in the table, so exports write it as stored` }];
+    }
+  },
+  {
+    id: 'missing-journal-abbreviation',
+    label: 'Missing journal abbreviations',
+    severity: 'info',
+    check: (entry, context) => {
+      if (!isJournalEntry(entry) || !context.journalAbbreviations || hasFieldValue(entry['container-title-short'])) return [];
+      const journal = findJournal(resolveVariable(entry['container-title'], context.variables), context.journalAbbreviations);
+      return journal
+        ? [{ message: `Journal abbreviation "${journal.abbreviation}" is not set`, fix: { 'container-title-short': journal.abbreviation } }]
+        : [];
+    }
+  }
+];
+
+/**
+ * Runs the enabled lint rules over the library
+ * @param entries Library entries
+ * @param context Round-trip source, current year, known title words and journal abbreviations
+ * @param disabledRules Rules to skip
+ * @returns Issues ordered by entry, then rule
+ */
+export function lintLibrary(entries: any[], context: LintContext, disabledRules: string[] = []): LintIssue[] {
+  const rules = LINT_RULES.filter(rule => !disabledRules.includes(rule.id));
+  const fullContext = {
+    ...context,
+    titleProtection: context.titleProtection || createTitleProtectionContext(entries),
+    journalAbbreviations: context.journalAbbreviations || createAbbreviationTable()
+  };
+  return entries.flatMap(entry => rules.flatMap(rule => rule.check(entry, fullContext).map(result => ({
+    ruleId: rule.id,
+    severity: rule.severity,
+    entryId: entry.id,
+    ...result
+  }))));
+}
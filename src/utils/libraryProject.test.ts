@@ -0,0 +1,66 @@
+import {
+  LIBRARY_PROJECT_FORMAT,
+  LIBRARY_PROJECT_VERSION,
+  createLibraryProject,
+  isLibraryProject,
+  migrateLibraryProject
+} from './libraryProject';
+
+const ENTRIES = [{ id: 'doe2020', type: 'book', title: 'A Title', publisher: 'acm' }];
+
+function createProject() {
+  return createLibraryProject(ENTRIES, {
+    variables: { acm: 'Association for Computing Machinery' },
+    settings: { roundTripMode: true, exportProfiles: [] },
+    metadata: { title: 'My Library' },
+    filters: { searchText: '', authorFilter: '', yearRange: {}, typeFilter: 'all', customFilters: {} }
+  });
+}
+
+describe('isLibraryProject', () => {
+  it('tells project files from plain CSL-JSON', () => {
+    expect(isLibraryProject(createProject())).toBe(true);
+    expect(isLibraryProject(ENTRIES)).toBe(false);
+    expect(isLibraryProject({ format: 'other' })).toBe(false);
+    expect(isLibraryProject(null)).toBe(false);
+  });
+});
+
+describe('createLibraryProject', () => {
+  it('stamps the format, version and dates', () => {
+    const project = createProject();
+    expect(project).toMatchObject({
+      format: LIBRARY_PROJECT_FORMAT,
+      version: LIBRARY_PROJECT_VERSION,
+      metadata: { title: 'My Library' },
+      variables: { acm: 'Association for Computing Machinery' },
+      entries: ENTRIES
+    });
+    expect(project.metadata.created).toBe(project.metadata.modified);
+  });
+});
+
+describe('migrateLibraryProject', () => {
+  it('loads a saved project unchanged', () => {
+    const project = JSON.parse(JSON.stringify(createProject()));
+    expect(migrateLibraryProject(project)).toEqual(project);
+  });
+
+  it('rejects newer versions and invalid files', () => {
+    const project = createProject();
+    expect(() => migrateLibraryProject({ ...project, version: LIBRARY_PROJECT_VERSION + 1 })).toThrow(/newer than the supported version/);
+    expect(() => migrateLibraryProject({ ...project, variables: { acm: 42 } })).toThrow(/Invalid library file \(variables\.acm\)/);
+    expect(() => migrateLibraryProject({ ...project, entries: [{ title: 'No ID' }] })).toThrow(/Invalid library file \(entries\.0\.id\)/);
+  });
+
+  it('upgrades version 1 files, which had no export profiles', () => {
+    const { settings, ...project } = createProject();
+    const { exportProfiles, ...oldSettings } = settings;
+    expect(exportProfiles).toEqual([]);
+
+    const migrated = migrateLibraryProject({ ...project, version: 1, settings: oldSettings });
+    expect(migrated.version).toBe(2);
+    expect(migrated.settings).toEqual({ roundTripMode: true, exportProfiles: [] });
+    expect(migrated.entries).toEqual(ENTRIES);
+  });
+});
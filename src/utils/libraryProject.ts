@@ -0,0 +1,108 @@
+// Library project file format.
+// Wraps the CSL-JSON entries with everything else that belongs to a library
+// (@STRING variables, filters, settings, metadata) so a save/load cycle is lossless.
+import * as v from 'valibot';
+import {
+  BibTeXSource,
+  FilterState,
+  LibraryMetadata,
+  LibrarySettings
+} from '../types/citationTypes';
+import { libraryProjectSchema } from '../schemas/librarySchemas';
+
+export const LIBRARY_PROJECT_FORMAT = 'easy-bibtex-manager/library';
+export const LIBRARY_PROJECT_VERSION = 2;
+
+export interface LibraryProject {
+  format: typeof LIBRARY_PROJECT_FORMAT;
+  version: number;
+  metadata: LibraryMetadata;
+  settings: LibrarySettings;
+  variables: Record<string, string>;
+  filters?: FilterState;
+  bibtexSource?: BibTeXSource;
+  entries: any[]; // CSL-JSON
+}
+
+// Upgrades a project from version N to N + 1. Add a step here whenever
+// LIBRARY_PROJECT_VERSION is increased.
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  // Version 2 added BibTeX export profiles
+  1: (project) => ({
+    ...project,
+    settings: { ...project.settings, exportProfiles: [] }
+  })
+};
+
+/**
+ * Checks whether parsed JSON is a project file rather than plain CSL-JSON
+ * @param data Parsed JSON content
+ */
+export function isLibraryProject(data: unknown): boolean {
+  return typeof data === 'object' && data !== null && !Array.isArray(data) &&
+    (data as any).format === LIBRARY_PROJECT_FORMAT;
+}
+
+/**
+ * Brings a project file of any supported version up to the current version
+ * @param data Parsed project file content
+ * @returns Project in the current format
+ */
+export function migrateLibraryProject(data: any): LibraryProject {
+  let project = data;
+  let version = typeof project.version === 'number' ? project.version : 0;
+
+  if (version > LIBRARY_PROJECT_VERSION) {
+    throw new Error(`Library file version ${version} is newer than the supported version ${LIBRARY_PROJECT_VERSION}. Please update the BibTeX Manager.`);
+  }
+
+  while (version < LIBRARY_PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available for library file version ${version}`);
+    }
+    project = { ...migrate(project), version: version + 1 };
+    version++;
+  }
+
+  const result = v.safeParse(libraryProjectSchema, project);
+  if (!result.success) {
+    const issue = result.issues[0];
+    const path = issue.path?.map(item => item.key).join('.') || 'file';
+    throw new Error(`Invalid library file (${path}): ${issue.message}`);
+  }
+
+  return project as LibraryProject;
+}
+
+/**
+ * Builds a project file for the current library
+ * @param entries Clean CSL-JSON entries
+ * @param state Library state to persist alongside the entries
+ */
+export function createLibraryProject(
+  entries: any[],
+  state: {
+    variables: Record<string, string>;
+    settings: LibrarySettings;
+    metadata: LibraryMetadata;
+    filters: FilterState;
+    bibtexSource?: BibTeXSource;
+  }
+): LibraryProject {
+  const now = new Date().toISOString();
+  return {
+    format: LIBRARY_PROJECT_FORMAT,
+    version: LIBRARY_PROJECT_VERSION,
+    metadata: {
+      ...state.metadata,
+      created: state.metadata.created || now,
+      modified: now
+    },
+    settings: state.settings,
+    variables: state.variables,
+    filters: state.filters,
+    bibtexSource: state.bibtexSource,
+    entries
+  };
+}
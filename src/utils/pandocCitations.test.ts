@@ -0,0 +1,29 @@
+import { scanPandocCitations } from './pandocCitations';
+
+describe('scanPandocCitations', () => {
+  it('reads bracketed, in-text and braced citations', () => {
+    const scan = scanPandocCitations([{
+      name: 'paper.md',
+      content: 'As [see @doe2020, p. 4; -@roe2021] and @knuth1984 show. See also @{key with:colon}.\nMail me@example.org.'
+    }]);
+    expect(scan.keys).toEqual(['doe2020', 'roe2021', 'knuth1984', 'key with:colon']);
+  });
+
+  it('skips code and comments and reads nocite from the front matter', () => {
+    const scan = scanPandocCitations([{
+      name: 'paper.md',
+      content: '---\ntitle: Paper\nnocite: |\n  @extra, @other\n---\n`@inline` <!-- @comment -->\n```\n@fenced\n```\nText @doe2020.'
+    }]);
+    expect(scan.keys).toEqual(['extra', 'other', 'doe2020']);
+  });
+
+  it('reads nocite @* as citing everything', () => {
+    expect(scanPandocCitations([{ name: 'paper.md', content: '---\nnocite: "@*"\n---\n' }]).citesAll).toBe(true);
+  });
+
+  it('skips Quarto cross-references in .qmd files only', () => {
+    const content = 'See @fig-plot and @doe2020.';
+    expect(scanPandocCitations([{ name: 'paper.qmd', content }]).keys).toEqual(['doe2020']);
+    expect(scanPandocCitations([{ name: 'paper.md', content }]).keys).toEqual(['fig-plot', 'doe2020']);
+  });
+});
@@ -0,0 +1,68 @@
+// Citation keys of Pandoc Markdown documents (.md, .qmd).
+// Finds [@key], [-@key], @key and @{key} citations outside of code and
+// comments, plus the keys listed under `nocite` in the YAML front matter.
+import { CitationScan } from '../types/citationTypes';
+
+// @key or @{key}; keys start with a word character and may contain internal
+// punctuation. The @ must not follow a word character (e-mail addresses).
+const CITATION_PATTERN = /(^|[^\w@])-?@(?:\{([^}]+)\}|(\w[\w:.#$%&\-+?<>~/]*))/g;
+
+// Punctuation is only part of a key when followed by more key characters
+const TRAILING_PUNCTUATION = /[:.#$%&\-+?<>~/]+$/;
+
+// Quarto cross-reference prefixes (@fig-plot, @tbl-results, ...), not citations
+const QUARTO_CROSSREF_PATTERN = /^(fig|tbl|sec|eq|lst|thm|lem|cor|prp|cnj|def|exm|exr)-/;
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/;
+
+// Blanks out code blocks, inline code and HTML comments
+function stripNonProse(content: string): string {
+  return content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .replace(/`[^`\n]*`/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+}
+
+// Returns the value of the `nocite` key, including indented continuation lines
+function readNocite(frontMatter: string): string {
+  const match = /^nocite:[ \t]*(.*(?:\r?\n[ \t]+.*)*)/m.exec(frontMatter);
+  return match ? match[1] : '';
+}
+
+function collectKeys(text: string, quarto: boolean, scan: CitationScan): void {
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const key = match[2]?.trim() ?? match[3].replace(TRAILING_PUNCTUATION, '');
+    if (!key || (quarto && QUARTO_CROSSREF_PATTERN.test(key))) continue;
+    if (!scan.keys.includes(key)) {
+      scan.keys.push(key);
+    }
+  }
+}
+
+/**
+ * Collects the citation keys of Pandoc Markdown files
+ * @param files File names and contents; .qmd files skip Quarto cross-references
+ * @returns Cited keys in order of first citation
+ */
+export function scanPandocCitations(files: Array<{ name: string; content: string }>): CitationScan {
+  const scan: CitationScan = { files: files.map(file => file.name), keys: [], citesAll: false };
+
+  files.forEach(file => {
+    const quarto = /\.qmd$/i.test(file.name);
+    let body = file.content;
+
+    const frontMatter = FRONT_MATTER_PATTERN.exec(body);
+    if (frontMatter) {
+      const nocite = readNocite(frontMatter[1]);
+      if (/(^|[^\w])@\*/.test(nocite)) {
+        scan.citesAll = true;
+      }
+      collectKeys(nocite, quarto, scan);
+      body = body.slice(frontMatter[0].length);
+    }
+
+    collectKeys(stripNonProse(body), quarto, scan);
+  });
+
+  return scan;
+}
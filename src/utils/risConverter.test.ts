@@ -0,0 +1,107 @@
+import { formatRIS, parseRIS } from './risConverter';
+
+const RIS = `TY  - JOUR
+ID  - doe2020
+AU  - Doe, Jane
+AU  - Roe, Richard
+TI  - Learning to
+  cite
+T2  - Nature Communications
+J2  - Nat. Commun.
+PY  - 2020
+DA  - 2020/03/05/
+VL  - 11
+IS  - 2
+SP  - 100
+EP  - 110
+SN  - 2041-1723
+DO  - https://doi.org/10.1000/xyz
+KW  - citations
+KW  - tooling
+ER  -
+
+TY  - COMP
+TI  - Citation Tool
+ET  - 2.1
+ER  -
+`;
+
+describe('parseRIS', () => {
+  it('reads one entry per record', () => {
+    const [article, software] = parseRIS(RIS);
+    expect(article).toMatchObject({
+      id: 'doe2020',
+      'citation-key': 'doe2020',
+      type: 'article-journal',
+      title: 'Learning to cite',
+      author: [{ family: 'Doe', given: 'Jane' }, { family: 'Roe', given: 'Richard' }],
+      'container-title': 'Nature Communications',
+      'container-title-short': 'Nat. Commun.',
+      issued: { 'date-parts': [[2020, 3, 5]] },
+      volume: '11',
+      issue: '2',
+      page: '100-110',
+      ISSN: '2041-1723',
+      DOI: '10.1000/xyz',
+      keyword: 'citations, tooling'
+    });
+    expect(software).toMatchObject({ type: 'software', title: 'Citation Tool', version: '2.1' });
+    expect(software.edition).toBeUndefined();
+  });
+
+  it('generates keys for records without an ID', () => {
+    const entries = parseRIS('TY  - BOOK\nAU  - Knuth, Donald\nPY  - 1984\nTI  - The TeXbook\nER  - \n'.repeat(2));
+    expect(entries.map(entry => entry.id)).toEqual(['knuth1984', 'knuth1984a']);
+  });
+
+  it('maps dataset and generic records', () => {
+    const entries = parseRIS('TY  - DATA\nTI  - Data\nER  - \nTY  - GEN\nTI  - Preprint\nER  - \n');
+    expect(entries.map(entry => entry.type)).toEqual(['dataset', 'article']);
+  });
+});
+
+describe('formatRIS', () => {
+  it('writes the tags a parse reads back', () => {
+    const entries = parseRIS(RIS);
+    expect(parseRIS(formatRIS(entries))).toEqual(entries);
+  });
+
+  it('keeps name particles with the family name', () => {
+    const ris = formatRIS([{
+      id: 'beethoven',
+      type: 'book',
+      title: 'Symphonies',
+      author: [
+        { given: 'Ludwig', 'dropping-particle': 'van', family: 'Beethoven' },
+        { given: 'Jean', 'non-dropping-particle': 'de la', family: 'Fontaine', suffix: 'Jr.' }
+      ]
+    }]);
+    expect(ris).toContain('AU  - van Beethoven, Ludwig');
+    expect(ris).toContain('AU  - de la Fontaine, Jean, Jr.');
+    expect(parseRIS(ris)[0].author).toEqual([
+      { given: 'Ludwig', 'non-dropping-particle': 'van', family: 'Beethoven' },
+      { given: 'Jean', 'non-dropping-particle': 'de la', family: 'Fontaine', suffix: 'Jr.' }
+    ]);
+  });
+
+  it('resolves @STRING references', () => {
+    const ris = formatRIS([{
+      id: 'who2021',
+      type: 'report',
+      author: [{ literal: 'who' }],
+      title: 'World Report',
+      publisher: 'who'
+    }], { who: 'World Health Organization' });
+
+    expect(ris).toContain('TY  - RPRT');
+    expect(ris).toContain('AU  - World Health Organization');
+    expect(ris).toContain('PB  - World Health Organization');
+    expect(ris.trimEnd().endsWith('ER  -')).toBe(true);
+  });
+
+  it('writes the version of software as ET', () => {
+    const ris = formatRIS([{ id: 'tool', type: 'software', title: 'Tool', version: '1.0' }]);
+    expect(ris).toContain('TY  - COMP');
+    expect(ris).toContain('ET  - 1.0');
+  });
+});
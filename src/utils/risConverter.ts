@@ -0,0 +1,291 @@
+// RIS import and export.
+// RIS is the tagged format used by Scopus, Web of Science, EndNote and most
+// publisher sites: one "XX  - value" line per field, records end with "ER  -".
+import { CSLEntry } from '../types/cslFieldMetadata';
+import { getPages, getTitle, resolveVariable } from './cslUtils';
+import { parseLastFirstName } from './bibtexNames';
+import { generateCitationKey } from './citationKeyPattern';
+
+// RIS reference types to CSL-JSON types
+export const RIS_TO_CSL_TYPE: Record<string, string> = {
+  JOUR: 'article-journal',
+  EJOUR: 'article-journal',
+  JFULL: 'article-journal',
+  ABST: 'article-journal',
+  INPR: 'article-journal',
+  MGZN: 'article-magazine',
+  NEWS: 'article-newspaper',
+  BOOK: 'book',
+  EBOOK: 'book',
+  EDBOOK: 'book',
+  CHAP: 'chapter',
+  ECHAP: 'chapter',
+  CONF: 'paper-conference',
+  CPAPER: 'paper-conference',
+  THES: 'thesis',
+  UNPB: 'manuscript',
+  MANSCPT: 'manuscript',
+  RPRT: 'report',
+  ELEC: 'webpage',
+  WEB: 'webpage',
+  DICT: 'entry-dictionary',
+  ENCYC: 'entry-encyclopedia',
+  COMP: 'software',
+  DATA: 'dataset',
+  GEN: 'article'
+};
+
+// CSL-JSON types to RIS reference types
+export const CSL_TO_RIS_TYPE: Record<string, string> = {
+  'article-journal': 'JOUR',
+  'article-magazine': 'MGZN',
+  'article-newspaper': 'NEWS',
+  'book': 'BOOK',
+  'chapter': 'CHAP',
+  'paper-conference': 'CPAPER',
+  'thesis': 'THES',
+  'manuscript': 'UNPB',
+  'report': 'RPRT',
+  'webpage': 'ELEC',
+  'entry-dictionary': 'DICT',
+  'entry-encyclopedia': 'ENCYC',
+  'software': 'COMP',
+  'dataset': 'DATA',
+  'article': 'GEN'
+};
+
+// Types whose ET tag holds a version number rather than an edition
+const VERSIONED_TYPES = new Set(['software', 'dataset']);
+
+// RIS tags holding a single text value, mapped to CSL fields
+const RIS_TEXT_TAGS: Record<string, string> = {
+  TI: 'title',
+  T1: 'title',
+  CT: 'title',
+  T2: 'container-title',
+  JO: 'container-title',
+  JF: 'container-title',
+  BT: 'container-title',
+  JA: 'container-title-short',
+  J2: 'container-title-short',
+  T3: 'collection-title',
+  VL: 'volume',
+  IS: 'issue',
+  PB: 'publisher',
+  CY: 'publisher-place',
+  DO: 'DOI',
+  UR: 'URL',
+  AB: 'abstract',
+  N2: 'abstract',
+  N1: 'note',
+  LA: 'language',
+  M3: 'medium'
+};
+
+const RIS_LINE_PATTERN = /^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/;
+
+type RISRecord = Array<[string, string]>;
+
+// Parses "YYYY/MM/DD/other" or "YYYY-MM-DD" dates
+function parseRISDate(value: string): CSLEntry['issued'] | undefined {
+  const match = /^(\d{4})(?:[/-](\d{1,2})?)?(?:[/-](\d{1,2})?)?/.exec(value.trim());
+  if (!match) {
+    return value.trim() ? { literal: value.trim() } : undefined;
+  }
+  const dateParts = [match[1], match[2], match[3]]
+    .filter(part => part !== undefined && part !== '')
+    .map(part => parseInt(part as string));
+  return { 'date-parts': [dateParts] };
+}
+
+function splitRISRecords(content: string): RISRecord[] {
+  const records: RISRecord[] = [];
+  let current: RISRecord | null = null;
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(line => {
+    const match = RIS_LINE_PATTERN.exec(line.trimEnd());
+    if (!match) {
+      // Continuation of the previous value
+      if (current && current.length > 0 && line.trim()) {
+        current[current.length - 1][1] += ` ${line.trim()}`;
+      }
+      return;
+    }
+
+    const [, tag, value = ''] = match;
+    if (tag === 'TY') {
+      current = [];
+      records.push(current);
+    }
+    if (!current) return;
+    if (tag === 'ER') {
+      current = null;
+      return;
+    }
+    current.push([tag, value.trim()]);
+  });
+
+  return records;
+}
+
+/**
+ * Parses RIS content into CSL-JSON entries
+ * @param content RIS file content
+ * @returns CSL entries, one per TY ... ER record
+ */
+export function parseRIS(content: string): CSLEntry[] {
+  const usedKeys = new Set<string>();
+
+  return splitRISRecords(content).map(record => {
+    const entry: CSLEntry = { id: '', type: 'article-journal' };
+    const keywords: string[] = [];
+    let startPage = '';
+    let endPage = '';
+
+    record.forEach(([tag, value]) => {
+      if (!value && tag !== 'TY') return;
+
+      switch (tag) {
+        case 'TY':
+          entry.type = (RIS_TO_CSL_TYPE[value.toUpperCase()] || 'article-journal') as CSLEntry['type'];
+          break;
+        case 'ID':
+          entry.id = value.replace(/\s+/g, '');
+          break;
+        case 'AU':
+        case 'A1':
+          entry.author = [...(entry.author || []), parseLastFirstName(value)];
+          break;
+        case 'A2':
+        case 'ED':
+          entry.editor = [...(entry.editor || []), parseLastFirstName(value)];
+          break;
+        case 'PY':
+        case 'Y1':
+        case 'DA':
+          // PY holds the year, DA the full date; prefer the more precise one
+          if (!entry.issued || tag === 'DA') {
+            entry.issued = parseRISDate(value) || entry.issued;
+          }
+          break;
+        case 'Y2':
+          entry.accessed = parseRISDate(value);
+          break;
+        case 'SP':
+          startPage = value;
+          break;
+        case 'EP':
+          endPage = value;
+          break;
+        case 'KW':
+          keywords.push(value);
+          break;
+        case 'ET':
+          entry[VERSIONED_TYPES.has(entry.type) ? 'version' : 'edition'] = value;
+          break;
+        case 'SN': {
+          // ISBNs have 10 or 13 digits, ISSNs 8
+          const digits = value.replace(/[^0-9Xx]/g, '');
+          entry[digits.length >= 10 ? 'ISBN' : 'ISSN'] = value;
+          break;
+        }
+        default: {
+          const field = RIS_TEXT_TAGS[tag];
+          if (field && entry[field] === undefined) {
+            entry[field] = value;
+          }
+        }
+      }
+    });
+
+    if (startPage) {
+      entry.page = endPage && endPage !== startPage ? `${startPage}-${endPage}` : startPage;
+    }
+    if (keywords.length > 0) {
+      entry.keyword = keywords.join(', ');
+    }
+    if (entry.DOI) {
+      entry.DOI = entry.DOI.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+    }
+
+    if (!entry.id || usedKeys.has(entry.id)) {
+      entry.id = generateCitationKey(entry, usedKeys);
+    }
+    usedKeys.add(entry.id);
+    entry['citation-key'] = entry.id;
+
+    return entry;
+  });
+}
+
+// Formats a CSL name as "Family, Given, Suffix", resolving @STRING variables.
+// Particles are written with the family name ("van Beethoven, Ludwig").
+function formatRISName(author: any, variables: Record<string, string>): string {
+  if (author.literal) {
+    return resolveVariable(author.literal, variables);
+  }
+  const family = [author['dropping-particle'], author['non-dropping-particle'], author.family].filter(Boolean).join(' ');
+  return [family, author.given, author.suffix].filter(Boolean).join(', ');
+}
+
+function formatRISDate(date: any): string {
+  const parts = date?.['date-parts']?.[0];
+  if (!parts || parts.length === 0) {
+    return date?.literal || '';
+  }
+  const [year, month, day] = parts;
+  const pad = (value?: number) => (value ? String(value).padStart(2, '0') : '');
+  return `${year}/${pad(month)}/${pad(day)}/`;
+}
+
+/**
+ * Serializes CSL-JSON entries as RIS
+ * @param entries CSL entries to export
+ * @param variables @STRING variables used to resolve macro references
+ * @returns RIS file content
+ */
+export function formatRIS(entries: any[], variables: Record<string, string> = {}): string {
+  return entries.map(entry => {
+    const lines: string[] = [];
+    const add = (tag: string, value: unknown) => {
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        lines.push(`${tag}  - ${String(value).replace(/\s*\n\s*/g, ' ')}`);
+      }
+    };
+
+    add('TY', CSL_TO_RIS_TYPE[entry.type] || 'GEN');
+    add('ID', entry.id);
+    (entry.author || []).forEach((author: any) => add('AU', formatRISName(author, variables)));
+    (entry.editor || []).forEach((editor: any) => add('A2', formatRISName(editor, variables)));
+    add('TI', getTitle(entry));
+    add(entry.type === 'chapter' ? 'BT' : 'T2', resolveVariable(entry['container-title'] || '', variables));
+    add('J2', entry['container-title-short']);
+    add('T3', resolveVariable(entry['collection-title'] || '', variables));
+
+    const year = entry.issued?.['date-parts']?.[0]?.[0];
+    add('PY', year);
+    if ((entry.issued?.['date-parts']?.[0]?.length ?? 0) > 1) {
+      add('DA', formatRISDate(entry.issued));
+    }
+    add('Y2', entry.accessed ? formatRISDate(entry.accessed) : undefined);
+
+    add('VL', entry.volume);
+    add('IS', entry.issue || entry.number);
+    const [startPage, endPage] = getPages(entry).split(/-+/);
+    add('SP', startPage);
+    add('EP', endPage);
+    add('ET', VERSIONED_TYPES.has(entry.type) ? entry.version || entry.edition : entry.edition || entry.version);
+    add('PB', resolveVariable(entry.publisher || '', variables));
+    add('CY', resolveVariable(entry['publisher-place'] || '', variables));
+    add('SN', entry.ISBN || entry.ISSN);
+    add('DO', entry.DOI);
+    add('UR', entry.URL);
+    add('LA', entry.language);
+    String(entry.keyword || '').split(/\s*[,;]\s*/).forEach(keyword => add('KW', keyword));
+    add('AB', entry.abstract);
+    add('N1', resolveVariable(entry.note || '', variables));
+    lines.push('ER  - ');
+
+    return lines.join('\n');
+  }).join('\n\n') + '\n';
+}
@@ -95,3 +95,47 @@ export function getSimilarityScore(query: string, paper: SemanticScholarPaper):
   const score = calculateTitleSimilarity(query, paper);
   return `${Math.round(score * 100)}%`;
 }
+
+/**
+ * Find the citation keys closest to a key that is not in the library, e.g. a typo
+ * @param key - Key as cited in the document
+ * @param candidates - Keys of the library
+ * @param limit - Maximum number of suggestions
+ * @param threshold - Minimum similarity between 0 and 1
+ * @returns Most similar keys first
+ */
+export function suggestSimilarKeys(
+  key: string,
+  candidates: string[],
+  limit: number = 3,
+  threshold: number = 0.85
+): string[] {
+  const normalizedKey = key.toLowerCase();
+
+  return candidates
+    .map(candidate => ({
+      candidate,
+      similarity: jaroWinkler.similarity(normalizedKey, candidate.toLowerCase())
+    }))
+    .filter(item => item.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(item => item.candidate);
+}
+
+/**
+ * Similarity of two strings after normalizing case, punctuation and whitespace
+ * @param a - First string
+ * @param b - Second string
+ * @returns Similarity score between 0 and 1 (1 = same text)
+ */
+export function calculateTextSimilarity(a: string, b: string): number {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const normalizedA = normalize(a);
+  const normalizedB = normalize(b);
+
+  if (!normalizedA || !normalizedB) {
+    return 0;
+  }
+  return jaroWinkler.similarity(normalizedA, normalizedB);
+}
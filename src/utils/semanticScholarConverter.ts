@@ -1,22 +1,15 @@
 import { SemanticScholarPaper } from '../types/semanticScholar';
 import { CSLEntry, CSLEntryType } from '../types/cslFieldMetadata';
+import { DEFAULT_KEY_PATTERN, formatCitationKey, generateCitationKey } from './citationKeyPattern';
+import { parseBibTeXName } from './bibtexNames';
+import { getAuthorKey } from './authorIdentity';
 
 /**
  * Converts a Semantic Scholar paper to CSL-JSON format
+ * @param paper Semantic Scholar paper
+ * @param keyPattern Citation key pattern for the entry ID
  */
-export function convertSemanticScholarToCSL(paper: SemanticScholarPaper): CSLEntry {
-  // Generate a safe citation key from title and first author
-  const firstAuthor = paper.authors?.[0]?.name || 'Unknown';
-  const safeFirstAuthor = firstAuthor.split(' ').pop() || 'Unknown'; // Get last name
-  const safeTitle = paper.title
-    ?.replace(/[^a-zA-Z0-9\s]/g, '') // Remove special characters
-    ?.split(' ')
-    .slice(0, 3) // Take first 3 words
-    .join('')
-    || 'Paper';
-  
-  const citationKey = `${safeFirstAuthor}${paper.year || ''}${safeTitle}`.replace(/\s+/g, '');
-
+export function convertSemanticScholarToCSL(paper: SemanticScholarPaper, keyPattern: string = DEFAULT_KEY_PATTERN): CSLEntry {
   // Determine the CSL type based on venue and publication types
   let type: CSLEntryType = 'article-journal'; // Default to journal article
   
@@ -44,15 +37,12 @@ export function convertSemanticScholarToCSL(paper: SemanticScholarPaper): CSLEnt
     type = 'paper-conference';
   }
 
-  // Convert authors to CSL format
-  const authors = paper.authors?.map(author => ({
-    family: author.name.split(' ').pop() || author.name, // Last name
-    given: author.name.split(' ').slice(0, -1).join(' ') || '', // First/middle names
-  })) || [];
+  // Convert authors to CSL format ("Ludwig van Beethoven", "Martin Luther King Jr.")
+  const authors = paper.authors?.map(author => parseBibTeXName(author.name)) || [];
 
   // Build the CSL entry
   const cslEntry: CSLEntry = {
-    id: citationKey,
+    id: '',
     type: type,
     title: paper.title,
     author: authors.length > 0 ? authors : undefined,
@@ -157,32 +147,32 @@ export function convertSemanticScholarToCSL(paper: SemanticScholarPaper): CSLEnt
     setSemanticScholarIdInCustom(cslEntry, paper.paperId);
   }
 
+  // Author IDs by name, used to recognise name variants of the same person
+  const authorIds: Record<string, string> = {};
+  paper.authors?.forEach((author, index) => {
+    if (author.authorId) authorIds[getAuthorKey(authors[index])] = author.authorId;
+  });
+  if (Object.keys(authorIds).length > 0) {
+    cslEntry.custom = { ...(cslEntry.custom as Record<string, unknown>), S2AuthorIDs: authorIds };
+  }
+
+  cslEntry.id = formatCitationKey(cslEntry, keyPattern);
+
   return cslEntry;
 }
 
 /**
  * Generates a unique citation key for a paper, ensuring no conflicts with existing entries
+ * @param paper Semantic Scholar paper
+ * @param existingKeys Keys already in the library
+ * @param keyPattern Citation key pattern
  */
 export function generateUniqueCitationKey(
-  paper: SemanticScholarPaper, 
-  existingKeys: Set<string>
+  paper: SemanticScholarPaper,
+  existingKeys: Set<string>,
+  keyPattern: string = DEFAULT_KEY_PATTERN
 ): string {
-  const baseKey = convertSemanticScholarToCSL(paper).id;
-  
-  if (!existingKeys.has(baseKey)) {
-    return baseKey;
-  }
-
-  // If key exists, append a number
-  let counter = 1;
-  let uniqueKey = `${baseKey}_${counter}`;
-  
-  while (existingKeys.has(uniqueKey)) {
-    counter++;
-    uniqueKey = `${baseKey}_${counter}`;
-  }
-  
-  return uniqueKey;
+  return generateCitationKey(convertSemanticScholarToCSL(paper, keyPattern), existingKeys, keyPattern);
 }
 
 /**
@@ -266,8 +256,8 @@ export function enhanceBibTeXWithCustomFields(bibtex: string, entry: any): strin
   
   let enhanced = bibtex;
   
-  // Inject s2id field if present
-  if (entry.custom.S2ID) {
+  // Inject s2id field if present (the BibLaTeX output of Citation.js already has it)
+  if (entry.custom.S2ID && !/^\s*s2id = /m.test(enhanced)) {
     enhanced = injectBibTeXField(enhanced, 's2id', entry.custom.S2ID);
   }
   
@@ -281,7 +271,7 @@ export function enhanceBibTeXWithCustomFields(bibtex: string, entry: any): strin
  * @param fieldValue Field value to inject
  * @returns BibTeX with injected field
  */
-function injectBibTeXField(bibtex: string, fieldName: string, fieldValue: string): string {
+export function injectBibTeXField(bibtex: string, fieldName: string, fieldValue: string): string {
   const lines = bibtex.split('\n');
   const result = [];
   
@@ -0,0 +1,60 @@
+import { parseBibTeX } from './bibtexParser';
+import {
+  bracesToNocase,
+  createTitleProtectionContext,
+  flattenProtectedBraces,
+  nocaseToBraces,
+  protectWords,
+  recoverTitleProtection,
+  suggestTitleProtection
+} from './titleProtection';
+
+const span = (text: string) => `<span class="nocase">${text}</span>`;
+
+describe('braces and nocase spans', () => {
+  it('converts in both directions, leaving accent groups alone', () => {
+    const title = `${span('BERT')} for {\\"U}bersetzung`;
+    expect(nocaseToBraces(title)).toBe('{BERT} for {\\"U}bersetzung');
+    expect(bracesToNocase('{BERT} for {\\"U}bersetzung')).toBe(title);
+  });
+
+  it('protects whole words outside existing spans', () => {
+    expect(protectWords(`Using BERT and ${span('BERT')}: BERTology`, ['BERT'])).toBe(
+      `Using ${span('BERT')} and ${span('BERT')}: BERTology`
+    );
+  });
+
+  it('removes braces nested in a protected group', () => {
+    expect(flattenProtectedBraces('{{BERT}} and {{Large {Language} Models}}')).toBe('{BERT} and {Large Language Models}');
+    expect(flattenProtectedBraces('{\\"{U}}ber {\\emph{Graphen}}')).toBe('{\\"{U}}ber {\\emph{Graphen}}');
+  });
+});
+
+describe('suggestTitleProtection', () => {
+  const context = createTitleProtectionContext([
+    { title: `Pretraining with ${span('Transformers')}` },
+    { title: 'A study of models trained in Germany' }
+  ]);
+
+  it('suggests acronyms, proper nouns and words protected elsewhere', () => {
+    expect(suggestTitleProtection('Transformers for NLP in Germany', context)).toEqual([
+      { word: 'Transformers', reason: 'library' },
+      { word: 'NLP', reason: 'acronym' },
+      { word: 'Germany', reason: 'proper-noun' }
+    ]);
+  });
+
+  it('skips protected words and all-caps titles', () => {
+    expect(suggestTitleProtection(`${span('NLP')} in practice`, context)).toEqual([]);
+    expect(suggestTitleProtection('NLP IN GERMANY', context)).toEqual([]);
+  });
+});
+
+describe('recoverTitleProtection', () => {
+  it('restores the braces of the BibTeX source', () => {
+    const source = '@article{a, title = {{BERT} for {\\"U}bersetzung in {Germany}}}';
+    const entries = [{ id: 'a', title: 'BERT for Übersetzung in Germany' }];
+    recoverTitleProtection(entries, parseBibTeX(source), {});
+    expect(entries[0].title).toBe(`${span('BERT')} for Übersetzung in ${span('Germany')}`);
+  });
+});
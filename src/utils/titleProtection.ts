@@ -0,0 +1,231 @@
+// Case protection in titles.
+// BibTeX styles lowercase titles except for text in braces. In CSL data the
+// braces are <span class="nocase"> elements, which Citation.js writes back as
+// braces. Citation.js drops the braces when reading BibTeX, so they are
+// recovered from the source on import.
+import { BibTeXBlock, evaluateBibTeXValue } from './bibtexParser';
+import { latexToUnicode } from './latexUnicode';
+
+export type ProtectionReason = 'acronym' | 'proper-noun' | 'library';
+
+export interface ProtectionSuggestion {
+  word: string;
+  reason: ProtectionReason;
+}
+
+export interface TitleProtectionContext {
+  libraryWords: Set<string>; // words protected in any title of the library
+  properNouns: Set<string>; // capitalized words inside sentence-case titles
+}
+
+export const PROTECTION_REASON_LABELS: Record<ProtectionReason, string> = {
+  acronym: 'acronym',
+  'proper-noun': 'proper noun',
+  library: 'protected elsewhere'
+};
+
+const NOCASE_OPEN = '<span class="nocase">';
+const NOCASE_CLOSE = '</span>';
+const NOCASE_SPAN_PATTERN = /<span class="nocase">([\s\S]*?)<\/span>/g;
+
+function splitWords(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(word => word);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Top-level {...} groups; groups starting with a command are accents, not protection
+function findBraceGroups(text: string): Array<{ start: number; end: number }> {
+  const groups: Array<{ start: number; end: number }> = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      if (depth === 0) start = index;
+      depth++;
+    } else if (char === '}' && depth > 0 && --depth === 0 && text[start + 1] !== '\\') {
+      groups.push({ start, end: index + 1 });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Returns the words of a title that are inside nocase spans
+ * @param title CSL title
+ */
+export function getProtectedWords(title: string): string[] {
+  return [...title.matchAll(NOCASE_SPAN_PATTERN)].flatMap(match => splitWords(match[1]));
+}
+
+/**
+ * Removes nocase spans, keeping their text
+ * @param title CSL title
+ */
+export function stripNocaseSpans(title: string): string {
+  return title.replace(NOCASE_SPAN_PATTERN, '$1');
+}
+
+/**
+ * Writes nocase spans as braces, for editing titles in BibTeX notation
+ * @param title CSL title
+ */
+export function nocaseToBraces(title: string): string {
+  return title.replace(NOCASE_SPAN_PATTERN, '{$1}');
+}
+
+/**
+ * Turns balanced {...} groups into nocase spans; the inverse of nocaseToBraces
+ * @param text Title in BibTeX notation
+ */
+export function bracesToNocase(text: string): string {
+  let result = '';
+  let last = 0;
+  findBraceGroups(text).forEach(({ start, end }) => {
+    result += `${text.slice(last, start)}${NOCASE_OPEN}${text.slice(start + 1, end - 1)}${NOCASE_CLOSE}`;
+    last = end;
+  });
+  return result + text.slice(last);
+}
+
+/**
+ * Wraps words or phrases in nocase spans wherever they occur unprotected
+ * @param title CSL title
+ * @param words Words or phrases to protect
+ * @returns Title with the words protected
+ */
+export function protectWords(title: string, words: string[]): string {
+  return title.split(/(<span class="nocase">[\s\S]*?<\/span>)/).map(segment => {
+    if (segment.startsWith(NOCASE_OPEN)) return segment;
+    return words.reduce(
+      (text, word) => text.replace(
+        new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, 'gu'),
+        `${NOCASE_OPEN}${word}${NOCASE_CLOSE}`
+      ),
+      segment
+    );
+  }).join('');
+}
+
+// Titles where most words after the first start in lowercase
+function isSentenceCase(words: string[]): boolean {
+  const rest = words.slice(1).filter(word => /^\p{L}/u.test(word));
+  const lowercase = rest.filter(word => /^\p{Ll}/u.test(word)).length;
+  return rest.length >= 3 && lowercase > rest.length / 2;
+}
+
+/**
+ * Collects the words the library already treats as case-sensitive
+ * @param entries Library entries
+ * @returns Words protected in some title and capitalized words found in
+ * the middle of sentence-case titles
+ */
+export function createTitleProtectionContext(entries: any[]): TitleProtectionContext {
+  const libraryWords = new Set<string>();
+  const properNouns = new Set<string>();
+
+  entries.forEach(entry => {
+    if (typeof entry.title !== 'string') return;
+    getProtectedWords(entry.title).filter(word => /\p{Lu}/u.test(word)).forEach(word => libraryWords.add(word));
+
+    // Words after the start of a sentence or subtitle are not evidence
+    stripNocaseSpans(entry.title).replace(/<[^>]+>/g, '').split(/[:.?!]\s+/).forEach(sentence => {
+      const words = splitWords(sentence);
+      if (!isSentenceCase(words)) return;
+      words.slice(1).filter(word => /^\p{Lu}\p{Ll}+$/u.test(word)).forEach(word => properNouns.add(word));
+    });
+  });
+
+  return { libraryWords, properNouns };
+}
+
+/**
+ * Suggests words of a title that should be protected from lowercasing
+ * @param title CSL title
+ * @param context Words known from the rest of the library
+ * @returns Unprotected acronyms, proper nouns and words protected elsewhere,
+ * in title order
+ */
+export function suggestTitleProtection(title: string, context: TitleProtectionContext): ProtectionSuggestion[] {
+  const text = title.replace(NOCASE_SPAN_PATTERN, ' ').replace(/<[^>]+>/g, ' ');
+  // An all-caps title is a problem of its own, not a list of acronyms
+  if (!/\p{Ll}/u.test(text)) return [];
+
+  const suggestions: ProtectionSuggestion[] = [];
+  const seen = new Set<string>();
+  splitWords(text).forEach(word => {
+    if (seen.has(word) || !/\p{L}/u.test(word)) return;
+    seen.add(word);
+    if (/^.+\p{Lu}/u.test(word)) {
+      suggestions.push({ word, reason: 'acronym' });
+    } else if (context.libraryWords.has(word)) {
+      suggestions.push({ word, reason: 'library' });
+    } else if (context.properNouns.has(word)) {
+      suggestions.push({ word, reason: 'proper-noun' });
+    }
+  });
+  return suggestions;
+}
+
+/**
+ * Removes braces nested inside a protected group, where they change nothing.
+ * Citation.js writes nocase spans as `{{BERT}}` and braces every capitalized
+ * word inside them.
+ * @param value BibTeX field value without its delimiters
+ * @returns Value with redundant braces removed, e.g. `{BERT}`
+ */
+export function flattenProtectedBraces(value: string): string {
+  // Per open group: whether its braces are dropped, and whether it protects its content
+  const stack: Array<{ dropped: boolean; protects: boolean }> = [];
+  let result = '';
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '\\') {
+      result += char + (value[index + 1] ?? '');
+      index++;
+    } else if (char === '{') {
+      const isPlain = value[index + 1] !== '\\' && !/\\(?:[a-zA-Z]+\s*|[^a-zA-Z])$/.test(value.slice(0, index));
+      const parent = stack[stack.length - 1];
+      const dropped = isPlain && !!parent?.protects;
+      stack.push({ dropped, protects: isPlain });
+      if (!dropped) result += char;
+    } else if (char === '}') {
+      const group = stack.pop();
+      if (!group?.dropped) result += char;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Restores the braces of imported BibTeX titles as nocase spans
+ * @param entries CSL entries Citation.js produced (modified in place)
+ * @param blocks Parsed BibTeX blocks of the same source
+ * @param variables @STRING variables of the source
+ */
+export function recoverTitleProtection(entries: any[], blocks: BibTeXBlock[], variables: Record<string, string>): void {
+  const entriesByKey = new Map<string, any>();
+  entries.forEach(entry => entriesByKey.set(entry['citation-key'] || entry.id, entry));
+
+  blocks.forEach(block => {
+    if (block.kind !== 'entry') return;
+    const entry = entriesByKey.get(block.key);
+    const field = block.fields.find(item => item.name === 'title');
+    if (!entry || !field || typeof entry.title !== 'string') return;
+
+    const source = evaluateBibTeXValue(field.parts, variables);
+    const phrases = findBraceGroups(source)
+      .map(({ start, end }) => latexToUnicode(source.slice(start + 1, end - 1)).trim())
+      .filter(phrase => phrase && !/[<>]/.test(phrase));
+    if (phrases.length > 0) {
+      entry.title = protectWords(entry.title, [...new Set(phrases)]);
+    }
+  });
+}
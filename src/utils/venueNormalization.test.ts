@@ -0,0 +1,75 @@
+import {
+  buildVenueRenameUpdates,
+  collectVenues,
+  groupSimilarVenues,
+  matchVenueNames,
+  suggestVenueVariableKey
+} from './venueNormalization';
+
+const JMLR = 'Journal of Machine Learning Research';
+
+describe('matchVenueNames', () => {
+  it('recognises abbreviations, acronyms and spellings', () => {
+    expect(matchVenueNames('J. Mach. Learn. Res.', JMLR)).toBe('abbreviation');
+    expect(matchVenueNames(JMLR, 'JMLR')).toBe('acronym');
+    expect(matchVenueNames('Journal of Machine Lerning Research', JMLR)).toBe('spelling');
+    expect(matchVenueNames('journal of machine learning research', JMLR)).toBe('spelling');
+  });
+
+  it('keeps different venues apart', () => {
+    expect(matchVenueNames('Physical Review A', 'Physical Review B')).toBeNull();
+    expect(matchVenueNames('Nature', 'Science')).toBeNull();
+    expect(matchVenueNames(JMLR, JMLR.replace('Research', 'Reviews'))).toBeNull();
+  });
+});
+
+describe('collectVenues', () => {
+  it('counts entries per venue and shows @STRING values', () => {
+    const venues = collectVenues([
+      { id: 'a', 'container-title': 'jmlr' },
+      { id: 'b', 'container-title': 'jmlr' },
+      { id: 'c', 'container-title': 'JMLR' },
+      { id: 'd', title: 'No venue' }
+    ], { jmlr: JMLR });
+
+    expect(venues).toEqual([
+      { value: 'jmlr', name: JMLR, variable: 'jmlr', entryIds: ['a', 'b'] },
+      { value: 'JMLR', name: 'JMLR', variable: undefined, entryIds: ['c'] }
+    ]);
+  });
+});
+
+describe('groupSimilarVenues', () => {
+  it('groups related spellings, largest first', () => {
+    const venues = collectVenues([
+      { id: 'a', 'container-title': JMLR },
+      { id: 'b', 'container-title': JMLR },
+      { id: 'c', 'container-title': 'JMLR' },
+      { id: 'd', 'container-title': 'J. Mach. Learn. Res.' },
+      { id: 'e', 'container-title': 'Nature' }
+    ], {});
+
+    const groups = groupSimilarVenues(venues);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].venues.map(venue => venue.value)).toEqual([JMLR, 'J. Mach. Learn. Res.', 'JMLR']);
+    expect(groups[0].matches.sort()).toEqual(['abbreviation', 'acronym']);
+  });
+});
+
+describe('buildVenueRenameUpdates', () => {
+  it('renames only entries of the given venues', () => {
+    expect(buildVenueRenameUpdates([
+      { id: 'a', 'container-title': 'JMLR' },
+      { id: 'b', 'container-title': 'jmlr' },
+      { id: 'c', 'container-title': 'Nature' }
+    ], ['JMLR', 'jmlr'], 'jmlr')).toEqual({ a: { 'container-title': 'jmlr' } });
+  });
+});
+
+describe('suggestVenueVariableKey', () => {
+  it('uses the initials and avoids taken keys', () => {
+    expect(suggestVenueVariableKey(JMLR, {})).toBe('jmlr');
+    expect(suggestVenueVariableKey(JMLR, { jmlr: 'x', jmlr2: 'y' })).toBe('jmlr3');
+    expect(suggestVenueVariableKey('Nature', {})).toBe('nature');
+  });
+});
@@ -0,0 +1,197 @@
+// Venues (container titles) across the library.
+// The same journal often appears in several spellings: "Journal of Machine
+// Learning Research", "J. Mach. Learn. Res." and "JMLR". Such spellings are
+// grouped so they can be renamed to one form or replaced by an @STRING variable.
+import { calculateTextSimilarity } from './searchSimilarity';
+import { resolveVariable } from './cslUtils';
+
+export interface VenueUsage {
+  value: string; // container-title as stored, the macro key for @STRING references
+  name: string; // displayed name, the variable value for references
+  variable?: string; // key of the @STRING variable the entries refer to
+  entryIds: string[];
+}
+
+export type VenueMatch = 'abbreviation' | 'acronym' | 'spelling';
+
+export interface VenueGroup {
+  id: string; // values of the venues in order
+  venues: VenueUsage[]; // most used first
+  matches: VenueMatch[];
+}
+
+export const VENUE_MATCH_LABELS: Record<VenueMatch, string> = {
+  abbreviation: 'abbreviation',
+  acronym: 'acronym',
+  spelling: 'similar spelling'
+};
+
+// Words left out of abbreviations and acronyms
+const STOPWORDS = new Set(['a', 'an', 'and', 'the', 'of', 'on', 'in', 'for', 'to', 'at', 'de', 'der', 'und', 'fur']);
+
+const SPELLING_THRESHOLD = 0.9;
+
+function getWords(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word);
+}
+
+function getContentWords(name: string): string[] {
+  return getWords(name).filter(word => !STOPWORDS.has(word));
+}
+
+// "J. Mach. Learn. Res." abbreviates "Journal of Machine Learning Research":
+// every word is a prefix of the corresponding full word
+function isAbbreviationOf(short: string, full: string): boolean {
+  const shortWords = getContentWords(short);
+  const fullWords = getContentWords(full);
+  return shortWords.length === fullWords.length &&
+    shortWords.length > 1 &&
+    shortWords.some((word, index) => word !== fullWords[index]) &&
+    shortWords.every((word, index) => fullWords[index].startsWith(word));
+}
+
+// "JMLR" is made of the initials of "Journal of Machine Learning Research"
+function isAcronymOf(short: string, full: string): boolean {
+  const words = getWords(short);
+  const initials = getContentWords(full).map(word => word[0]).join('');
+  return words.length === 1 && initials.length > 1 && words[0] === initials;
+}
+
+// Same words up to case, punctuation and typos; short words and numbers
+// must match exactly, so "Physical Review A" and "B" stay apart
+function isSpellingVariant(a: string, b: string): boolean {
+  const wordsA = getContentWords(a);
+  const wordsB = getContentWords(b);
+  return wordsA.length > 0 && wordsA.length === wordsB.length && wordsA.every((word, index) => {
+    const other = wordsB[index];
+    return word === other || (
+      word.length >= 4 && other.length >= 4 && !/\d/.test(word + other) &&
+      calculateTextSimilarity(word, other) >= SPELLING_THRESHOLD
+    );
+  });
+}
+
+/**
+ * Tells how two venue names are related
+ * @param a First venue name
+ * @param b Second venue name
+ * @returns How one name derives from the other, or null for different venues
+ */
+export function matchVenueNames(a: string, b: string): VenueMatch | null {
+  if (isAbbreviationOf(a, b) || isAbbreviationOf(b, a)) return 'abbreviation';
+  if (isAcronymOf(a, b) || isAcronymOf(b, a)) return 'acronym';
+  if (isSpellingVariant(a, b)) return 'spelling';
+  return null;
+}
+
+/**
+ * Lists the venues of the library
+ * @param entries Library entries
+ * @param variables @STRING variables, to show the names of references
+ * @returns One venue per distinct container-title, most used first
+ */
+export function collectVenues(entries: any[], variables: Record<string, string>): VenueUsage[] {
+  const venues = new Map<string, VenueUsage>();
+  entries.forEach(entry => {
+    const value = entry['container-title'];
+    if (typeof value !== 'string' || !value.trim()) return;
+
+    let venue = venues.get(value);
+    if (!venue) {
+      venue = {
+        value,
+        name: resolveVariable(value, variables),
+        variable: variables[value] !== undefined ? value : undefined,
+        entryIds: []
+      };
+      venues.set(value, venue);
+    }
+    venue.entryIds.push(entry.id);
+  });
+
+  return [...venues.values()].sort((a, b) => b.entryIds.length - a.entryIds.length || a.name.localeCompare(b.name));
+}
+
+/**
+ * Groups venues whose names are abbreviations, acronyms or near spellings of
+ * each other
+ * @param venues Venues from collectVenues
+ * @returns Groups of at least two venues, largest first
+ */
+export function groupSimilarVenues(venues: VenueUsage[]): VenueGroup[] {
+  // Union-find over venue indices
+  const parent = venues.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const matches = new Map<number, Set<VenueMatch>>();
+  // Related names start with the same letter, which keeps the pairs to compare few
+  const initials = venues.map(venue => getContentWords(venue.name)[0]?.[0]);
+
+  venues.forEach((a, i) => {
+    venues.slice(i + 1).forEach((b, offset) => {
+      if (!initials[i] || initials[i] !== initials[i + 1 + offset]) return;
+      const match = matchVenueNames(a.name, b.name);
+      if (!match) return;
+      const rootA = find(i);
+      const rootB = find(i + 1 + offset);
+      const merged = new Set([...(matches.get(rootA) || []), ...(matches.get(rootB) || []), match]);
+      parent[rootB] = rootA;
+      matches.set(rootA, merged);
+    });
+  });
+
+  const groups = new Map<number, VenueUsage[]>();
+  venues.forEach((venue, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), venue]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      id: members.map(venue => venue.value).join('\n'),
+      venues: members,
+      matches: [...(matches.get(root) || [])]
+    }))
+    .sort((a, b) => (
+      b.venues.reduce((sum, venue) => sum + venue.entryIds.length, 0) -
+      a.venues.reduce((sum, venue) => sum + venue.entryIds.length, 0)
+    ));
+}
+
+/**
+ * Builds the updates that give entries of some venues a new container-title
+ * @param entries Library entries
+ * @param values Stored container-title values to replace
+ * @param newValue New container-title, a name or a variable key
+ * @returns container-title updates keyed by entry ID
+ */
+export function buildVenueRenameUpdates(entries: any[], values: string[], newValue: string): Record<string, Record<string, string>> {
+  const updates: Record<string, Record<string, string>> = {};
+  entries.forEach(entry => {
+    const value = entry['container-title'];
+    if (typeof value === 'string' && values.includes(value) && value !== newValue) {
+      updates[entry.id] = { 'container-title': newValue };
+    }
+  });
+  return updates;
+}
+
+/**
+ * Suggests an @STRING key for a venue, e.g. "jmlr"
+ * @param name Venue name
+ * @param variables Existing variables, whose keys are avoided
+ */
+export function suggestVenueVariableKey(name: string, variables: Record<string, string>): string {
+  const words = getContentWords(name);
+  const base = (words.length > 1 ? words.map(word => word[0]).join('') : words[0] || 'venue').replace(/^(\d)/, 'v$1');
+  let key = base;
+  for (let suffix = 2; variables[key] !== undefined; suffix++) {
+    key = `${base}${suffix}`;
+  }
+  return key;
+}
@@ -0,0 +1,26 @@
+// Helpers for reading XML exports with DOMParser
+
+// Element children only, skipping text and comment nodes
+export function childElements(element: Element): Element[] {
+  return Array.from(element.childNodes).filter((node): node is Element => node.nodeType === 1);
+}
+
+// Text content with whitespace collapsed
+export function elementText(element: Element): string {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+// Text of the first descendant with the given tag, or '' when there is none
+export function descendantText(element: Element, tagName: string): string {
+  const descendant = element.getElementsByTagName(tagName)[0];
+  return descendant ? elementText(descendant) : '';
+}
+
+// Parses XML content, throwing when it is not well-formed
+export function parseXML(content: string, description: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid ${description} file`);
+  }
+  return doc;
+}
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment jsdom
+ */
+import { isZoteroJSON, parseZoteroJSON, parseZoteroRDF } from './zoteroConverter';
+
+const NATIVE_ITEMS = [
+  {
+    itemType: 'journalArticle',
+    citationKey: 'doe2020',
+    title: 'Learning to cite',
+    creators: [
+      { creatorType: 'author', lastName: 'Doe', firstName: 'Jane' },
+      { creatorType: 'author', name: 'World Health Organization' }
+    ],
+    publicationTitle: 'Nature Communications',
+    date: '2020-03-05',
+    DOI: '10.1000/xyz',
+    tags: [{ tag: 'citations' }, { tag: 'tooling' }],
+    extra: 'Original Date: 2019\ntex.howpublished: online\nFree text'
+  },
+  { itemType: 'attachment', title: 'Full Text PDF' },
+  {
+    itemType: 'book',
+    title: 'The TeXbook',
+    creators: [{ creatorType: 'author', lastName: 'Knuth', firstName: 'Donald' }],
+    date: '1984',
+    publisher: 'Addison-Wesley'
+  }
+];
+
+describe('isZoteroJSON', () => {
+  it('tells Zotero exports from plain CSL-JSON', () => {
+    expect(isZoteroJSON(NATIVE_ITEMS)).toBe(true);
+    expect(isZoteroJSON([{ id: 'http://zotero.org/users/1/items/ABCD1234', type: 'book' }])).toBe(true);
+    expect(isZoteroJSON([{ id: 'doe2020', type: 'book' }])).toBe(false);
+    expect(isZoteroJSON({ items: [] })).toBe(false);
+  });
+});
+
+describe('parseZoteroJSON', () => {
+  it('converts native items and skips attachments', () => {
+    const { entries, report } = parseZoteroJSON(JSON.stringify(NATIVE_ITEMS));
+    expect(entries).toHaveLength(2);
+    expect(report).toMatchObject({ format: 'Zotero JSON', entryCount: 2 });
+
+    expect(entries[0]).toMatchObject({
+      id: 'doe2020',
+      'citation-key': 'doe2020',
+      type: 'article-journal',
+      author: [{ family: 'Doe', given: 'Jane' }, { literal: 'World Health Organization' }],
+      'container-title': 'Nature Communications',
+      issued: { 'date-parts': [[2020, 3, 5]] },
+      DOI: '10.1000/xyz',
+      keyword: 'citations, tooling',
+      'original-date': { 'date-parts': [[2019]] }
+    });
+    expect(entries[1]).toMatchObject({ id: 'knuth1984', type: 'book', publisher: 'Addison-Wesley' });
+  });
+
+  it('reports Better BibTeX fields it cannot map', () => {
+    const { report } = parseZoteroJSON(JSON.stringify(NATIVE_ITEMS));
+    expect(report.unmappedFields).toEqual({ 'extra: tex.howpublished': 1 });
+  });
+
+  it('applies the note conventions of Zotero CSL-JSON', () => {
+    const { entries, report } = parseZoteroJSON(JSON.stringify([{
+      id: 'http://zotero.org/users/1/items/ABCD1234',
+      type: 'article-journal',
+      title: 'A Title',
+      author: [{ family: 'Roe', given: 'Richard' }],
+      issued: { 'date-parts': [[2021]] },
+      note: 'Citation Key: roe2021'
+    }]));
+
+    expect(report.format).toBe('Zotero CSL-JSON');
+    expect(entries[0].id).toBe('roe2021');
+    expect(entries[0].note).toBeUndefined();
+  });
+});
+
+const RDF = `<rdf:RDF
+ xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+ xmlns:z="http://www.zotero.org/namespaces/export#"
+ xmlns:dc="http://purl.org/dc/elements/1.1/"
+ xmlns:dcterms="http://purl.org/dc/terms/"
+ xmlns:bib="http://purl.org/net/biblio#"
+ xmlns:foaf="http://xmlns.com/foaf/0.1/"
+ xmlns:prism="http://prismstandard.org/namespaces/1.2/basic/"
+ xmlns:link="http://purl.org/rss/1.0/modules/link/">
+  <bib:Article rdf:about="http://example.org/doe2020">
+    <z:itemType>journalArticle</z:itemType>
+    <dcterms:isPartOf rdf:resource="urn:issn:2041-1723"/>
+    <bib:authors>
+      <rdf:Seq>
+        <rdf:li><foaf:Person><foaf:surname>Doe</foaf:surname><foaf:givenName>Jane</foaf:givenName></foaf:Person></rdf:li>
+        <rdf:li><foaf:Person><foaf:surname>World Health Organization</foaf:surname></foaf:Person></rdf:li>
+      </rdf:Seq>
+    </bib:authors>
+    <link:link rdf:resource="#item_1"/>
+    <dc:subject>citations</dc:subject>
+    <dc:title>Learning to cite</dc:title>
+    <dc:date>2020-03-05</dc:date>
+    <bib:pages>100-110</bib:pages>
+    <dc:identifier>DOI 10.1000/xyz</dc:identifier>
+    <z:rights>CC-BY</z:rights>
+  </bib:Article>
+  <bib:Journal rdf:about="urn:issn:2041-1723">
+    <prism:volume>11</prism:volume>
+    <dc:title>Nature Communications</dc:title>
+    <dc:identifier>ISSN 2041-1723</dc:identifier>
+  </bib:Journal>
+  <z:Attachment rdf:about="#item_1">
+    <z:itemType>attachment</z:itemType>
+    <dc:title>Full Text PDF</dc:title>
+  </z:Attachment>
+</rdf:RDF>`;
+
+describe('parseZoteroRDF', () => {
+  it('converts items and follows container references', () => {
+    const { entries, report } = parseZoteroRDF(RDF);
+    expect(entries).toEqual([{
+      id: 'doe2020',
+      'citation-key': 'doe2020',
+      type: 'article-journal',
+      author: [{ family: 'Doe', given: 'Jane' }, { literal: 'World Health Organization' }],
+      keyword: 'citations',
+      title: 'Learning to cite',
+      issued: { 'date-parts': [[2020, 3, 5]] },
+      page: '100-110',
+      DOI: '10.1000/xyz',
+      'container-title': 'Nature Communications',
+      volume: '11',
+      ISSN: '2041-1723'
+    }]);
+    expect(report).toEqual({ format: 'Zotero RDF', entryCount: 1, unmappedFields: { 'z:rights': 1 } });
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseZoteroRDF('<rdf:RDF')).toThrow('Invalid Zotero RDF file');
+  });
+});
@@ -0,0 +1,434 @@
+// Zotero import.
+// Supports Zotero RDF, Zotero's native JSON (API / Better BibTeX JSON) and the
+// CSL-JSON Zotero exports, including the conventions Zotero stores in the
+// "extra" field ("Citation Key: smith2020", "original-date: 1950", ...).
+import { CSLEntry } from '../types/cslFieldMetadata';
+import { ImportReport } from '../types/citationTypes';
+import { parseDateString } from './cslUtils';
+import { generateCitationKey } from './citationKeyPattern';
+import { childElements, elementText, parseXML } from './xmlUtils';
+
+// Zotero item types to CSL-JSON types
+export const ZOTERO_TO_CSL_TYPE: Record<string, string> = {
+  journalArticle: 'article-journal',
+  magazineArticle: 'article-magazine',
+  newspaperArticle: 'article-newspaper',
+  book: 'book',
+  bookSection: 'chapter',
+  conferencePaper: 'paper-conference',
+  thesis: 'thesis',
+  report: 'report',
+  webpage: 'webpage',
+  blogPost: 'webpage',
+  forumPost: 'webpage',
+  manuscript: 'manuscript',
+  preprint: 'manuscript',
+  dictionaryEntry: 'entry-dictionary',
+  encyclopediaArticle: 'entry-encyclopedia'
+};
+
+// Zotero fields holding a single text value, mapped to CSL fields
+const ZOTERO_TEXT_FIELDS: Record<string, string> = {
+  title: 'title',
+  abstractNote: 'abstract',
+  publicationTitle: 'container-title',
+  bookTitle: 'container-title',
+  proceedingsTitle: 'container-title',
+  websiteTitle: 'container-title',
+  blogTitle: 'container-title',
+  forumTitle: 'container-title',
+  dictionaryTitle: 'container-title',
+  encyclopediaTitle: 'container-title',
+  journalAbbreviation: 'container-title-short',
+  shortTitle: 'title-short',
+  series: 'collection-title',
+  seriesNumber: 'collection-number',
+  volume: 'volume',
+  issue: 'issue',
+  pages: 'page',
+  edition: 'edition',
+  section: 'section',
+  publisher: 'publisher',
+  university: 'publisher',
+  institution: 'publisher',
+  place: 'publisher-place',
+  DOI: 'DOI',
+  ISBN: 'ISBN',
+  ISSN: 'ISSN',
+  url: 'URL',
+  language: 'language',
+  numPages: 'number-of-pages',
+  numberOfVolumes: 'number-of-volumes',
+  reportNumber: 'number',
+  thesisType: 'genre',
+  reportType: 'genre',
+  websiteType: 'genre',
+  conferenceName: 'event-title',
+  archive: 'archive',
+  archiveLocation: 'archive_location',
+  callNumber: 'call-number',
+  libraryCatalog: 'source'
+};
+
+// Zotero creator types to CSL name fields
+const ZOTERO_CREATOR_FIELDS: Record<string, string> = {
+  author: 'author',
+  editor: 'editor',
+  seriesEditor: 'collection-editor',
+  bookAuthor: 'container-author',
+  translator: 'translator',
+  contributor: 'contributor'
+};
+
+// Zotero bookkeeping fields that carry no bibliographic data
+const ZOTERO_IGNORED_FIELDS = new Set([
+  'key', 'version', 'itemType', 'itemID', 'uri', 'dateAdded', 'dateModified',
+  'collections', 'relations', 'attachments', 'select', 'itemKey', 'libraryID'
+]);
+
+// CSL variables Zotero accepts as "name: value" lines in extra, by lower-case name
+const EXTRA_CSL_FIELDS = [
+  'DOI', 'PMID', 'PMCID', 'ISBN', 'ISSN', 'URL', 'genre', 'medium', 'status', 'version',
+  'number', 'authority', 'archive', 'archive_location', 'call-number', 'collection-number',
+  'container-title', 'container-title-short', 'event-place', 'event-title', 'original-title',
+  'original-publisher', 'original-publisher-place', 'publisher-place', 'title-short', 'references'
+];
+const EXTRA_CSL_DATE_FIELDS = ['original-date', 'event-date', 'available-date', 'submitted', 'issued', 'accessed'];
+
+// Zotero RDF namespaces
+const NS = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  z: 'http://www.zotero.org/namespaces/export#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  dcterms: 'http://purl.org/dc/terms/',
+  bib: 'http://purl.org/net/biblio#',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  prism: 'http://prismstandard.org/namespaces/1.2/basic/',
+  vcard: 'http://nwalsh.com/rdf/vCard#',
+  link: 'http://purl.org/rss/1.0/modules/link/'
+};
+
+// RDF properties holding a single text value, mapped to Zotero fields
+const RDF_TEXT_PROPERTIES: Record<string, string> = {
+  [`${NS.dc}title`]: 'title',
+  [`${NS.dcterms}abstract`]: 'abstractNote',
+  [`${NS.dc}date`]: 'date',
+  [`${NS.dcterms}dateSubmitted`]: 'accessDate',
+  [`${NS.z}language`]: 'language',
+  [`${NS.dc}language`]: 'language',
+  [`${NS.z}shortTitle`]: 'shortTitle',
+  [`${NS.dc}description`]: 'extra',
+  [`${NS.bib}pages`]: 'pages',
+  [`${NS.prism}edition`]: 'edition',
+  [`${NS.prism}volume`]: 'volume',
+  [`${NS.prism}number`]: 'issue',
+  [`${NS.prism}section`]: 'section',
+  [`${NS.z}numPages`]: 'numPages',
+  [`${NS.z}numberOfVolumes`]: 'numberOfVolumes',
+  [`${NS.z}type`]: 'thesisType',
+  [`${NS.z}libraryCatalog`]: 'libraryCatalog',
+  [`${NS.dc}coverage`]: 'archiveLocation',
+  [`${NS.z}archive`]: 'archive',
+  [`${NS.dcterms}alternative`]: 'journalAbbreviation'
+};
+
+// RDF creator lists to Zotero creator types
+const RDF_CREATOR_PROPERTIES: Record<string, string> = {
+  [`${NS.bib}authors`]: 'author',
+  [`${NS.bib}editors`]: 'editor',
+  [`${NS.z}seriesEditors`]: 'seriesEditor',
+  [`${NS.z}bookAuthors`]: 'bookAuthor',
+  [`${NS.z}translators`]: 'translator',
+  [`${NS.z}contributors`]: 'contributor'
+};
+
+type UnmappedReporter = (field: string) => void;
+
+function createReport(format: string): { report: ImportReport; reportUnmapped: UnmappedReporter } {
+  const report: ImportReport = { format, entryCount: 0, unmappedFields: {} };
+  const reportUnmapped = (field: string) => {
+    report.unmappedFields[field] = (report.unmappedFields[field] || 0) + 1;
+  };
+  return { report, reportUnmapped };
+}
+
+// Applies the "name: value" conventions Zotero stores in extra and returns the
+// lines that are not one of them
+function applyExtraFields(entry: CSLEntry, extra: string, reportUnmapped: UnmappedReporter): string {
+  const remaining: string[] = [];
+
+  extra.split(/\r?\n/).forEach(line => {
+    const match = /^\s*([A-Za-z][\w. -]*?)\s*:\s*(.+?)\s*$/.exec(line);
+    if (!match) {
+      remaining.push(line);
+      return;
+    }
+
+    const name = match[1].toLowerCase().replace(/\s+/g, '-');
+    const value = match[2];
+    const textField = EXTRA_CSL_FIELDS.find(field => field.toLowerCase() === name);
+
+    if (name === 'citation-key' || name === 'bibtex') {
+      entry.id = value;
+    } else if (name === 'type' && Object.values(ZOTERO_TO_CSL_TYPE).includes(value)) {
+      entry.type = value as CSLEntry['type'];
+    } else if (EXTRA_CSL_DATE_FIELDS.includes(name)) {
+      entry[name] = parseDateString(value);
+    } else if (textField) {
+      entry[textField] = value;
+    } else {
+      if (name.startsWith('tex.')) {
+        // Better BibTeX field overrides, which have no CSL equivalent
+        reportUnmapped(`extra: ${match[1]}`);
+      }
+      remaining.push(line);
+    }
+  });
+
+  return remaining.join('\n').trim();
+}
+
+// Gives every entry a unique citation key and mirrors it into citation-key
+function assignCitationKeys(entries: CSLEntry[]): void {
+  const usedKeys = new Set<string>();
+  entries.forEach(entry => {
+    // Zotero item URIs ("http://zotero.org/users/1/items/ABCD1234") are not usable as keys
+    if (!entry.id || usedKeys.has(entry.id) || !/^[^\s,{}#%/]+$/.test(entry.id)) {
+      entry.id = generateCitationKey(entry, usedKeys);
+    }
+    usedKeys.add(entry.id);
+    entry['citation-key'] = entry.id;
+  });
+}
+
+// Converts a Zotero item (native JSON field names) to a CSL entry
+function zoteroItemToCSL(item: Record<string, any>, reportUnmapped: UnmappedReporter): CSLEntry {
+  const entry: CSLEntry = {
+    id: String(item.citationKey || ''),
+    type: (ZOTERO_TO_CSL_TYPE[item.itemType] || 'article-journal') as CSLEntry['type']
+  };
+  if (item.itemType && !ZOTERO_TO_CSL_TYPE[item.itemType]) {
+    reportUnmapped(`itemType: ${item.itemType}`);
+  }
+
+  Object.entries(item).forEach(([field, value]) => {
+    if (ZOTERO_IGNORED_FIELDS.has(field) || value === undefined || value === null || value === '') return;
+    if (Array.isArray(value) && value.length === 0) return;
+
+    switch (field) {
+      case 'citationKey':
+      case 'extra':
+        break; // Handled below
+      case 'creators':
+        (value as any[]).forEach(creator => {
+          const nameField = ZOTERO_CREATOR_FIELDS[creator.creatorType || 'author'];
+          if (!nameField) {
+            reportUnmapped(`creators: ${creator.creatorType}`);
+            return;
+          }
+          const name = creator.name !== undefined
+            ? { literal: creator.name }
+            : { family: creator.lastName, given: creator.firstName || undefined };
+          entry[nameField] = [...((entry[nameField] as any[]) || []), name];
+        });
+        break;
+      case 'date':
+        entry.issued = parseDateString(String(value));
+        break;
+      case 'accessDate':
+        entry.accessed = parseDateString(String(value));
+        break;
+      case 'tags':
+        entry.keyword = (value as any[]).map(tag => (typeof tag === 'string' ? tag : tag.tag)).filter(Boolean).join(', ');
+        break;
+      default: {
+        const cslField = ZOTERO_TEXT_FIELDS[field];
+        if (cslField && typeof value !== 'object') {
+          if (entry[cslField] === undefined) {
+            entry[cslField] = String(value);
+          }
+        } else {
+          reportUnmapped(field);
+        }
+      }
+    }
+  });
+
+  if (item.extra) {
+    const note = applyExtraFields(entry, String(item.extra), reportUnmapped);
+    if (note) entry.note = note;
+  }
+
+  return entry;
+}
+
+/**
+ * Checks whether parsed JSON is a Zotero export rather than a plain CSL-JSON library
+ * @param data Parsed JSON content
+ */
+export function isZoteroJSON(data: unknown): boolean {
+  if (!Array.isArray(data) || data.length === 0) return false;
+  return data.some(item =>
+    typeof item === 'object' && item !== null && (
+      'itemType' in item ||
+      'citationKey' in item ||
+      /^\s*Citation Key\s*:/mi.test(String(item.note || '')) ||
+      /zotero\.org\/|^\d+\/[A-Z0-9]{8}$/.test(String(item.id || ''))
+    )
+  );
+}
+
+/**
+ * Parses a Zotero JSON export: native Zotero items or Zotero's CSL-JSON
+ * @param content JSON file content
+ * @returns CSL entries and a report of the source fields that could not be mapped
+ */
+export function parseZoteroJSON(content: string): { entries: CSLEntry[]; report: ImportReport } {
+  const data = JSON.parse(content);
+  const items: any[] = Array.isArray(data) ? data : data.items || [];
+  const isNative = items.some(item => 'itemType' in item);
+  const { report, reportUnmapped } = createReport(isNative ? 'Zotero JSON' : 'Zotero CSL-JSON');
+
+  const entries = items
+    .filter(item => item.itemType !== 'attachment' && item.itemType !== 'note')
+    .map(item => {
+      if (isNative) {
+        return zoteroItemToCSL(item, reportUnmapped);
+      }
+
+      // Already CSL-JSON, only the extra conventions in note need applying
+      const entry: CSLEntry = { ...item, id: String(item['citation-key'] || item.id || '') };
+      if (typeof entry.note === 'string') {
+        const note = applyExtraFields(entry, entry.note, reportUnmapped);
+        if (note) {
+          entry.note = note;
+        } else {
+          delete entry.note;
+        }
+      }
+      return entry;
+    });
+
+  assignCitationKeys(entries);
+  report.entryCount = entries.length;
+  return { entries, report };
+}
+
+// Text of the first descendant with the given namespaced name, or ''
+function descendantTextNS(element: Element, namespace: string, localName: string): string {
+  const descendant = element.getElementsByTagNameNS(namespace, localName)[0];
+  return descendant ? elementText(descendant) : '';
+}
+
+// Reads the rdf:li persons of a creator list into Zotero creators
+function readRDFCreators(list: Element, creatorType: string): any[] {
+  return Array.from(list.getElementsByTagNameNS(NS.foaf, 'Person')).map(person => {
+    const lastName = descendantTextNS(person, NS.foaf, 'surname');
+    const firstName = descendantTextNS(person, NS.foaf, 'givenName') || descendantTextNS(person, NS.foaf, 'givenname');
+    return firstName ? { creatorType, lastName, firstName } : { creatorType, name: lastName };
+  });
+}
+
+// Reads "DOI 10.1/abc", "ISBN ...", "ISSN ..." identifiers and nested URIs
+function readRDFIdentifier(element: Element, item: Record<string, any>): boolean {
+  const uri = element.getElementsByTagNameNS(NS.rdf, 'value')[0];
+  if (uri) {
+    item.url = elementText(uri);
+    return true;
+  }
+  const match = /^(DOI|ISBN|ISSN)\s+(.+)$/i.exec(elementText(element));
+  if (match) {
+    item[match[1].toUpperCase()] = match[2];
+    return true;
+  }
+  return false;
+}
+
+// Converts a Zotero RDF resource into a Zotero item, following container and
+// publisher references
+function readRDFItem(
+  element: Element,
+  resources: Map<string, Element>,
+  reportUnmapped: UnmappedReporter,
+  item: Record<string, any> = { creators: [], tags: [] },
+  isContainer = false
+): Record<string, any> {
+  childElements(element).forEach(property => {
+    const qualifiedName = `${property.namespaceURI}${property.localName}`;
+    const textField = RDF_TEXT_PROPERTIES[qualifiedName];
+    const creatorType = RDF_CREATOR_PROPERTIES[qualifiedName];
+    // Referenced resources are either nested or linked via rdf:resource
+    const reference = property.getAttributeNS(NS.rdf, 'resource');
+    const target = reference ? resources.get(reference) : childElements(property)[0];
+
+    if (qualifiedName === `${NS.z}itemType`) {
+      if (!isContainer) item.itemType = elementText(property);
+    } else if (qualifiedName === `${NS.dc}title` && isContainer) {
+      // The title of the journal, book or series the item is part of
+      const containerType = element.localName;
+      if (containerType === 'Series') {
+        item.series = elementText(property);
+      } else {
+        item.publicationTitle = elementText(property);
+      }
+    } else if (textField) {
+      // prism:number is the report number on reports and the issue elsewhere
+      const field = textField === 'issue' && item.itemType === 'report' ? 'reportNumber' : textField;
+      // Extra is line-based, so its line breaks must survive
+      const value = field === 'extra' ? (property.textContent || '').trim() : elementText(property);
+      if (item[field] === undefined) item[field] = value;
+    } else if (creatorType) {
+      item.creators.push(...readRDFCreators(property, creatorType));
+    } else if (qualifiedName === `${NS.dc}subject`) {
+      const tag = elementText(property);
+      if (tag) item.tags.push(tag);
+    } else if (qualifiedName === `${NS.dc}identifier`) {
+      if (!readRDFIdentifier(property, item)) {
+        reportUnmapped(property.tagName);
+      }
+    } else if (qualifiedName === `${NS.dc}publisher` && target) {
+      const name = descendantTextNS(target, NS.foaf, 'name');
+      const place = descendantTextNS(target, NS.vcard, 'locality');
+      if (name) item.publisher = name;
+      if (place) item.place = place;
+    } else if (qualifiedName === `${NS.dcterms}isPartOf` && target) {
+      readRDFItem(target, resources, reportUnmapped, item, true);
+    } else if (qualifiedName === `${NS.bib}presentedAt` && target) {
+      item.conferenceName = descendantTextNS(target, NS.dc, 'title');
+    } else if (qualifiedName === `${NS.link}link`) {
+      // Attachments (PDFs, snapshots) are not imported
+    } else {
+      reportUnmapped(property.tagName);
+    }
+  });
+
+  return item;
+}
+
+/**
+ * Parses a Zotero RDF export into CSL-JSON entries
+ * @param content Zotero RDF file content
+ * @returns CSL entries and a report of the source fields that could not be mapped
+ */
+export function parseZoteroRDF(content: string): { entries: CSLEntry[]; report: ImportReport } {
+  const doc = parseXML(content, 'Zotero RDF');
+  const { report, reportUnmapped } = createReport('Zotero RDF');
+
+  const resources = new Map<string, Element>();
+  const topLevel = childElements(doc.documentElement);
+  topLevel.forEach(element => {
+    const about = element.getAttributeNS(NS.rdf, 'about');
+    if (about) resources.set(about, element);
+  });
+
+  const entries = topLevel
+    .filter(element => {
+      const itemType = element.getElementsByTagNameNS(NS.z, 'itemType')[0];
+      return itemType && !['attachment', 'note'].includes(elementText(itemType));
+    })
+    .map(element => zoteroItemToCSL(readRDFItem(element, resources, reportUnmapped), reportUnmapped));
+
+  assignCitationKeys(entries);
+  report.entryCount = entries.length;
+  return { entries, report };
+}